@@ -4,42 +4,137 @@ import android.Manifest
 import android.content.Intent
 import android.net.Uri
 import android.content.pm.PackageManager
+import android.media.AudioDeviceInfo
 import android.media.AudioFormat
+import android.media.AudioManager
 import android.media.AudioRecord
+import android.media.AudioRecordingConfiguration
+import android.media.AudioRouting
 import android.media.MediaRecorder
+import android.os.Build
+import android.os.Handler
+import android.os.Looper
 import androidx.core.content.ContextCompat
 import expo.modules.kotlin.exception.CodedException
 import expo.modules.kotlin.modules.Module
 import expo.modules.kotlin.modules.ModuleDefinition
+import org.json.JSONArray
+import org.json.JSONObject
 
+import java.io.ByteArrayOutputStream
 import java.io.File
 import java.io.RandomAccessFile
 import java.util.UUID
 
 private const val DEFAULT_BUFFER_CHUNK_SECONDS = 300
 private const val DEFAULT_MAX_BUFFERED_MINUTES = 60
+private const val WAV_HEADER_BYTES = 44L
+private const val FLAC_MIME_TYPE = "audio/flac"
+private const val SEGMENT_INDEX_FILE = "segments.json"
+// Offsets between segments below this are treated as contiguous audio.
+private const val EXPORT_GAP_TOLERANCE_MS = 10.0
+
+// Values of `StreamAudioOptions.androidAudioSource`.
+private val AUDIO_SOURCES = mapOf(
+  "voice_recognition" to MediaRecorder.AudioSource.VOICE_RECOGNITION,
+  "voice_communication" to MediaRecorder.AudioSource.VOICE_COMMUNICATION,
+  "mic" to MediaRecorder.AudioSource.MIC,
+  "camcorder" to MediaRecorder.AudioSource.CAMCORDER,
+  "unprocessed" to MediaRecorder.AudioSource.UNPROCESSED,
+  "voice_performance" to MediaRecorder.AudioSource.VOICE_PERFORMANCE,
+)
+
+private fun channelMask(channels: Int): Int =
+  if (channels == 2) AudioFormat.CHANNEL_IN_STEREO else AudioFormat.CHANNEL_IN_MONO
+
+private fun AudioDeviceInfo.toRouteMap(): Map<String, Any> = mapOf(
+  "id" to id.toString(),
+  "name" to productName.toString(),
+  "type" to deviceTypeName(type),
+)
+
+private fun deviceTypeName(type: Int): String = when (type) {
+  AudioDeviceInfo.TYPE_BUILTIN_MIC -> "TYPE_BUILTIN_MIC"
+  AudioDeviceInfo.TYPE_WIRED_HEADSET -> "TYPE_WIRED_HEADSET"
+  AudioDeviceInfo.TYPE_BLUETOOTH_SCO -> "TYPE_BLUETOOTH_SCO"
+  AudioDeviceInfo.TYPE_USB_DEVICE -> "TYPE_USB_DEVICE"
+  AudioDeviceInfo.TYPE_USB_HEADSET -> "TYPE_USB_HEADSET"
+  AudioDeviceInfo.TYPE_USB_ACCESSORY -> "TYPE_USB_ACCESSORY"
+  AudioDeviceInfo.TYPE_TELEPHONY -> "TYPE_TELEPHONY"
+  AudioDeviceInfo.TYPE_BLE_HEADSET -> "TYPE_BLE_HEADSET"
+  AudioDeviceInfo.TYPE_REMOTE_SUBMIX -> "TYPE_REMOTE_SUBMIX"
+  else -> "TYPE_$type"
+}
 
 data class BufferedSegmentInfo(
   val id: String,
   val uri: String,
   val sampleRate: Int,
+  val channels: Int,
   val startTimestamp: Long,
   val durationMs: Long,
   val sizeBytes: Long,
+  val compressedUri: String? = null,
+  val compressedSizeBytes: Long = 0,
 ) {
-  fun toMap(): Map<String, Any> = mapOf(
-    "id" to id,
-    "uri" to uri,
-    "sampleRate" to sampleRate,
-    "startTimestamp" to startTimestamp,
-    "durationMs" to durationMs,
-    "sizeBytes" to sizeBytes,
-  )
+  fun toMap(): Map<String, Any> = buildMap {
+    put("id", id)
+    put("uri", uri)
+    put("sampleRate", sampleRate)
+    put("channels", channels)
+    put("startTimestamp", startTimestamp)
+    put("durationMs", durationMs)
+    put("sizeBytes", sizeBytes)
+    if (compressedUri != null) {
+      put("compressed", mapOf(
+        "uri" to compressedUri,
+        "mimeType" to FLAC_MIME_TYPE,
+        "sizeBytes" to compressedSizeBytes,
+      ))
+    }
+  }
+
+  fun files(): List<File> = listOfNotNull(uri, compressedUri).mapNotNull { Uri.parse(it).path?.let(::File) }
+
+  // The index stores file names rather than URIs so it stays valid if the
+  // cache directory moves.
+  fun toJson(): JSONObject = JSONObject()
+    .put("id", id)
+    .put("fileName", File(Uri.parse(uri).path ?: "").name)
+    .put("sampleRate", sampleRate)
+    .put("channels", channels)
+    .put("startTimestamp", startTimestamp)
+    .put("durationMs", durationMs)
+    .put("sizeBytes", sizeBytes)
+    .apply {
+      if (compressedUri != null) {
+        put("compressedFileName", File(Uri.parse(compressedUri).path ?: "").name)
+        put("compressedSizeBytes", compressedSizeBytes)
+      }
+    }
+
+  companion object {
+    fun fromJson(json: JSONObject, directory: File): BufferedSegmentInfo = BufferedSegmentInfo(
+      id = json.getString("id"),
+      uri = File(directory, json.getString("fileName")).toURI().toString(),
+      sampleRate = json.getInt("sampleRate"),
+      // Indexes written before stereo support only held mono segments.
+      channels = json.optInt("channels", 1),
+      startTimestamp = json.getLong("startTimestamp"),
+      durationMs = json.getLong("durationMs"),
+      sizeBytes = json.getLong("sizeBytes"),
+      compressedUri = json.optString("compressedFileName").takeIf { it.isNotEmpty() }?.let {
+        File(directory, it).toURI().toString()
+      },
+      compressedSizeBytes = json.optLong("compressedSizeBytes", 0),
+    )
+  }
 }
 
 private class BufferedSegmentWriter(
   directory: File,
   val sampleRate: Int,
+  val channels: Int,
   val startTimestamp: Long,
 ) {
   val id: String = UUID.randomUUID().toString()
@@ -53,7 +148,7 @@ private class BufferedSegmentWriter(
     if (!directory.exists()) {
       directory.mkdirs()
     }
-    raf.write(buildWavHeader(0, sampleRate))
+    raf.write(buildWavHeader(0, sampleRate, channels))
   }
 
   fun append(bytes: ByteArray, length: Int) {
@@ -71,16 +166,17 @@ private class BufferedSegmentWriter(
 
     val dataSize = bytesWritten.toInt()
     raf.seek(0)
-    raf.write(buildWavHeader(dataSize, sampleRate))
+    raf.write(buildWavHeader(dataSize, sampleRate, channels))
     raf.close()
 
-    val bytesPerSecond = sampleRate * 2.0 // mono, 16‑bit
+    val bytesPerSecond = sampleRate * 2.0 * channels // 16‑bit interleaved
     val durationMs = ((bytesWritten / bytesPerSecond) * 1000.0).toLong()
 
     return BufferedSegmentInfo(
       id = id,
       uri = file.toURI().toString(),
       sampleRate = sampleRate,
+      channels = channels,
       startTimestamp = startTimestamp,
       durationMs = durationMs,
       sizeBytes = bytesWritten,
@@ -95,66 +191,200 @@ private class BufferedSegmentWriter(
     }
     file.delete()
   }
+}
+
+private fun buildWavHeader(dataSize: Int, sampleRate: Int, channels: Int): ByteArray {
+  val totalDataLen = 36 + dataSize
+  val blockAlign = channels * 2 // 16‑bit interleaved
+  val byteRate = sampleRate * blockAlign
+  val header = ByteArray(44)
+
+  // RIFF chunk descriptor
+  header[0] = 'R'.code.toByte()
+  header[1] = 'I'.code.toByte()
+  header[2] = 'F'.code.toByte()
+  header[3] = 'F'.code.toByte()
+  writeIntLE(totalDataLen, header, 4)
+
+  // WAVE
+  header[8] = 'W'.code.toByte()
+  header[9] = 'A'.code.toByte()
+  header[10] = 'V'.code.toByte()
+  header[11] = 'E'.code.toByte()
+
+  // fmt subchunk
+  header[12] = 'f'.code.toByte()
+  header[13] = 'm'.code.toByte()
+  header[14] = 't'.code.toByte()
+  header[15] = ' '.code.toByte()
+  writeIntLE(16, header, 16) // Subchunk1Size
+  writeShortLE(1, header, 20) // PCM
+  writeShortLE(channels, header, 22)
+  writeIntLE(sampleRate, header, 24)
+  writeIntLE(byteRate, header, 28)
+  writeShortLE(blockAlign, header, 32)
+  writeShortLE(16, header, 34) // bitsPerSample
+
+  // data subchunk
+  header[36] = 'd'.code.toByte()
+  header[37] = 'a'.code.toByte()
+  header[38] = 't'.code.toByte()
+  header[39] = 'a'.code.toByte()
+  writeIntLE(dataSize, header, 40)
+
+  return header
+}
+
+private fun writeIntLE(value: Int, buffer: ByteArray, offset: Int) {
+  buffer[offset] = (value and 0xFF).toByte()
+  buffer[offset + 1] = (value shr 8 and 0xFF).toByte()
+  buffer[offset + 2] = (value shr 16 and 0xFF).toByte()
+  buffer[offset + 3] = (value shr 24 and 0xFF).toByte()
+}
+
+private fun writeShortLE(value: Int, buffer: ByteArray, offset: Int) {
+  buffer[offset] = (value and 0xFF).toByte()
+  buffer[offset + 1] = (value shr 8 and 0xFF).toByte()
+}
+
+// Buffered audio that an export reads from: a finalized segment or the
+// one still being written.
+private data class ExportSource(
+  val file: File,
+  val sampleRate: Int,
+  val channels: Int,
+  val startTimestamp: Long,
+  val dataBytes: Long,
+) {
+  val endTimestamp: Double
+    get() = startTimestamp + (dataBytes / (2.0 * channels) / sampleRate) * 1000.0
+}
+
+// Frames coalesced into one `onFrame` event, see `eventBatchMs`. With
+// `enableLevelMeter`, `meter` measures the whole batch as frames arrive.
+private class FrameBatch(val timestamp: Long, val meter: LevelMeter?) {
+  val pcm = ByteArrayOutputStream()
+  val levels = mutableListOf<Double>()
+}
+
+// Floor for dBFS values, reported for silence.
+private const val MIN_DB = -160.0
+
+private fun toDb(linear: Double): Double = if (linear > 0) maxOf(MIN_DB, 20 * kotlin.math.log10(linear)) else MIN_DB
+
+// RMS (0–1) of interleaved PCM16 across all channels, like `LevelMeter.rms`.
+private fun pcm16Rms(pcm: ByteArray): Double {
+  var sum = 0.0
+  var i = 0
+  while (i + 1 < pcm.size) {
+    val normalized = ((pcm[i + 1].toInt() shl 8) or (pcm[i].toInt() and 0xFF)).toShort() / 32767.0
+    sum += normalized * normalized
+    i += 2
+  }
+  val count = pcm.size / 2
+  return if (count > 0) kotlin.math.sqrt(sum / count) else 0.0
+}
+
+// Accumulates interleaved PCM16 for `AudioLevel` measurements.
+private class LevelMeter(private val channels: Int) {
+  private val channelSums = DoubleArray(channels)
+  private var peakSample = 0
+  private var clippedSamples = 0
+  private var sampleCount = 0L
+  // Timestamp of the first sample since the last reset.
+  private var timestamp: Long? = null
+
+  fun add(pcm: ByteArray, timestamp: Long = 0) {
+    if (this.timestamp == null) this.timestamp = timestamp
+    var i = 0
+    while (i + 1 < pcm.size) {
+      val sample = ((pcm[i + 1].toInt() shl 8) or (pcm[i].toInt() and 0xFF)).toShort().toInt()
+      val normalized = sample / 32767.0
+      channelSums[(i / 2) % channels] += normalized * normalized
+      val magnitude = kotlin.math.abs(sample)
+      peakSample = maxOf(peakSample, magnitude)
+      if (magnitude >= 32767) clippedSamples++
+      sampleCount++
+      i += 2
+    }
+  }
+
+  fun durationMs(sampleRate: Int): Double = sampleCount.toDouble() / channels / sampleRate * 1000.0
+
+  fun rms(): Double = if (sampleCount > 0) kotlin.math.sqrt(channelSums.sum() / sampleCount) else 0.0
+
+  fun level(): Map<String, Any> {
+    val rms = rms()
+    val peak = minOf(1.0, peakSample / 32767.0)
+    return mapOf(
+      "rms" to rms,
+      "rmsDb" to toDb(rms),
+      "peak" to peak,
+      "peakDb" to toDb(peak),
+      "clippedSamples" to clippedSamples,
+    )
+  }
+
+  fun channelLevels(): List<Double> {
+    val frames = sampleCount.toDouble() / channels
+    return channelSums.map { if (frames > 0) kotlin.math.sqrt(it / frames) else 0.0 }
+  }
+
+  fun event(sampleRate: Int): Map<String, Any> = level() + mapOf(
+    "channelLevels" to channelLevels(),
+    "timestamp" to (timestamp ?: 0L),
+    "durationMs" to durationMs(sampleRate),
+  )
 
-  private fun buildWavHeader(dataSize: Int, sampleRate: Int): ByteArray {
-    val totalDataLen = 36 + dataSize
-    val byteRate = sampleRate * 2 // mono, 16‑bit
-    val header = ByteArray(44)
-
-    // RIFF chunk descriptor
-    header[0] = 'R'.code.toByte()
-    header[1] = 'I'.code.toByte()
-    header[2] = 'F'.code.toByte()
-    header[3] = 'F'.code.toByte()
-    writeIntLE(totalDataLen, header, 4)
-
-    // WAVE
-    header[8] = 'W'.code.toByte()
-    header[9] = 'A'.code.toByte()
-    header[10] = 'V'.code.toByte()
-    header[11] = 'E'.code.toByte()
-
-    // fmt subchunk
-    header[12] = 'f'.code.toByte()
-    header[13] = 'm'.code.toByte()
-    header[14] = 't'.code.toByte()
-    header[15] = ' '.code.toByte()
-    writeIntLE(16, header, 16) // Subchunk1Size
-    writeShortLE(1, header, 20) // PCM
-    writeShortLE(1, header, 22) // mono
-    writeIntLE(sampleRate, header, 24)
-    writeIntLE(byteRate, header, 28)
-    writeShortLE(2, header, 32) // blockAlign
-    writeShortLE(16, header, 34) // bitsPerSample
-
-    // data subchunk
-    header[36] = 'd'.code.toByte()
-    header[37] = 'a'.code.toByte()
-    header[38] = 't'.code.toByte()
-    header[39] = 'a'.code.toByte()
-    writeIntLE(dataSize, header, 40)
-
-    return header
-  }
-
-  private fun writeIntLE(value: Int, buffer: ByteArray, offset: Int) {
-    buffer[offset] = (value and 0xFF).toByte()
-    buffer[offset + 1] = (value shr 8 and 0xFF).toByte()
-    buffer[offset + 2] = (value shr 16 and 0xFF).toByte()
-    buffer[offset + 3] = (value shr 24 and 0xFF).toByte()
-  }
-
-  private fun writeShortLE(value: Int, buffer: ByteArray, offset: Int) {
-    buffer[offset] = (value and 0xFF).toByte()
-    buffer[offset + 1] = (value shr 8 and 0xFF).toByte()
+  fun reset() {
+    channelSums.fill(0.0)
+    peakSample = 0
+    clippedSamples = 0
+    sampleCount = 0
+    timestamp = null
   }
 }
 
+// A captured frame kept in the pre-roll ring, see `preRollMs`.
+private class PreRollFrame(val pcm: ByteArray, val timestamp: Long)
+
 class ExpoStreamAudioModule : Module() {
   private var audioRecord: AudioRecord? = null
-  private var isRecording: Boolean = false
+  @Volatile private var isRecording: Boolean = false
+  @Volatile private var status: String = "idle"
+  // While paused the recorder keeps running but frames are dropped, so
+  // resuming is instant and keeps the sample rate.
+  @Volatile private var isPaused: Boolean = false
+  // Set while another app silences our input (Android 10+).
+  @Volatile private var isInterrupted: Boolean = false
+  private var autoResumeAfterInterruption: Boolean = false
+
+  // Interruption and route tracking, registered while recording.
+  private val callbackHandler = Handler(Looper.getMainLooper())
+  private var audioManager: AudioManager? = null
+  private var recordingCallback: AudioManager.AudioRecordingCallback? = null
+  private var routingListener: AudioRouting.OnRoutingChangedListener? = null
+  private var currentInput: AudioDeviceInfo? = null
+  private var knownInputIds: Set<Int> = emptySet()
+  // Returned by `start`, including repeated calls while recording.
+  private var sessionInfo: Map<String, Any?> = emptyMap()
   private var sampleRate: Int = 16000
+  private var channels: Int = 1
   private var frameDurationMs: Int = 20
+  // `arraybuffer` sends frames as ByteArray, converted to Uint8Array by JSI.
+  private var binaryFrames: Boolean = false
+  private var enableLevelMeter: Boolean = false
+  // Accumulates audio for `onLevel`, see `levelIntervalMs`.
+  private var levelIntervalMs: Int = 0
+  private var levelMeter: LevelMeter? = null
+  private var eventBatchMs: Int = 0
+  private var pendingBatch: FrameBatch? = null
+  private var preRollMs: Int = 0
+  private val preRollFrames = ArrayDeque<PreRollFrame>()
+  private var preRollBytes: Long = 0
+  // Guards the batch and the pre-roll ring, and orders replayed frames
+  // before live ones.
+  private val frameLock = Any()
   @Volatile private var shouldRecord: Boolean = false
   private var recordingThread: Thread? = null
 
@@ -169,7 +399,13 @@ class ExpoStreamAudioModule : Module() {
   override fun definition() = ModuleDefinition {
     Name("ExpoStreamAudio")
 
-    Events("onFrame", "onError")
+    Events("onFrame", "onError", "onStatusChange", "onInterruption", "onRouteChange", "onLevel")
+
+    OnCreate {
+      synchronized(bufferLock) {
+        bufferedSegments.addAll(loadSegmentIndex())
+      }
+    }
 
     AsyncFunction("requestPermission") {
       val context = appContext.reactContext ?: return@AsyncFunction "undetermined"
@@ -182,158 +418,393 @@ class ExpoStreamAudioModule : Module() {
     }
 
     AsyncFunction("start") { options: Map<String, Any?> ->
-      if (isRecording) {
-        return@AsyncFunction
+      startSession(options)
+    }
+
+    AsyncFunction("getInputDevices") {
+      val context = appContext.reactContext ?: return@AsyncFunction emptyList<Map<String, Any>>()
+      val manager = context.getSystemService(android.content.Context.AUDIO_SERVICE) as AudioManager
+      manager.getDevices(AudioManager.GET_DEVICES_INPUTS).map { device ->
+        device.toRouteMap() + ("sampleRates" to device.sampleRates.toList())
       }
+    }
 
-      val context = appContext.reactContext
-      if (context == null) {
-        val message = "React context is null."
-        sendError(message)
-        throw CodedException(message)
+    AsyncFunction("stop") {
+      stopRecordingInternal()
+    }
+
+    AsyncFunction("pause") {
+      pauseRecording()
+    }
+
+    AsyncFunction("resume") {
+      resumeRecording()
+    }
+
+    AsyncFunction("getStatus") {
+      status
+    }
+
+    AsyncFunction("setBufferingEnabled") { enabled: Boolean ->
+      synchronized(bufferLock) {
+        bufferingEnabled = enabled
+        if (!enabled) {
+          finalizeCurrentSegmentIfNeeded()
+        }
       }
+    }
 
-      val permissionStatus = ContextCompat.checkSelfPermission(context, Manifest.permission.RECORD_AUDIO)
-      if (permissionStatus != PackageManager.PERMISSION_GRANTED) {
-        val message = "Microphone permission not granted."
-        sendError(message)
-        throw CodedException(message)
+    AsyncFunction("getBufferedSegments") {
+      synchronized(bufferLock) {
+        bufferedSegments.map { it.toMap() }
       }
+    }
 
-      val requestedSampleRate = (options["sampleRate"] as? Number)?.toInt()
-      frameDurationMs = (options["frameDurationMs"] as? Number)?.toInt() ?: 20
-      val enableBackground = (options["enableBackground"] as? Boolean) == true
+    AsyncFunction("clearBufferedSegments") {
+      synchronized(bufferLock) {
+        currentSegmentWriter?.discard()
+        currentSegmentWriter = null
+        bufferedSegments.forEach { deleteSegmentFiles(it) }
+        bufferedSegments.clear()
+        // Also remove segments orphaned by a previous process.
+        getBufferDirectory().listFiles()?.forEach { file ->
+          if (file.name.startsWith("segment_") && (file.name.endsWith(".wav") || file.name.endsWith(".flac"))) {
+            file.delete()
+          }
+        }
+        persistSegmentIndex()
+      }
+    }
 
-      bufferingEnabled = (options["enableBuffering"] as? Boolean) == true
-      bufferChunkSeconds = (options["bufferChunkSeconds"] as? Number)?.toInt()
-        ?.takeIf { it > 0 } ?: DEFAULT_BUFFER_CHUNK_SECONDS
-      maxBufferedMinutes = (options["maxBufferedMinutes"] as? Number)?.toInt()
-        ?.takeIf { it > 0 } ?: DEFAULT_MAX_BUFFERED_MINUTES
+    AsyncFunction("recoverBufferedSegments") {
+      synchronized(bufferLock) {
+        val currentFile = currentSegmentWriter?.file
+        val known = bufferedSegments.associateBy { File(Uri.parse(it.uri).path ?: "").name }
+        val recovered = mutableListOf<BufferedSegmentInfo>()
 
-      sampleRate = chooseSampleRate(requestedSampleRate)
-      val minBufferSize = AudioRecord.getMinBufferSize(
-        sampleRate,
-        AudioFormat.CHANNEL_IN_MONO,
-        AudioFormat.ENCODING_PCM_16BIT
+        getBufferDirectory().listFiles()?.forEach { file ->
+          if (!file.name.startsWith("segment_") || !file.name.endsWith(".wav") || file == currentFile) {
+            return@forEach
+          }
+          val info = known[file.name] ?: try {
+            repairSegmentFile(file)
+          } catch (e: Throwable) {
+            sendError("buffer_write_failed", "Failed to recover ${file.name}: ${e.message ?: "unknown error"}", fatal = false, cause = e)
+            null
+          }
+          info?.let { recovered.add(it) }
+        }
+
+        // Index entries whose file is gone are dropped as well.
+        bufferedSegments.clear()
+        bufferedSegments.addAll(recovered.sortedBy { it.startTimestamp })
+        persistSegmentIndex()
+        bufferedSegments.map { it.toMap() }
+      }
+    }
+
+    AsyncFunction("deleteBufferedSegments") { ids: List<String> ->
+      synchronized(bufferLock) {
+        val idSet = ids.toSet()
+        val removed = bufferedSegments.filter { it.id in idSet }
+        bufferedSegments.removeAll(removed)
+        persistSegmentIndex()
+        removed.forEach { deleteSegmentFiles(it) }
+
+        // Segments written by a previous process are not in the list but
+        // still on disk; match them by the id in the file name. The
+        // segment currently being written is never deleted.
+        val remaining = idSet - removed.map { it.id }.toSet() - listOfNotNull(currentSegmentWriter?.id).toSet()
+        if (remaining.isNotEmpty()) {
+          getBufferDirectory().listFiles()?.forEach { file ->
+            if (!file.name.startsWith("segment_") || !(file.name.endsWith(".wav") || file.name.endsWith(".flac"))) return@forEach
+            // segment_<startTimestamp>_<id>.wav, plus .flac once compressed
+            val id = file.nameWithoutExtension.substringAfter('_').substringAfter('_')
+            if (id in remaining) {
+              file.delete()
+            }
+          }
+        }
+      }
+    }
+
+    AsyncFunction("readBufferedSegment") { id: String ->
+      val info = synchronized(bufferLock) { bufferedSegments.find { it.id == id } }
+        ?: throw CodedException("segment_not_found", "No buffered segment with id $id.", null)
+      try {
+        val bytes = File(Uri.parse(info.uri).path ?: "").readBytes()
+        android.util.Base64.encodeToString(bytes, android.util.Base64.NO_WRAP)
+      } catch (e: Throwable) {
+        throw CodedException("segment_read_failed", "Failed to read ${info.uri}: ${e.message ?: "unknown error"}", e)
+      }
+    }
+
+    AsyncFunction("writeCompressedSegment") { id: String, base64: String ->
+      val info = synchronized(bufferLock) { bufferedSegments.find { it.id == id } }
+        ?: throw CodedException("segment_not_found", "No buffered segment with id $id.", null)
+      // segment_<startTimestamp>_<id>.flac next to the WAV. Written outside
+      // the lock so the recording thread is not blocked.
+      val wavFile = File(Uri.parse(info.uri).path ?: "")
+      val file = File(wavFile.parentFile, "${wavFile.nameWithoutExtension}.flac")
+      try {
+        file.writeBytes(android.util.Base64.decode(base64, android.util.Base64.DEFAULT))
+      } catch (e: Throwable) {
+        file.delete()
+        throw CodedException("compression_failed", "Failed to write ${file.name}: ${e.message ?: "unknown error"}", e)
+      }
+
+      synchronized(bufferLock) {
+        val index = bufferedSegments.indexOfFirst { it.id == id }
+        if (index < 0) {
+          // Deleted while the file was being written.
+          file.delete()
+          throw CodedException("segment_not_found", "No buffered segment with id $id.", null)
+        }
+        val updated = bufferedSegments[index].copy(
+          compressedUri = file.toURI().toString(),
+          compressedSizeBytes = file.length(),
+        )
+        bufferedSegments[index] = updated
+        persistSegmentIndex()
+        updated.toMap()
+      }
+    }
+
+    AsyncFunction("getRecentAudio") { ms: Double? ->
+      synchronized(frameLock) {
+        val frames = recentPreRollFrames(ms)
+        val pcm = ByteArrayOutputStream()
+        frames.forEach { pcm.write(it.pcm) }
+        mapOf(
+          "base64" to android.util.Base64.encodeToString(pcm.toByteArray(), android.util.Base64.NO_WRAP),
+          "format" to "pcm",
+          "sampleRate" to sampleRate,
+          "channels" to channels,
+          "startTimestamp" to (frames.firstOrNull()?.timestamp ?: System.currentTimeMillis()),
+          "durationMs" to pcm.size() / (2.0 * channels) / sampleRate * 1000.0,
+        )
+      }
+    }
+
+    AsyncFunction("emitRecentAudio") { ms: Double? ->
+      synchronized(frameLock) {
+        // Deliver batched frames first so the replay is directly followed by
+        // the next live frame.
+        flushFrameBatch()
+        recentPreRollFrames(ms).forEach { sendFrameEvent(it.pcm, sampleRate, it.timestamp, preRoll = true) }
+      }
+    }
+
+    AsyncFunction("exportBufferedAudio") { options: Map<String, Any?> ->
+      val from = (options["from"] as? Number)?.toDouble()
+      val to = (options["to"] as? Number)?.toDouble()
+      val format = options["format"] as? String ?: "wav"
+      if (from == null || to == null || to <= from) {
+        throw CodedException("invalid_range", "Invalid export range: $from - $to.", null)
+      }
+      if (format != "wav") {
+        throw CodedException("unsupported", "Unsupported export format: $format.", null)
+      }
+
+      // Snapshot under the lock; the files are read without holding it so
+      // the recording thread is never blocked by a long export.
+      val sources = synchronized(bufferLock) {
+        val finalized = bufferedSegments.mapNotNull { info ->
+          val path = Uri.parse(info.uri).path ?: return@mapNotNull null
+          ExportSource(File(path), info.sampleRate, info.channels, info.startTimestamp, info.sizeBytes)
+        }
+        val current = currentSegmentWriter?.let {
+          ExportSource(it.file, it.sampleRate, it.channels, it.startTimestamp, it.bytesWritten)
+        }
+        finalized + listOfNotNull(current)
+      }
+
+      exportWav(sources, from, to)
+    }
+  }
+
+  // Synchronized like stop, pause and resume, so that concurrent calls
+  // share one recorder and a stop waits for a start in progress.
+  @Synchronized
+  private fun startSession(options: Map<String, Any?>): Map<String, Any?> {
+    if (isRecording) {
+      return sessionInfo
+    }
+
+    setStatus("starting", "user")
+    try {
+      startRecording(options)
+    } catch (e: Throwable) {
+      setStatus("idle", "start_failed")
+      throw e
+    }
+    return sessionInfo
+  }
+
+  private fun startRecording(options: Map<String, Any?>) {
+    val context = appContext.reactContext
+    if (context == null) {
+      throw fatalException("init_failed", "React context is null.")
+    }
+
+    val permissionStatus = ContextCompat.checkSelfPermission(context, Manifest.permission.RECORD_AUDIO)
+    if (permissionStatus != PackageManager.PERMISSION_GRANTED) {
+      throw fatalException("permission_denied", "Microphone permission not granted.")
+    }
+
+    val requestedSampleRate = (options["sampleRate"] as? Number)?.toInt()
+    val requestedChannels = if ((options["channels"] as? Number)?.toInt() == 2) 2 else 1
+    frameDurationMs = (options["frameDurationMs"] as? Number)?.toInt() ?: 20
+    binaryFrames = options["frameFormat"] == "arraybuffer"
+    eventBatchMs = (options["eventBatchMs"] as? Number)?.toInt()?.takeIf { it > 0 } ?: 0
+    preRollMs = (options["preRollMs"] as? Number)?.toInt()?.takeIf { it > 0 } ?: 0
+    enableLevelMeter = (options["enableLevelMeter"] as? Boolean) == true
+    levelIntervalMs = (options["levelIntervalMs"] as? Number)?.toInt()?.takeIf { it > 0 } ?: 0
+    val enableBackground = (options["enableBackground"] as? Boolean) == true
+    val inputDeviceId = options["inputDeviceId"] as? String
+    val requestedSource = options["androidAudioSource"] as? String
+    autoResumeAfterInterruption = (options["autoResumeAfterInterruption"] as? Boolean) == true
+
+    bufferingEnabled = (options["enableBuffering"] as? Boolean) == true
+    bufferChunkSeconds = (options["bufferChunkSeconds"] as? Number)?.toInt()
+      ?.takeIf { it > 0 } ?: DEFAULT_BUFFER_CHUNK_SECONDS
+    maxBufferedMinutes = (options["maxBufferedMinutes"] as? Number)?.toInt()
+      ?.takeIf { it > 0 } ?: DEFAULT_MAX_BUFFERED_MINUTES
+
+    sampleRate = chooseSampleRate(requestedSampleRate)
+    val minBufferSize = AudioRecord.getMinBufferSize(
+      sampleRate,
+      AudioFormat.CHANNEL_IN_MONO,
+      AudioFormat.ENCODING_PCM_16BIT
+    )
+
+    if (minBufferSize <= 0) {
+      throw fatalException(
+        "init_failed",
+        "Failed to determine buffer size for sample rate $sampleRate.",
+        nativeCode = minBufferSize,
       )
+    }
 
-      if (minBufferSize <= 0) {
-        val message = "Failed to determine buffer size for sample rate $sampleRate."
-        sendError(message)
-        throw CodedException(message)
+    // Prefer VOICE_RECOGNITION for speech use-cases; fall back to MIC if
+    // needed. An explicit source is used as is.
+    val candidateSources = if (requestedSource != null) {
+      if (requestedSource !in AUDIO_SOURCES) {
+        throw fatalException("unsupported", "Unknown androidAudioSource: $requestedSource.")
       }
+      listOf(requestedSource)
+    } else {
+      listOf("voice_recognition", "voice_communication", "mic")
+    }
+
+    val inputManager = context.getSystemService(android.content.Context.AUDIO_SERVICE) as AudioManager
+    val preferredDevice = inputDeviceId?.let { id ->
+      inputManager.getDevices(AudioManager.GET_DEVICES_INPUTS).firstOrNull { it.id.toString() == id }
+        ?: throw fatalException("device_unavailable", "Input device $id is not connected.")
+    }
 
-      val bytesPerFrame = 2 // PCM 16‑bit mono
-      val frameSizeBytes = (sampleRate * frameDurationMs / 1000) * bytesPerFrame
-      val bufferSize = maxOf(minBufferSize, frameSizeBytes)
+    // Stereo needs a device with two microphones; fall back to mono
+    // rather than failing, like the sample rate does.
+    val candidateChannels = if (requestedChannels == 2) listOf(2, 1) else listOf(1)
 
-      // Prefer VOICE_RECOGNITION for speech use-cases; fall back to MIC if needed.
-      val candidateSources = listOf(
-        MediaRecorder.AudioSource.VOICE_RECOGNITION,
-        MediaRecorder.AudioSource.VOICE_COMMUNICATION,
-        MediaRecorder.AudioSource.MIC,
+    var createdRecord: AudioRecord? = null
+    var usedSource: String? = null
+    var usedChannels = 1
+    var lastInitError: Throwable? = null
+    channels@ for (channelCount in candidateChannels) {
+      val channelMinBufferSize = AudioRecord.getMinBufferSize(
+        sampleRate,
+        channelMask(channelCount),
+        AudioFormat.ENCODING_PCM_16BIT
       )
+      if (channelMinBufferSize <= 0) continue
+      val bytesPerFrame = 2 * channelCount // PCM 16‑bit interleaved
+      val bufferSize = maxOf(channelMinBufferSize, (sampleRate * frameDurationMs / 1000) * bytesPerFrame)
 
-      var createdRecord: AudioRecord? = null
       for (source in candidateSources) {
         try {
           val record = AudioRecord(
-            source,
+            AUDIO_SOURCES.getValue(source),
             sampleRate,
-            AudioFormat.CHANNEL_IN_MONO,
+            channelMask(channelCount),
             AudioFormat.ENCODING_PCM_16BIT,
             bufferSize,
           )
           if (record.state == AudioRecord.STATE_INITIALIZED) {
             createdRecord = record
-            break
+            usedSource = source
+            usedChannels = channelCount
+            break@channels
           } else {
             record.release()
           }
-        } catch (_: Throwable) {
+        } catch (e: Throwable) {
           // Try next source
+          lastInitError = e
         }
       }
-
-      audioRecord = createdRecord
-
-      if (audioRecord?.state != AudioRecord.STATE_INITIALIZED) {
-        val message = "AudioRecord failed to initialize."
-        sendError(message)
-        audioRecord?.release()
-        audioRecord = null
-        throw CodedException(message)
-      }
-
-      if (enableBackground) {
-        startForegroundService(context)
-      }
-
-      shouldRecord = true
-      isRecording = true
-      audioRecord?.startRecording()
-
-      recordingThread = Thread {
-        val buffer = ByteArray(frameSizeBytes)
-        while (shouldRecord) {
-          val read = audioRecord?.read(buffer, 0, buffer.size) ?: break
-          when {
-            read > 0 -> {
-              val frame = buffer.copyOf(read)
-              emitFrame(frame, sampleRate)
-            }
-            read == 0 -> {
-              sendError("AudioRecord read returned 0 bytes")
-            }
-            else -> {
-              sendError("AudioRecord read error code: $read")
-              break
-            }
-          }
-        }
-      }.apply { start() }
     }
 
-    AsyncFunction("stop") {
-      stopRecordingInternal()
-    }
+    audioRecord = createdRecord
+    channels = usedChannels
+    val frameSizeBytes = (sampleRate * frameDurationMs / 1000) * 2 * channels
 
-    AsyncFunction("getStatus") {
-      if (isRecording) "recording" else "idle"
+    if (audioRecord?.state != AudioRecord.STATE_INITIALIZED) {
+      audioRecord?.release()
+      audioRecord = null
+      throw fatalException("init_failed", "AudioRecord failed to initialize.", cause = lastInitError)
     }
 
-    AsyncFunction("setBufferingEnabled") { enabled: Boolean ->
-      synchronized(bufferLock) {
-        bufferingEnabled = enabled
-        if (!enabled) {
-          finalizeCurrentSegmentIfNeeded()
-        }
-      }
+    if (enableBackground) {
+      startForegroundService(context)
     }
 
-    AsyncFunction("getBufferedSegments") {
-      synchronized(bufferLock) {
-        bufferedSegments.map { it.toMap() }
-      }
-    }
-
-    AsyncFunction("clearBufferedSegments") {
-      synchronized(bufferLock) {
-        currentSegmentWriter?.discard()
-        currentSegmentWriter = null
-        bufferedSegments.forEach { info ->
-          try {
-            val file = File(Uri.parse(info.uri).path ?: return@forEach)
-            if (file.exists()) {
-              file.delete()
+    resetFrameHistory()
+    levelMeter = if (levelIntervalMs > 0) LevelMeter(channels) else null
+    shouldRecord = true
+    isRecording = true
+    isPaused = false
+    isInterrupted = false
+    preferredDevice?.let { audioRecord?.setPreferredDevice(it) }
+    audioRecord?.startRecording()
+    registerAudioCallbacks(context)
+    sessionInfo = mapOf(
+      "sampleRate" to sampleRate,
+      "channels" to channels,
+      "inputDevice" to (audioRecord?.routedDevice ?: preferredDevice)?.toRouteMap(),
+      "androidAudioSource" to usedSource,
+    )
+    setStatus("recording", "user")
+
+    recordingThread = Thread {
+      val buffer = ByteArray(frameSizeBytes)
+      while (shouldRecord) {
+        val read = audioRecord?.read(buffer, 0, buffer.size) ?: break
+        when {
+          read > 0 -> {
+            if (!isPaused && !isInterrupted) {
+              val frame = buffer.copyOf(read)
+              emitFrame(frame, sampleRate)
             }
-          } catch (_: Throwable) {
-            // ignore
+          }
+          read == 0 -> {
+            sendError("read_error", "AudioRecord read returned 0 bytes", fatal = false, nativeCode = 0)
+          }
+          else -> {
+            // `stop()` released the recorder while this read was blocked.
+            if (!shouldRecord) break
+            sendError("read_error", "AudioRecord read error code: $read", fatal = true, nativeCode = read)
+            // Reads also fail once the user revokes the permission from
+            // the system settings.
+            val revoked = ContextCompat.checkSelfPermission(context, Manifest.permission.RECORD_AUDIO) !=
+              PackageManager.PERMISSION_GRANTED
+            stopRecordingInternal(if (revoked) "permission_revoked" else "read_error")
+            break
           }
         }
-        bufferedSegments.clear()
       }
-    }
+      flushFrameBatch()
+    }.apply { start() }
   }
 
   private fun chooseSampleRate(requested: Int?): Int {
@@ -341,7 +812,7 @@ class ExpoStreamAudioModule : Module() {
     if (requested != null) {
       candidates.add(requested)
     }
-    candidates.addAll(listOf(16000, 44100, 48000))
+    candidates.addAll(listOf(16000, 44100, 48000, 22050, 24000, 8000))
 
     for (rate in candidates.distinct()) {
       val result = AudioRecord.getMinBufferSize(
@@ -358,29 +829,144 @@ class ExpoStreamAudioModule : Module() {
   }
 
   private fun emitFrame(frame: ByteArray, sampleRate: Int) {
-    val base64 = android.util.Base64.encodeToString(frame, android.util.Base64.NO_WRAP)
-    val level = calculateRms(frame)
     val timestamp = System.currentTimeMillis()
-    val event = mapOf(
-      "pcmBase64" to base64,
+    if (bufferingEnabled) {
+      appendToBuffer(frame, sampleRate, timestamp)
+    }
+
+    synchronized(frameLock) {
+      appendToPreRoll(frame, timestamp)
+      levelMeter?.let { meter ->
+        meter.add(frame, timestamp)
+        if (meter.durationMs(sampleRate) >= levelIntervalMs) {
+          sendEvent("onLevel", meter.event(sampleRate))
+          meter.reset()
+        }
+      }
+      if (eventBatchMs <= 0) {
+        sendFrameEvent(frame, sampleRate, timestamp)
+        return
+      }
+      val batch = pendingBatch
+        ?: FrameBatch(timestamp, if (enableLevelMeter) LevelMeter(channels) else null).also { pendingBatch = it }
+      batch.pcm.write(frame)
+      batch.meter?.let { meter ->
+        meter.add(frame)
+        batch.levels.add(pcm16Rms(frame))
+      }
+      val batchMs = batch.pcm.size() / (2.0 * channels) / sampleRate * 1000.0
+      // A frame read just before `pause` must not wait for the next resume.
+      if (batchMs >= eventBatchMs || isPaused || isInterrupted) {
+        flushFrameBatch()
+      }
+    }
+  }
+
+  // Called from the recording thread and, on pause, stop and interruptions,
+  // from the JS thread.
+  private fun flushFrameBatch() {
+    synchronized(frameLock) {
+      val batch = pendingBatch ?: return
+      pendingBatch = null
+      sendFrameEvent(
+        batch.pcm.toByteArray(),
+        sampleRate,
+        batch.timestamp,
+        batch.levels.takeIf { batch.meter != null },
+        measured = batch.meter,
+      )
+    }
+  }
+
+  private fun sendFrameEvent(
+    frame: ByteArray,
+    sampleRate: Int,
+    timestamp: Long,
+    subframeLevels: List<Double>? = null,
+    preRoll: Boolean = false,
+    // Already holds `frame`, e.g. a batch measured frame by frame.
+    measured: LevelMeter? = null,
+  ) {
+    val meter = measured ?: if (enableLevelMeter) LevelMeter(channels).apply { add(frame) } else null
+    val audio = if (binaryFrames) {
+      mapOf("pcmBase64" to "", "data" to frame)
+    } else {
+      mapOf("pcmBase64" to android.util.Base64.encodeToString(frame, android.util.Base64.NO_WRAP))
+    }
+    val event = audio + mapOf(
+      "encoding" to "pcm16",
       "sampleRate" to sampleRate,
+      "channels" to channels,
       "timestamp" to timestamp,
-      "level" to level
+      "level" to meter?.level(),
+      "channelLevels" to meter?.channelLevels(),
+      "subframeLevels" to subframeLevels,
+      "preRoll" to preRoll,
     )
     sendEvent("onFrame", event)
+  }
 
-    if (bufferingEnabled) {
-      appendToBuffer(frame, sampleRate, timestamp)
+  private fun appendToPreRoll(frame: ByteArray, timestamp: Long) {
+    if (preRollMs <= 0) return
+    preRollFrames.addLast(PreRollFrame(frame, timestamp))
+    preRollBytes += frame.size
+    // Drop whole frames, keeping at least `preRollMs`.
+    val capacityBytes = preRollMs.toLong() * sampleRate / 1000 * 2 * channels
+    while (preRollFrames.size > 1 && preRollBytes - preRollFrames.first().pcm.size >= capacityBytes) {
+      preRollBytes -= preRollFrames.removeFirst().pcm.size
     }
   }
 
-  private fun stopRecordingInternal() {
+  // Drops audio from before a gap: the pre-roll ring and the partial
+  // `onLevel` interval.
+  private fun resetFrameHistory() {
+    synchronized(frameLock) {
+      preRollFrames.clear()
+      preRollBytes = 0
+      levelMeter?.reset()
+    }
+  }
+
+  // The frames covering the last `ms` milliseconds (all of them when
+  // null), the first one cut at a sample boundary. Call while holding `frameLock`.
+  private fun recentPreRollFrames(ms: Double?): List<PreRollFrame> {
+    val bytesPerFrame = 2 * channels
+    var remaining = if (ms == null) {
+      Long.MAX_VALUE
+    } else {
+      Math.round(maxOf(0.0, ms) * sampleRate / 1000) * bytesPerFrame
+    }
+    val result = ArrayDeque<PreRollFrame>()
+    for (frame in preRollFrames.reversed()) {
+      if (remaining <= 0) break
+      if (frame.pcm.size <= remaining) {
+        result.addFirst(frame)
+        remaining -= frame.pcm.size
+      } else {
+        val skipped = frame.pcm.size - remaining.toInt()
+        val skippedMs = skipped / bytesPerFrame * 1000L / sampleRate
+        result.addFirst(PreRollFrame(frame.pcm.copyOfRange(skipped, frame.pcm.size), frame.timestamp + skippedMs))
+        remaining = 0
+      }
+    }
+    return result
+  }
+
+  // Called from the JS thread and from the recording thread when a read
+  // fails, hence synchronized.
+  @Synchronized
+  private fun stopRecordingInternal(reason: String = "user") {
     if (!isRecording) return
+    flushFrameBatch()
+    setStatus("stopping", reason)
     shouldRecord = false
+    isPaused = false
+    isInterrupted = false
+    unregisterAudioCallbacks()
     try {
       audioRecord?.stop()
     } catch (e: Throwable) {
-      sendError("Failed to stop AudioRecord: ${e.message ?: "unknown error"}")
+      sendError("stop_failed", "Failed to stop AudioRecord: ${e.message ?: "unknown error"}", fatal = false, cause = e)
     }
     audioRecord?.release()
     audioRecord = null
@@ -396,27 +982,176 @@ class ExpoStreamAudioModule : Module() {
       val intent = Intent(context, StreamAudioService::class.java)
       context.stopService(intent)
     }
+    setStatus("idle", reason)
+  }
+
+  @Synchronized
+  private fun pauseRecording() {
+    if (!isRecording || isPaused) return
+    isPaused = true
+    flushFrameBatch()
+    // Close the segment so the one started after `resume` gets its own
+    // start timestamp and the gap isn't hidden inside a single file.
+    synchronized(bufferLock) {
+      finalizeCurrentSegmentIfNeeded()
+    }
+    setStatus("paused", "user")
   }
 
-  private fun sendError(message: String) {
-    sendEvent("onError", mapOf("message" to message))
+  @Synchronized
+  private fun resumeRecording() {
+    if (!isRecording || (!isPaused && !isInterrupted)) return
+    resetFrameHistory()
+    isPaused = false
+    isInterrupted = false
+    setStatus("recording", "user")
   }
 
-  private fun calculateRms(bytes: ByteArray): Double {
-    if (bytes.size < 2) return 0.0
-    var sum = 0.0
-    var count = 0
-    var i = 0
-    while (i + 1 < bytes.size) {
-      val sample: Short = (((bytes[i + 1].toInt() shl 8) or (bytes[i].toInt() and 0xFF))).toShort()
-      val normalized = sample.toDouble() / Short.MAX_VALUE.toDouble()
-      sum += normalized * normalized
-      count++
-      i += 2
+  private fun registerAudioCallbacks(context: android.content.Context) {
+    val record = audioRecord ?: return
+    val manager = context.getSystemService(android.content.Context.AUDIO_SERVICE) as? AudioManager ?: return
+    audioManager = manager
+    knownInputIds = manager.getDevices(AudioManager.GET_DEVICES_INPUTS).map { it.id }.toSet()
+    currentInput = record.routedDevice
+
+    // Before Android 10 another app cannot take the microphone while we
+    // hold it, so there is nothing to report.
+    if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.Q) {
+      val sessionId = record.audioSessionId
+      val callback = object : AudioManager.AudioRecordingCallback() {
+        override fun onRecordingConfigChanged(configs: MutableList<AudioRecordingConfiguration>) {
+          val config = configs.firstOrNull { it.clientAudioSessionId == sessionId } ?: return
+          handleSilencedChanged(config.isClientSilenced)
+        }
+      }
+      manager.registerAudioRecordingCallback(callback, callbackHandler)
+      recordingCallback = callback
+    }
+
+    val listener = AudioRouting.OnRoutingChangedListener { routing ->
+      handleRoutingChanged(routing.routedDevice)
+    }
+    record.addOnRoutingChangedListener(listener, callbackHandler)
+    routingListener = listener
+  }
+
+  private fun unregisterAudioCallbacks() {
+    routingListener?.let { audioRecord?.removeOnRoutingChangedListener(it) }
+    routingListener = null
+    recordingCallback?.let { audioManager?.unregisterAudioRecordingCallback(it) }
+    recordingCallback = null
+    audioManager = null
+    currentInput = null
+  }
+
+  @Synchronized
+  private fun handleSilencedChanged(silenced: Boolean) {
+    if (!isRecording) return
+    if (silenced && !isInterrupted) {
+      isInterrupted = true
+      flushFrameBatch()
+      // Close the segment so the gap shows up between segments.
+      synchronized(bufferLock) {
+        finalizeCurrentSegmentIfNeeded()
+      }
+      sendInterruption("began", shouldResume = false, resumed = false)
+      setStatus("interrupted", "interruption")
+    } else if (!silenced && isInterrupted) {
+      val resumed = autoResumeAfterInterruption
+      if (resumed) {
+        resetFrameHistory()
+        isInterrupted = false
+        setStatus(if (isPaused) "paused" else "recording", "interruption")
+      }
+      sendInterruption("ended", shouldResume = true, resumed = resumed)
+    }
+  }
+
+  private fun sendInterruption(type: String, shouldResume: Boolean, resumed: Boolean) {
+    sendEvent(
+      "onInterruption",
+      mapOf(
+        "type" to type,
+        "shouldResume" to shouldResume,
+        "resumed" to resumed,
+        "timestamp" to System.currentTimeMillis(),
+      )
+    )
+  }
+
+  @Synchronized
+  private fun handleRoutingChanged(device: AudioDeviceInfo?) {
+    val manager = audioManager ?: return
+    val previous = currentInput
+    if (previous?.id == device?.id) return
+
+    val inputIds = manager.getDevices(AudioManager.GET_DEVICES_INPUTS).map { it.id }.toSet()
+    val reason = when {
+      previous != null && previous.id !in inputIds -> "device_disconnected"
+      device != null && device.id !in knownInputIds -> "device_connected"
+      else -> "unknown"
     }
-    if (count == 0) return 0.0
-    val mean = sum / count.toDouble()
-    return kotlin.math.sqrt(mean)
+    knownInputIds = inputIds
+    currentInput = device
+
+    sendEvent(
+      "onRouteChange",
+      mapOf(
+        "reason" to reason,
+        "previousInput" to previous?.toRouteMap(),
+        "currentInput" to device?.toRouteMap(),
+        "timestamp" to System.currentTimeMillis(),
+      )
+    )
+  }
+
+  @Synchronized
+  private fun setStatus(next: String, reason: String) {
+    if (status == next) return
+    val previous = status
+    status = next
+    sendEvent(
+      "onStatusChange",
+      mapOf(
+        "status" to next,
+        "previousStatus" to previous,
+        "reason" to reason,
+        "timestamp" to System.currentTimeMillis(),
+      )
+    )
+  }
+
+  private fun sendError(
+    code: String,
+    message: String,
+    fatal: Boolean,
+    nativeCode: Int? = null,
+    cause: Throwable? = null,
+  ) {
+    val event = mutableMapOf<String, Any>(
+      "code" to code,
+      "message" to message,
+      "fatal" to fatal,
+      "platform" to "android",
+    )
+    nativeCode?.let { event["nativeCode"] = it }
+    cause?.let {
+      event["nativeDomain"] = it.javaClass.name
+      event["nativeMessage"] = it.message ?: it.toString()
+    }
+    sendEvent("onError", event)
+  }
+
+  // Emits a fatal `onError` event and returns the matching exception so
+  // the `start` promise rejects with the same code.
+  private fun fatalException(
+    code: String,
+    message: String,
+    nativeCode: Int? = null,
+    cause: Throwable? = null,
+  ): CodedException {
+    sendError(code, message, fatal = true, nativeCode = nativeCode, cause = cause)
+    return CodedException(code, message, cause)
   }
 
   private fun startForegroundService(context: android.content.Context) {
@@ -424,7 +1159,12 @@ class ExpoStreamAudioModule : Module() {
       val intent = Intent(context, StreamAudioService::class.java)
       androidx.core.content.ContextCompat.startForegroundService(context, intent)
     } catch (e: Throwable) {
-      sendError("Failed to start foreground service: ${e.message ?: "unknown error"}")
+      sendError(
+        "foreground_service_failed",
+        "Failed to start foreground service: ${e.message ?: "unknown error"}",
+        fatal = false,
+        cause = e,
+      )
     }
   }
 
@@ -438,19 +1178,35 @@ class ExpoStreamAudioModule : Module() {
 
   private fun appendToBuffer(frame: ByteArray, sampleRate: Int, timestamp: Long) {
     synchronized(bufferLock) {
-      if (!bufferingEnabled) return
+      // Re-checked under the lock so a frame read just before `pause` can't
+      // open a segment that would then span the pause.
+      if (!bufferingEnabled || isPaused || isInterrupted) return
       if (currentSegmentWriter == null) {
-        currentSegmentWriter = BufferedSegmentWriter(
-          directory = getBufferDirectory(),
-          sampleRate = sampleRate,
-          startTimestamp = timestamp,
-        )
+        try {
+          currentSegmentWriter = BufferedSegmentWriter(
+            directory = getBufferDirectory(),
+            sampleRate = sampleRate,
+            channels = channels,
+            startTimestamp = timestamp,
+          )
+        } catch (e: Throwable) {
+          sendError("buffer_write_failed", "Failed to create buffered segment: ${e.message ?: "unknown error"}", fatal = false, cause = e)
+          return
+        }
       }
 
       val writer = currentSegmentWriter ?: return
-      writer.append(frame, frame.size)
+      try {
+        writer.append(frame, frame.size)
+      } catch (e: Throwable) {
+        // Drop the broken segment; the next frame starts a fresh one.
+        writer.discard()
+        currentSegmentWriter = null
+        sendError("buffer_write_failed", "Failed to write buffered audio: ${e.message ?: "unknown error"}", fatal = false, cause = e)
+        return
+      }
 
-      val bytesPerSecond = sampleRate * 2.0
+      val bytesPerSecond = sampleRate * 2.0 * writer.channels
       val durationSeconds = (writer.bytesWritten / bytesPerSecond)
       if (durationSeconds >= bufferChunkSeconds.toDouble()) {
         finalizeCurrentSegmentIfNeeded()
@@ -460,27 +1216,226 @@ class ExpoStreamAudioModule : Module() {
 
   private fun finalizeCurrentSegmentIfNeeded() {
     val writer = currentSegmentWriter ?: return
-    val info = writer.finalizeSegment()
     currentSegmentWriter = null
+    val info = try {
+      writer.finalizeSegment()
+    } catch (e: Throwable) {
+      writer.discard()
+      sendError("buffer_write_failed", "Failed to finalize buffered segment: ${e.message ?: "unknown error"}", fatal = false, cause = e)
+      null
+    }
     if (info != null) {
       bufferedSegments.add(info)
       enforceMaxBufferedMinutes()
+      persistSegmentIndex()
     }
   }
 
-  private fun enforceMaxBufferedMinutes() {
-    val maxMs = maxBufferedMinutes * 60_000L
-    var totalMs = bufferedSegments.fold(0L) { acc, item -> acc + item.durationMs }
-    while (totalMs > maxMs && bufferedSegments.isNotEmpty()) {
-      val oldest = bufferedSegments.removeAt(0)
+  private fun loadSegmentIndex(): List<BufferedSegmentInfo> {
+    val directory = getBufferDirectory()
+    val indexFile = File(directory, SEGMENT_INDEX_FILE)
+    if (!indexFile.exists()) return emptyList()
+    return try {
+      val segments = JSONObject(indexFile.readText()).getJSONArray("segments")
+      (0 until segments.length())
+        .map { BufferedSegmentInfo.fromJson(segments.getJSONObject(it), directory) }
+        .filter { File(Uri.parse(it.uri).path ?: "").exists() }
+        .map { info ->
+          val compressedExists = info.compressedUri?.let { File(Uri.parse(it).path ?: "").exists() } ?: true
+          if (compressedExists) info else info.copy(compressedUri = null, compressedSizeBytes = 0)
+        }
+    } catch (_: Throwable) {
+      // A corrupt index is rebuilt by `recoverBufferedSegments`.
+      emptyList()
+    }
+  }
+
+  // Must be called with `bufferLock` held. Written to a temporary file
+  // first so a crash mid-write never leaves a truncated index behind.
+  private fun persistSegmentIndex() {
+    try {
+      val directory = getBufferDirectory()
+      directory.mkdirs()
+      val segments = JSONArray()
+      bufferedSegments.forEach { segments.put(it.toJson()) }
+      val json = JSONObject().put("version", 1).put("segments", segments)
+      val tempFile = File(directory, "$SEGMENT_INDEX_FILE.tmp")
+      tempFile.writeText(json.toString())
+      if (!tempFile.renameTo(File(directory, SEGMENT_INDEX_FILE))) {
+        tempFile.delete()
+      }
+    } catch (e: Throwable) {
+      sendError("buffer_write_failed", "Failed to persist buffered segment index: ${e.message ?: "unknown error"}", fatal = false, cause = e)
+    }
+  }
+
+  // Rebuilds metadata for a segment left behind by a killed process and
+  // patches its header, whose data size is still 0. Returns null (and
+  // deletes the file) when it holds no audio.
+  private fun repairSegmentFile(file: File): BufferedSegmentInfo? {
+    // segment_<startTimestamp>_<id>.wav
+    val parts = file.name.removeSuffix(".wav").split('_', limit = 3)
+    val startTimestamp = parts.getOrNull(1)?.toLongOrNull() ?: return null
+    val id = parts.getOrNull(2) ?: return null
+
+    RandomAccessFile(file, "rw").use { raf ->
+      if (raf.length() < WAV_HEADER_BYTES) {
+        raf.close()
+        file.delete()
+        return null
+      }
+      val header = ByteArray(WAV_HEADER_BYTES.toInt())
+      raf.readFully(header)
+      val sampleRate = (header[24].toInt() and 0xFF) or
+        ((header[25].toInt() and 0xFF) shl 8) or
+        ((header[26].toInt() and 0xFF) shl 16) or
+        ((header[27].toInt() and 0xFF) shl 24)
+      if (sampleRate <= 0) return null
+      val channels = ((header[22].toInt() and 0xFF) or ((header[23].toInt() and 0xFF) shl 8)).coerceAtLeast(1)
+      val frameBytes = 2L * channels
+
+      // Drop a trailing partial sample frame.
+      val dataBytes = (raf.length() - WAV_HEADER_BYTES) / frameBytes * frameBytes
+      if (dataBytes <= 0) {
+        raf.close()
+        file.delete()
+        return null
+      }
+      raf.setLength(WAV_HEADER_BYTES + dataBytes)
+      raf.seek(0)
+      raf.write(buildWavHeader(dataBytes.toInt(), sampleRate, channels))
+
+      return BufferedSegmentInfo(
+        id = id,
+        uri = file.toURI().toString(),
+        sampleRate = sampleRate,
+        channels = channels,
+        startTimestamp = startTimestamp,
+        durationMs = ((dataBytes / (sampleRate * frameBytes.toDouble())) * 1000.0).toLong(),
+        sizeBytes = dataBytes,
+      )
+    }
+  }
+
+  private fun getExportDirectory(): File {
+    val context = appContext.reactContext
+    val baseDir = context?.cacheDir ?: File("/data/local/tmp")
+    return File(baseDir, "expo_stream_audio_exports")
+  }
+
+  // Lays the overlapping sources out on one timeline cut to [from, to):
+  // gaps become silence and overlapping audio is dropped from the later
+  // source.
+  private fun exportWav(sources: List<ExportSource>, from: Double, to: Double): Map<String, Any> {
+    val overlapping = sources
+      .filter { it.dataBytes > 0 && it.startTimestamp < to && it.endTimestamp > from }
+      .sortedBy { it.startTimestamp }
+    if (overlapping.isEmpty()) {
+      throw CodedException("no_buffered_audio", "No buffered audio between ${from.toLong()} and ${to.toLong()}.", null)
+    }
+    val rate = overlapping.first().sampleRate
+    if (overlapping.any { it.sampleRate != rate }) {
+      throw CodedException("export_failed", "Buffered audio in this range was recorded at different sample rates.", null)
+    }
+    val channels = overlapping.first().channels
+    if (overlapping.any { it.channels != channels }) {
+      throw CodedException("export_failed", "Buffered audio in this range was recorded with different channel counts.", null)
+    }
+    // Positions below count sample frames, i.e. one sample per channel.
+    val frameBytes = 2L * channels
+
+    val start = maxOf(from, overlapping.first().startTimestamp.toDouble())
+    val maxSamples = Math.round((to - start) * rate / 1000.0)
+    val toleranceSamples = EXPORT_GAP_TOLERANCE_MS * rate / 1000.0
+
+    val directory = getExportDirectory()
+    val file = File(directory, "export_${start.toLong()}_${UUID.randomUUID()}.wav")
+    var written = 0L
+
+    try {
+      directory.mkdirs()
+      RandomAccessFile(file, "rw").use { output ->
+        output.setLength(0)
+        output.write(buildWavHeader(0, rate, channels))
+        val buffer = ByteArray(64 * 1024)
+
+        for (source in overlapping) {
+          var position = Math.round((source.startTimestamp - start) * rate / 1000.0)
+          if (written > 0 && kotlin.math.abs(position - written) <= toleranceSamples) {
+            position = written
+          }
+          if (position > written) {
+            val silenceBytes = (minOf(position, maxSamples) - written) * frameBytes
+            java.util.Arrays.fill(buffer, 0)
+            var remaining = silenceBytes
+            while (remaining > 0) {
+              val count = minOf(buffer.size.toLong(), remaining).toInt()
+              output.write(buffer, 0, count)
+              remaining -= count
+            }
+            written += silenceBytes / frameBytes
+          }
+
+          val first = maxOf(0L, written - position)
+          val last = minOf(source.dataBytes / frameBytes, maxSamples - position)
+          if (last <= first) continue
+
+          RandomAccessFile(source.file, "r").use { input ->
+            input.seek(WAV_HEADER_BYTES + first * frameBytes)
+            var remaining = (last - first) * frameBytes
+            while (remaining > 0) {
+              val read = input.read(buffer, 0, minOf(buffer.size.toLong(), remaining).toInt())
+              if (read <= 0) break
+              output.write(buffer, 0, read)
+              remaining -= read
+            }
+            val copied = (last - first) * frameBytes - remaining
+            val partial = copied % frameBytes
+            if (partial > 0) {
+              output.write(ByteArray((frameBytes - partial).toInt()))
+            }
+            written += (copied + frameBytes - 1) / frameBytes
+          }
+        }
+
+        output.seek(0)
+        output.write(buildWavHeader((written * frameBytes).toInt(), rate, channels))
+      }
+    } catch (e: Throwable) {
+      file.delete()
+      throw CodedException("export_failed", "Failed to export buffered audio: ${e.message ?: "unknown error"}", e)
+    }
+
+    val endTimestamp = start + written * 1000.0 / rate
+    return mapOf(
+      "uri" to file.toURI().toString(),
+      "format" to "wav",
+      "sampleRate" to rate,
+      "channels" to channels,
+      "startTimestamp" to start,
+      "endTimestamp" to endTimestamp,
+      "durationMs" to endTimestamp - start,
+      "sizeBytes" to file.length(),
+    )
+  }
+
+  private fun deleteSegmentFiles(info: BufferedSegmentInfo) {
+    info.files().forEach { file ->
       try {
-        val file = File(Uri.parse(oldest.uri).path ?: return)
         if (file.exists()) {
           file.delete()
         }
       } catch (_: Throwable) {
         // ignore
       }
+    }
+  }
+
+  private fun enforceMaxBufferedMinutes() {
+    val maxMs = maxBufferedMinutes * 60_000L
+    var totalMs = bufferedSegments.fold(0L) { acc, item -> acc + item.durationMs }
+    while (totalMs > maxMs && bufferedSegments.isNotEmpty()) {
+      deleteSegmentFiles(bufferedSegments.removeAt(0))
       totalMs = bufferedSegments.fold(0L) { acc, item -> acc + item.durationMs }
     }
   }
@@ -11,17 +11,12 @@ import {
 	type ScribeQuotaExceededErrorMessage,
 } from "@elevenlabs/client";
 import {
+	AudioLevelView,
 	type AudioFrameEvent,
-	addErrorListener,
-	addFrameListener,
-	type BufferedAudioSegment,
 	clearBufferedSegments,
-	getBufferedSegments,
-	getStatus,
-	requestPermission,
+	exportBufferedAudio,
 	setBufferingEnabled,
-	start,
-	stop,
+	useStreamAudio,
 } from "expo-stream-audio";
 import { useEffect, useRef, useState } from "react";
 import {
@@ -29,8 +24,6 @@ import {
 	Animated,
 	AppState,
 	Dimensions,
-	PermissionsAndroid,
-	Platform,
 	Pressable,
 	ScrollView,
 	StyleSheet,
@@ -71,12 +64,10 @@ const { height: WINDOW_HEIGHT } = Dimensions.get("window");
 const TRANSCRIPT_HEIGHT = Math.round(WINDOW_HEIGHT * 0.5);
 
 export default function App() {
-	const [streamStatusLabel, setStreamStatusLabel] = useState("idle");
 	const [lastFrame, setLastFrame] = useState<{
 		sampleRate: number;
 		length: number;
 		timestamp: number;
-		level?: number;
 	} | null>(null);
 	const [logMessage, setLogMessage] = useState<string | null>(null);
 	const [partialTranscript, setPartialTranscript] = useState<string>("");
@@ -95,12 +86,11 @@ export default function App() {
 	const stoppedManuallyRef = useRef(false);
 	const shouldReconnectRef = useRef(false);
 	const isProcessingBufferedRef = useRef(false);
+	// Wall-clock time at which realtime transcription dropped out.
+	const outageStartRef = useRef<number | null>(null);
 	const appStateRef = useRef(AppState.currentState);
 	const transcriptScrollRef = useRef<ScrollView | null>(null);
 
-	const frameSubRef = useRef<{ remove: () => void } | null>(null);
-	const errorSubRef = useRef<{ remove: () => void } | null>(null);
-
 	// biome-ignore lint/correctness/useExhaustiveDependencies: reconnectAndProcessBuffered uses refs only and is safe here.
 	useEffect(() => {
 		const appStateSubscription = AppState.addEventListener(
@@ -120,14 +110,8 @@ export default function App() {
 			},
 		);
 
-		getStatus()
-			.then((status) => setStreamStatusLabel(status))
-			.catch(() => setStreamStatusLabel("idle"));
-
 		return () => {
 			appStateSubscription.remove();
-			frameSubRef.current?.remove();
-			errorSubRef.current?.remove();
 			const currentConnection = scribeConnectionRef.current;
 			if (currentConnection) {
 				try {
@@ -138,7 +122,6 @@ export default function App() {
 				scribeConnectionRef.current = null;
 				scribeReadyRef.current = false;
 			}
-			stop().catch(() => {});
 		};
 	}, []);
 
@@ -306,6 +289,7 @@ export default function App() {
 			} else {
 				setScribeStatus("disconnected");
 				shouldReconnectRef.current = true;
+				outageStartRef.current ??= Date.now();
 				// Enable native buffering for the period where realtime is unavailable.
 				setBufferingEnabled(true).catch((error) => {
 					setLogMessage(
@@ -355,7 +339,6 @@ export default function App() {
 			sampleRate: event.sampleRate,
 			length: event.pcmBase64.length,
 			timestamp: event.timestamp,
-			level: event.level,
 		});
 
 		const connection = scribeConnectionRef.current;
@@ -371,6 +354,34 @@ export default function App() {
 		}
 	};
 
+	const audio = useStreamAudio({
+		sampleRate: 16000,
+		frameDurationMs: 20,
+		enableLevelMeter: true,
+		enableBackground: true,
+		// Buffering will be enabled on-demand when Scribe disconnects unexpectedly.
+		enableBuffering: false,
+		bufferChunkSeconds: 300,
+		maxBufferedMinutes: 60,
+		onFrame: handleFrame,
+	});
+	const streamStatus = audio.status;
+	// Driven by `onStatusChange`, so it also reflects recordings that ended
+	// without Stop being pressed, e.g. after a read failure.
+	const streamEndedUnexpectedly =
+		streamStatus === "idle" &&
+		audio.statusReason !== null &&
+		audio.statusReason !== "user";
+	const streamStatusLabel = streamEndedUnexpectedly
+		? `idle (${audio.statusReason})`
+		: streamStatus;
+
+	useEffect(() => {
+		if (audio.error) {
+			setLogMessage(audio.error.message);
+		}
+	}, [audio.error]);
+
 	const handleStart = async () => {
 		if (isStarting) {
 			return;
@@ -384,68 +395,29 @@ export default function App() {
 		}
 
 		stoppedManuallyRef.current = false;
+		outageStartRef.current = null;
 		shouldReconnectRef.current = false;
 		setLogMessage(null);
 
 		setIsStarting(true);
 
 		try {
-			let permission = await requestPermission();
-
-			if (Platform.OS === "android" && permission !== "granted") {
-				try {
-					const result = await PermissionsAndroid.request(
-						PermissionsAndroid.PERMISSIONS.RECORD_AUDIO,
-					);
-					if (result === PermissionsAndroid.RESULTS.GRANTED) {
-						permission = "granted";
-					} else {
-						setLogMessage("Android microphone permission denied.");
-						return;
-					}
-				} catch (error) {
-					setLogMessage(
-						`Failed to request Android mic permission: ${(error as Error)?.message ?? "Unknown error"}`,
-					);
-					return;
-				}
-			}
-
-			if (Platform.OS === "ios" && permission === "undetermined") {
-				permission = "granted";
-			}
-
-			if (permission !== "granted") {
-				setLogMessage(`Microphone permission not granted: ${permission}`);
-				return;
-			}
-
 			// Reset Scribe state
 			setPartialTranscript("");
 			setCommittedTranscripts([]);
 
-			frameSubRef.current?.remove();
-			errorSubRef.current?.remove();
-
-			frameSubRef.current = addFrameListener(handleFrame);
-			errorSubRef.current = addErrorListener((event) => {
-				setLogMessage(event.message);
-			});
-
 			await createScribeConnection();
 
-			await start({
-				sampleRate: 16000,
-				frameDurationMs: 20,
-				enableLevelMeter: true,
-				enableBackground: true,
-				// Buffering will be enabled on-demand when Scribe disconnects unexpectedly.
-				enableBuffering: false,
-				bufferChunkSeconds: 300,
-				maxBufferedMinutes: 60,
-			});
+			// Permission, listeners and the native session are owned by the hook;
+			// failures are reported through `audio.error`.
+			const started = await audio.start();
+			if (!started) {
+				scribeConnectionRef.current?.close();
+				scribeConnectionRef.current = null;
+				scribeReadyRef.current = false;
+				return;
+			}
 
-			setStreamStatusLabel("recording");
 			setScribeStatus("connected");
 			setActiveTab("transcript");
 		} catch (error) {
@@ -462,9 +434,6 @@ export default function App() {
 		shouldReconnectRef.current = false;
 		isProcessingBufferedRef.current = false;
 
-		frameSubRef.current?.remove();
-		errorSubRef.current?.remove();
-
 		const currentConnection = scribeConnectionRef.current;
 		if (currentConnection) {
 			try {
@@ -484,20 +453,19 @@ export default function App() {
 		}
 
 		try {
-			await stop();
+			await audio.stop();
 		} catch (error) {
 			setLogMessage(
 				`Failed to stop stream: ${(error as Error)?.message ?? "Unknown error"}`,
 			);
 		}
 
-		const status = await getStatus().catch(() => "idle");
-		setStreamStatusLabel(status);
 		setScribeStatus("disconnected");
 	};
 
-	const transcribeBufferedSegment = async (
-		bufferSegment: BufferedAudioSegment,
+	const transcribeBufferedAudio = async (
+		uri: string,
+		name: string,
 	): Promise<string | null> => {
 		if (!ELEVENLABS_API_KEY) {
 			throw new Error(
@@ -510,8 +478,8 @@ export default function App() {
 		const form = new FormData();
 		form.append("file", {
 			// React Native understands file uploads via `uri`
-			uri: bufferSegment.uri,
-			name: `segment-${bufferSegment.id}.wav`,
+			uri,
+			name,
 			type: "audio/wav",
 		} as unknown as Blob);
 		form.append("model_id", "scribe_v2"); // Adjust if ElevenLabs uses a different identifier
@@ -549,39 +517,40 @@ export default function App() {
 			return;
 		}
 
-		if (isProcessingBufferedRef.current) {
+		const outageStart = outageStartRef.current;
+		if (isProcessingBufferedRef.current || outageStart == null) {
 			return;
 		}
 		isProcessingBufferedRef.current = true;
 
 		try {
-			const segments = await getBufferedSegments();
-
-			if (!segments.length) {
-				return;
-			}
-
-			for (const segment of segments) {
-				try {
-					const text = await transcribeBufferedSegment(segment);
-					if (text && text.length > 0) {
-						const committed: CommittedSegment = {
-							id: `buffered-${segment.id}-${Date.now()}`,
-							text,
-						};
-						setCommittedTranscripts((prev) => [...prev, committed]);
-					}
-				} catch (error) {
-					setLogMessage(
-						`Failed buffered segment ${segment.id}: ${(error as Error)?.message ?? "Unknown error"}`,
-					);
-				}
+			// Only the outage needs batch transcription; realtime covered the
+			// rest. The exported file is written to the cache directory.
+			const exported = await exportBufferedAudio({
+				from: outageStart,
+				to: Date.now(),
+			});
+			const text = await transcribeBufferedAudio(
+				exported.uri,
+				`outage-${Math.round(exported.startTimestamp)}.wav`,
+			);
+			if (text && text.length > 0) {
+				const committed: CommittedSegment = {
+					id: `buffered-${Math.round(exported.startTimestamp)}-${Date.now()}`,
+					text,
+				};
+				setCommittedTranscripts((prev) => [...prev, committed]);
 			}
 
+			outageStartRef.current = null;
 			await clearBufferedSegments();
 		} catch (error) {
+			if ((error as { code?: string })?.code === "no_buffered_audio") {
+				outageStartRef.current = null;
+				return;
+			}
 			setLogMessage(
-				`Failed to process buffered segments: ${(error as Error)?.message ?? "Unknown error"}`,
+				`Failed to process buffered audio: ${(error as Error)?.message ?? "Unknown error"}`,
 			);
 		} finally {
 			isProcessingBufferedRef.current = false;
@@ -664,7 +633,13 @@ export default function App() {
 								<Text style={styles.statusColon}>:</Text>
 								<StatusBadge
 									label={streamStatusLabel}
-									tone={streamStatusLabel === "recording" ? "ok" : "idle"}
+									tone={
+										streamStatus === "recording"
+											? "ok"
+											: streamEndedUnexpectedly || streamStatus === "interrupted"
+												? "error"
+												: "idle"
+									}
 								/>
 
 								<View style={styles.statusSpacer} />
@@ -683,7 +658,7 @@ export default function App() {
 								/>
 							</View>
 
-							{streamStatusLabel === "recording" ? (
+							{streamStatus !== "idle" && streamStatus !== "starting" ? (
 								<PrimaryButton
 									title="Stop Stream"
 									onPress={handleStop}
@@ -705,7 +680,7 @@ export default function App() {
 					<>
 						<LiveIndicator
 							isLive={
-								streamStatusLabel === "recording" &&
+								streamStatus === "recording" &&
 								scribeStatus === "connected"
 							}
 						/>
@@ -713,7 +688,7 @@ export default function App() {
 							<View style={styles.transcriptContainer}>
 								{committedTranscripts.length === 0 &&
 								!partialTranscript &&
-								streamStatusLabel !== "recording" ? (
+								streamStatus !== "recording" ? (
 									<View style={styles.emptyTranscript}>
 										<Text style={[styles.mutedLabel, styles.emptyTranscriptText]}>
 											Start the stream to see the live transcript.
@@ -755,7 +730,7 @@ export default function App() {
 													</Text>
 												</View>
 											</View>
-										) : streamStatusLabel === "recording" ? (
+										) : streamStatus === "recording" ? (
 											<Text style={styles.segmentTextPartial}>Listening…</Text>
 										) : null}
 									</ScrollView>
@@ -775,8 +750,11 @@ export default function App() {
 										Timestamp:{" "}
 										{new Date(lastFrame.timestamp).toLocaleTimeString()}
 									</Text>
-									{typeof lastFrame.level === "number" ? (
-										<LevelMeter level={lastFrame.level} />
+									{audio.lastLevel ? (
+										<View style={styles.levelCard}>
+											<Text style={styles.mutedLabel}>Input level</Text>
+											<AudioLevelView level={audio.lastLevel} style={styles.levelView} />
+										</View>
 									) : null}
 								</>
 							) : (
@@ -936,23 +914,6 @@ function formatSpeaker(rawId: string): string {
 	return `Speaker ${short}`;
 }
 
-function LevelMeter(props: { level: number }) {
-	// Scale RMS (usually very small) to a more readable 0–100% range.
-	const clamped = Math.max(0, Math.min(props.level, 1));
-	const scaled = Math.min(clamped * 10, 1); // 10x boost, capped at 100%
-	const percent = Math.round(scaled * 100);
-
-	return (
-		<View style={styles.levelCard}>
-			<Text style={styles.mutedLabel}>RMS level</Text>
-			<View style={styles.levelBarBackground}>
-				<View style={[styles.levelBarFill, { width: `${percent}%` }]} />
-			</View>
-			<Text style={styles.levelPercent}>{percent}%</Text>
-		</View>
-	);
-}
-
 const styles = StyleSheet.create({
 	header: {
 		fontSize: 30,
@@ -1128,22 +1089,9 @@ const styles = StyleSheet.create({
 	levelCard: {
 		marginTop: 8,
 	},
-	levelBarBackground: {
+	levelView: {
 		marginTop: 4,
-		height: 8,
-		borderRadius: 4,
-		backgroundColor: "#e5e7eb",
-		overflow: "hidden",
-		width: "100%",
-	},
-	levelBarFill: {
-		height: "100%",
-		backgroundColor: "#111827",
-	},
-	levelPercent: {
-		marginTop: 4,
-		color: "#6b7280",
-		fontSize: 12,
+		height: 12,
 	},
 	liveRow: {
 		flexDirection: "row",
@@ -4,24 +4,116 @@ import ExpoModulesCore
 private let DEFAULT_FRAME_DURATION_MS: Double = 20.0
 private let DEFAULT_BUFFER_CHUNK_SECONDS: Double = 300.0
 private let DEFAULT_MAX_BUFFERED_MINUTES: Double = 60.0
+private let WAV_HEADER_BYTES: UInt64 = 44
+// Offsets between segments below this are treated as contiguous audio.
+private let EXPORT_GAP_TOLERANCE_MS: Double = 10.0
+private let SEGMENT_INDEX_FILE = "segments.json"
+private let FLAC_MIME_TYPE = "audio/flac"
+// Values of `StreamAudioOptions.iosMode`.
+private let AUDIO_SESSION_MODES: [String: AVAudioSession.Mode] = [
+  "voiceChat": .voiceChat,
+  "default": .default,
+  "measurement": .measurement,
+  "spokenAudio": .spokenAudio,
+  "videoChat": .videoChat,
+  "videoRecording": .videoRecording
+]
 
 private struct BufferedSegmentInfo {
   let id: String
   let fileURL: URL
   let sampleRate: Double
+  let channels: Int
   let startTimestampMs: Double
   let durationMs: Double
   let sizeBytes: Int64
+  var compressedFileURL: URL?
+  var compressedSizeBytes: Int64 = 0
+
+  var files: [URL] {
+    return [fileURL] + (compressedFileURL.map { [$0] } ?? [])
+  }
 
   func toDictionary() -> [String: Any] {
-    return [
+    var dictionary: [String: Any] = [
       "id": id,
       "uri": fileURL.absoluteString,
       "sampleRate": sampleRate,
+      "channels": channels,
       "startTimestamp": startTimestampMs,
       "durationMs": durationMs,
       "sizeBytes": sizeBytes
     ]
+    if let compressedFileURL = compressedFileURL {
+      dictionary["compressed"] = [
+        "uri": compressedFileURL.absoluteString,
+        "mimeType": FLAC_MIME_TYPE,
+        "sizeBytes": compressedSizeBytes
+      ]
+    }
+    return dictionary
+  }
+
+  // The index stores file names rather than URLs so it stays valid when
+  // the app container moves, which happens on every iOS app update.
+  func toIndexEntry() -> [String: Any] {
+    var entry: [String: Any] = [
+      "id": id,
+      "fileName": fileURL.lastPathComponent,
+      "sampleRate": sampleRate,
+      "channels": channels,
+      "startTimestamp": startTimestampMs,
+      "durationMs": durationMs,
+      "sizeBytes": sizeBytes
+    ]
+    if let compressedFileURL = compressedFileURL {
+      entry["compressedFileName"] = compressedFileURL.lastPathComponent
+      entry["compressedSizeBytes"] = compressedSizeBytes
+    }
+    return entry
+  }
+
+  init(
+    id: String,
+    fileURL: URL,
+    sampleRate: Double,
+    channels: Int,
+    startTimestampMs: Double,
+    durationMs: Double,
+    sizeBytes: Int64
+  ) {
+    self.id = id
+    self.fileURL = fileURL
+    self.sampleRate = sampleRate
+    self.channels = channels
+    self.startTimestampMs = startTimestampMs
+    self.durationMs = durationMs
+    self.sizeBytes = sizeBytes
+  }
+
+  init?(indexEntry entry: [String: Any], directory: URL) {
+    guard let id = entry["id"] as? String,
+          let fileName = entry["fileName"] as? String,
+          let sampleRate = (entry["sampleRate"] as? NSNumber)?.doubleValue,
+          let startTimestampMs = (entry["startTimestamp"] as? NSNumber)?.doubleValue,
+          let durationMs = (entry["durationMs"] as? NSNumber)?.doubleValue,
+          let sizeBytes = (entry["sizeBytes"] as? NSNumber)?.int64Value else {
+      return nil
+    }
+    self.init(
+      id: id,
+      fileURL: directory.appendingPathComponent(fileName),
+      sampleRate: sampleRate,
+      // Indexes written before stereo support only held mono segments.
+      channels: (entry["channels"] as? NSNumber)?.intValue ?? 1,
+      startTimestampMs: startTimestampMs,
+      durationMs: durationMs,
+      sizeBytes: sizeBytes
+    )
+    if let compressedFileName = entry["compressedFileName"] as? String {
+      compressedFileURL = directory.appendingPathComponent(compressedFileName)
+      compressedSizeBytes = (entry["compressedSizeBytes"] as? NSNumber)?.int64Value ?? 0
+    }
   }
 }
 
@@ -29,18 +121,20 @@ private final class BufferedSegmentWriter {
   let id: String
   let fileURL: URL
   let sampleRate: Double
+  let channels: Int
   let startTimestampMs: Double
 
   private let fileHandle: FileHandle
   private(set) var bytesWritten: Int64 = 0
 
-  private var bytesPerSecond: Double {
-    return sampleRate * 2.0 // 16‑bit mono
+  var bytesPerSecond: Double {
+    return sampleRate * 2.0 * Double(channels) // 16‑bit interleaved
   }
 
-  init?(directory: URL, sampleRate: Double, startTimestampMs: Double) {
+  init?(directory: URL, sampleRate: Double, channels: Int, startTimestampMs: Double) {
     self.id = UUID().uuidString
     self.sampleRate = sampleRate
+    self.channels = channels
     self.startTimestampMs = startTimestampMs
     self.fileURL = directory.appendingPathComponent("segment_\(Int(startTimestampMs))_\(id).wav")
 
@@ -59,14 +153,10 @@ private final class BufferedSegmentWriter {
     try? fileHandle.close()
   }
 
-  func append(pcmData: Data) {
-    do {
-      try fileHandle.seekToEnd()
-      try fileHandle.write(contentsOf: pcmData)
-      bytesWritten += Int64(pcmData.count)
-    } catch {
-      // Ignore write errors here; JS will still receive frames via events.
-    }
+  func append(pcmData: Data) throws {
+    try fileHandle.seekToEnd()
+    try fileHandle.write(contentsOf: pcmData)
+    bytesWritten += Int64(pcmData.count)
   }
 
   func finalize() -> BufferedSegmentInfo? {
@@ -91,6 +181,7 @@ private final class BufferedSegmentWriter {
       id: id,
       fileURL: fileURL,
       sampleRate: sampleRate,
+      channels: channels,
       startTimestampMs: startTimestampMs,
       durationMs: durationMs,
       sizeBytes: dataSize
@@ -103,31 +194,134 @@ private final class BufferedSegmentWriter {
   }
 
   private func writeHeader(dataSize: UInt32) throws {
-    let byteRate = UInt32(sampleRate * 2.0) // mono, 16‑bit
-    let blockAlign: UInt16 = 2
-    let bitsPerSample: UInt16 = 16
-    let chunkSize = UInt32(36) + dataSize
-
-    var header = Data()
-    header.append("RIFF".data(using: .ascii)!)
-    header.append(chunkSize.littleEndianData)
-    header.append("WAVE".data(using: .ascii)!)
-    header.append("fmt ".data(using: .ascii)!)
-    header.append(UInt32(16).littleEndianData) // Subchunk1Size
-    header.append(UInt16(1).littleEndianData) // PCM
-    header.append(UInt16(1).littleEndianData) // mono
-    header.append(UInt32(sampleRate).littleEndianData)
-    header.append(byteRate.littleEndianData)
-    header.append(blockAlign.littleEndianData)
-    header.append(bitsPerSample.littleEndianData)
-    header.append("data".data(using: .ascii)!)
-    header.append(dataSize.littleEndianData)
-
     try fileHandle.seek(toOffset: 0)
-    try fileHandle.write(contentsOf: header)
+    try fileHandle.write(contentsOf: wavHeader(dataSize: dataSize, sampleRate: sampleRate, channels: channels))
   }
 }
 
+private func wavHeader(dataSize: UInt32, sampleRate: Double, channels: Int) -> Data {
+  let blockAlign = UInt16(channels * 2) // 16‑bit interleaved
+  let byteRate = UInt32(sampleRate) * UInt32(blockAlign)
+  let bitsPerSample: UInt16 = 16
+  let chunkSize = UInt32(36) + dataSize
+
+  var header = Data()
+  header.append("RIFF".data(using: .ascii)!)
+  header.append(chunkSize.littleEndianData)
+  header.append("WAVE".data(using: .ascii)!)
+  header.append("fmt ".data(using: .ascii)!)
+  header.append(UInt32(16).littleEndianData) // Subchunk1Size
+  header.append(UInt16(1).littleEndianData) // PCM
+  header.append(UInt16(channels).littleEndianData)
+  header.append(UInt32(sampleRate).littleEndianData)
+  header.append(byteRate.littleEndianData)
+  header.append(blockAlign.littleEndianData)
+  header.append(bitsPerSample.littleEndianData)
+  header.append("data".data(using: .ascii)!)
+  header.append(dataSize.littleEndianData)
+  return header
+}
+
+// Buffered audio that an export reads from: a finalized segment or the
+// one still being written.
+private struct ExportSource {
+  let fileURL: URL
+  let sampleRate: Double
+  let channels: Int
+  let startTimestampMs: Double
+  let dataBytes: Int64
+
+  var endTimestampMs: Double {
+    return startTimestampMs + Double(dataBytes) / Double(2 * channels) / sampleRate * 1000.0
+  }
+}
+
+// Frames coalesced into one `onFrame` event, see `eventBatchMs`.
+private struct FrameBatch {
+  let timestampMs: Double
+  let channelCount: Int
+  var samples: [Int16] = []
+  var subframeLevels: [Double] = []
+}
+
+// Floor for dBFS values, reported for silence.
+private let MIN_DB: Double = -160
+
+private func toDb(_ linear: Double) -> Double {
+  return linear > 0 ? max(MIN_DB, 20 * log10(linear)) : MIN_DB
+}
+
+// Accumulates interleaved PCM16 for `AudioLevel` measurements.
+private struct LevelMeter {
+  let channelCount: Int
+  private var channelSums: [Double]
+  private var peakSample = 0
+  private var clippedSamples = 0
+  private var sampleCount = 0
+  // Timestamp of the first sample.
+  private var timestampMs: Double?
+
+  init(channelCount: Int) {
+    self.channelCount = channelCount
+    channelSums = [Double](repeating: 0, count: channelCount)
+  }
+
+  mutating func add(_ samples: [Int16], timestampMs: Double = 0) {
+    if self.timestampMs == nil {
+      self.timestampMs = timestampMs
+    }
+    for (index, sample) in samples.enumerated() {
+      let normalized = Double(sample) / Double(Int16.max)
+      channelSums[index % channelCount] += normalized * normalized
+      let magnitude = abs(Int(sample))
+      peakSample = max(peakSample, magnitude)
+      if magnitude >= Int(Int16.max) {
+        clippedSamples += 1
+      }
+    }
+    sampleCount += samples.count
+  }
+
+  func durationMs(sampleRate: Double) -> Double {
+    return Double(sampleCount / channelCount) / sampleRate * 1000
+  }
+
+  var rms: Double {
+    return sampleCount > 0 ? sqrt(channelSums.reduce(0, +) / Double(sampleCount)) : 0
+  }
+
+  var level: [String: Any] {
+    let peak = min(1, Double(peakSample) / Double(Int16.max))
+    return [
+      "rms": rms,
+      "rmsDb": toDb(rms),
+      "peak": peak,
+      "peakDb": toDb(peak),
+      "clippedSamples": clippedSamples
+    ]
+  }
+
+  var channelLevels: [Double] {
+    let frames = Double(sampleCount / channelCount)
+    return channelSums.map { frames > 0 ? sqrt($0 / frames) : 0 }
+  }
+
+  func event(sampleRate: Double) -> [String: Any] {
+    return level.merging([
+      "channelLevels": channelLevels,
+      "timestamp": timestampMs ?? 0,
+      "durationMs": durationMs(sampleRate: sampleRate)
+    ]) { $1 }
+  }
+}
+
+// A captured frame kept in the pre-roll ring, see `preRollMs`.
+private struct PreRollFrame {
+  let timestampMs: Double
+  let channelCount: Int
+  let samples: [Int16]
+}
+
 private extension UInt16 {
   var littleEndianData: Data {
     var value = self.littleEndian
@@ -146,9 +340,33 @@ public class ExpoStreamAudioModule: Module {
   private let audioSession = AVAudioSession.sharedInstance()
   private let audioEngine = AVAudioEngine()
   private var isRecording = false
+  private var status = "idle"
+  // While paused the engine keeps running but buffers are dropped, so
+  // resuming is instant and keeps the session and sample rate.
+  private var isPaused = false
+  // Set between an interruption's `began` and recording being resumed.
+  private var isInterrupted = false
+  private var autoResumeAfterInterruption = false
+  private var sessionObservers: [NSObjectProtocol] = []
   private var frameDurationMs: Double = DEFAULT_FRAME_DURATION_MS
   private var enableLevelMeter = false
+  // `arraybuffer` sends frames as Data, converted to Uint8Array by JSI.
+  private var binaryFrames = false
+  private var eventBatchMs: Double = 0
+  private var preRollMs: Double = 0
+  private var levelIntervalMs: Double = 0
+  // Only accessed on `frameQueue`, which also orders replayed frames
+  // before live ones.
+  private var pendingBatch: FrameBatch?
+  private var preRollFrames: [PreRollFrame] = []
+  // Accumulates audio for `onLevel`, see `levelIntervalMs`.
+  private var levelMeter: LevelMeter?
+  private let frameQueue = DispatchQueue(label: "expo.streamaudio.frames")
   private var sampleRate: Double = 0
+  // Channels delivered in frames; may be fewer than requested.
+  private var channels = 1
+  // Returned by `start`, including repeated calls while recording.
+  private var sessionInfo: [String: Any] = [:]
 
   // Buffering configuration
   private var bufferingEnabled = false
@@ -167,7 +385,13 @@ public class ExpoStreamAudioModule: Module {
   public func definition() -> ModuleDefinition {
     Name("ExpoStreamAudio")
 
-    Events("onFrame", "onError")
+    Events("onFrame", "onError", "onStatusChange", "onInterruption", "onRouteChange", "onLevel")
+
+    OnCreate {
+      self.bufferQueue.sync {
+        self.bufferedSegments = self.loadSegmentIndex()
+      }
+    }
 
     AsyncFunction("requestPermission") { () -> String in
       switch self.audioSession.recordPermission {
@@ -182,57 +406,112 @@ public class ExpoStreamAudioModule: Module {
       }
     }
 
-    AsyncFunction("start") { (options: [String: Any]) async throws in
+    AsyncFunction("start") { (options: [String: Any]) async throws -> [String: Any] in
       if self.isRecording {
-        return
+        return self.sessionInfo
       }
 
-      // Ensure permission
-      var permission = self.audioSession.recordPermission
+      self.setStatus("starting", reason: "user")
+      do {
+        // Ensure permission
+        var permission = self.audioSession.recordPermission
 
-      if permission == .undetermined {
-        let granted = await withCheckedContinuation { continuation in
-          self.audioSession.requestRecordPermission { granted in
-            continuation.resume(returning: granted)
+        if permission == .undetermined {
+          let granted = await withCheckedContinuation { continuation in
+            self.audioSession.requestRecordPermission { granted in
+              continuation.resume(returning: granted)
+            }
           }
+          permission = granted ? .granted : .denied
         }
-        permission = granted ? .granted : .denied
-      }
 
-      if permission == .denied {
-        let message = "Microphone permission denied."
-        self.sendError(message)
-        throw NSError(
-          domain: "ExpoStreamAudio",
-          code: 1,
-          userInfo: [NSLocalizedDescriptionKey: message]
-        )
-      }
+        if permission == .denied {
+          throw self.fatalException(code: "permission_denied", message: "Microphone permission denied.")
+        }
 
-      self.frameDurationMs = (options["frameDurationMs"] as? Double) ?? DEFAULT_FRAME_DURATION_MS
-      self.enableLevelMeter = (options["enableLevelMeter"] as? Bool) ?? false
+        self.frameDurationMs = (options["frameDurationMs"] as? Double) ?? DEFAULT_FRAME_DURATION_MS
+        self.enableLevelMeter = (options["enableLevelMeter"] as? Bool) ?? false
+        self.binaryFrames = (options["frameFormat"] as? String) == "arraybuffer"
+        self.eventBatchMs = max(0, (options["eventBatchMs"] as? Double) ?? 0)
+        self.preRollMs = max(0, (options["preRollMs"] as? Double) ?? 0)
+        self.levelIntervalMs = max(0, (options["levelIntervalMs"] as? Double) ?? 0)
+        self.frameQueue.sync {
+          self.resetFrameHistory()
+        }
+        self.autoResumeAfterInterruption = (options["autoResumeAfterInterruption"] as? Bool) ?? false
 
-      self.bufferingEnabled = (options["enableBuffering"] as? Bool) ?? false
-      if let chunkSeconds = options["bufferChunkSeconds"] as? Double, chunkSeconds > 0 {
-        self.bufferChunkSeconds = chunkSeconds
-      } else {
-        self.bufferChunkSeconds = DEFAULT_BUFFER_CHUNK_SECONDS
-      }
-      if let maxMinutes = options["maxBufferedMinutes"] as? Double, maxMinutes > 0 {
-        self.maxBufferedMinutes = maxMinutes
-      } else {
-        self.maxBufferedMinutes = DEFAULT_MAX_BUFFERED_MINUTES
+        self.bufferingEnabled = (options["enableBuffering"] as? Bool) ?? false
+        if let chunkSeconds = options["bufferChunkSeconds"] as? Double, chunkSeconds > 0 {
+          self.bufferChunkSeconds = chunkSeconds
+        } else {
+          self.bufferChunkSeconds = DEFAULT_BUFFER_CHUNK_SECONDS
+        }
+        if let maxMinutes = options["maxBufferedMinutes"] as? Double, maxMinutes > 0 {
+          self.maxBufferedMinutes = maxMinutes
+        } else {
+          self.maxBufferedMinutes = DEFAULT_MAX_BUFFERED_MINUTES
+        }
+
+        try await self.startRecordingInternal(options: options)
+      } catch {
+        self.setStatus("idle", reason: "start_failed")
+        throw error
       }
+      return self.sessionInfo
+    }
 
-      try await self.startRecordingInternal(options: options)
+    AsyncFunction("getInputDevices") { () -> [[String: Any]] in
+      // The session reports no supported rates per port, only the current one.
+      return (self.audioSession.availableInputs ?? []).compactMap { port in
+        guard var device = self.routeDictionary(port) else { return nil }
+        device["sampleRates"] = [Double]()
+        return device
+      }
     }
 
     AsyncFunction("stop") {
       self.stopRecordingInternal()
     }
 
+    AsyncFunction("pause") {
+      guard self.isRecording, !self.isPaused else { return }
+      self.isPaused = true
+      self.frameQueue.sync {
+        self.flushFrameBatch()
+      }
+      // Close the segment so the one started after `resume` gets its own
+      // start timestamp and the gap isn't hidden inside a single file.
+      self.bufferQueue.sync {
+        self.finalizeCurrentSegmentIfNeeded()
+      }
+      self.setStatus("paused", reason: "user")
+    }
+
+    AsyncFunction("resume") {
+      guard self.isRecording, self.isPaused || self.isInterrupted else { return }
+      if self.isInterrupted {
+        do {
+          try self.restartCapture()
+        } catch {
+          let exception = Exception(
+            name: "StreamAudioException",
+            description: "Failed to restart audio engine: \(error.localizedDescription)",
+            code: "engine_start_failed"
+          )
+          exception.cause = error
+          throw exception
+        }
+      }
+      self.frameQueue.sync {
+        self.resetFrameHistory()
+      }
+      self.isPaused = false
+      self.isInterrupted = false
+      self.setStatus("recording", reason: "user")
+    }
+
     AsyncFunction("getStatus") { () -> String in
-      return self.isRecording ? "recording" : "idle"
+      return self.status
     }
 
     AsyncFunction("setBufferingEnabled") { (enabled: Bool) in
@@ -256,18 +535,219 @@ public class ExpoStreamAudioModule: Module {
         self.currentSegmentWriter?.discard()
         self.currentSegmentWriter = nil
         for segment in self.bufferedSegments {
-          try? FileManager.default.removeItem(at: segment.fileURL)
+          segment.files.forEach { try? FileManager.default.removeItem(at: $0) }
         }
         self.bufferedSegments.removeAll()
+        // Also remove segments orphaned by a previous process.
+        for file in self.segmentFiles(extensions: ["wav", "flac"]) {
+          try? FileManager.default.removeItem(at: file)
+        }
+        self.persistSegmentIndex()
+      }
+    }
+
+    AsyncFunction("recoverBufferedSegments") { () -> [[String: Any]] in
+      return self.bufferQueue.sync {
+        let currentURL = self.currentSegmentWriter?.fileURL
+        var known: [String: BufferedSegmentInfo] = [:]
+        for segment in self.bufferedSegments {
+          known[segment.fileURL.lastPathComponent] = segment
+        }
+
+        var recovered: [BufferedSegmentInfo] = []
+        for file in self.segmentFiles() where file.lastPathComponent != currentURL?.lastPathComponent {
+          if let info = known[file.lastPathComponent] {
+            recovered.append(info)
+            continue
+          }
+          do {
+            if let info = try self.repairSegmentFile(file) {
+              recovered.append(info)
+            }
+          } catch {
+            self.sendError(
+              code: "buffer_write_failed",
+              message: "Failed to recover \(file.lastPathComponent): \(error.localizedDescription)",
+              fatal: false,
+              cause: error
+            )
+          }
+        }
+
+        // Index entries whose file is gone are dropped as well.
+        self.bufferedSegments = recovered.sorted { $0.startTimestampMs < $1.startTimestampMs }
+        self.persistSegmentIndex()
+        return self.bufferedSegments.map { $0.toDictionary() }
+      }
+    }
+
+    AsyncFunction("deleteBufferedSegments") { (ids: [String]) in
+      self.bufferQueue.sync {
+        let idSet = Set(ids)
+        let removed = self.bufferedSegments.filter { idSet.contains($0.id) }
+        self.bufferedSegments.removeAll { idSet.contains($0.id) }
+        self.persistSegmentIndex()
+        for segment in removed {
+          segment.files.forEach { try? FileManager.default.removeItem(at: $0) }
+        }
+
+        // Segments written by a previous process are not in the list but
+        // still on disk; match them by the id in the file name. The
+        // segment currently being written is never deleted.
+        var remaining = idSet.subtracting(removed.map { $0.id })
+        if let currentId = self.currentSegmentWriter?.id {
+          remaining.remove(currentId)
+        }
+        guard !remaining.isEmpty else {
+          return
+        }
+        for file in self.segmentFiles(extensions: ["wav", "flac"]) {
+          // segment_<startTimestamp>_<id>.wav, plus .flac once compressed
+          let parts = file.deletingPathExtension().lastPathComponent.split(separator: "_", maxSplits: 2)
+          if parts.count == 3, remaining.contains(String(parts[2])) {
+            try? FileManager.default.removeItem(at: file)
+          }
+        }
+      }
+    }
+
+    AsyncFunction("getRecentAudio") { (ms: Double?) -> [String: Any] in
+      let frames = self.frameQueue.sync { self.recentPreRollFrames(ms: ms) }
+      let channelCount = frames.first?.channelCount ?? self.channels
+      let samples = frames.flatMap { $0.samples }
+      return [
+        "base64": samples.withUnsafeBytes { Data($0) }.base64EncodedString(),
+        "format": "pcm",
+        "sampleRate": self.sampleRate,
+        "channels": channelCount,
+        "startTimestamp": frames.first?.timestampMs ?? Date().timeIntervalSince1970 * 1000,
+        "durationMs": Double(samples.count / channelCount) / self.sampleRate * 1000
+      ]
+    }
+
+    AsyncFunction("emitRecentAudio") { (ms: Double?) in
+      self.frameQueue.sync {
+        // Deliver batched frames first so the replay is directly followed by
+        // the next live frame.
+        self.flushFrameBatch()
+        for frame in self.recentPreRollFrames(ms: ms) {
+          self.sendFrameEvent(
+            samples: frame.samples,
+            channelCount: frame.channelCount,
+            timestampMs: frame.timestampMs,
+            preRoll: true
+          )
+        }
+      }
+    }
+
+    AsyncFunction("readBufferedSegment") { (id: String) throws -> String in
+      guard let segment = self.bufferQueue.sync(execute: { self.bufferedSegments.first { $0.id == id } }) else {
+        throw self.segmentNotFoundException(id)
+      }
+      do {
+        return try Data(contentsOf: segment.fileURL).base64EncodedString()
+      } catch {
+        throw Exception(
+          name: "StreamAudioException",
+          description: "Failed to read \(segment.fileURL.lastPathComponent): \(error.localizedDescription)",
+          code: "segment_read_failed"
+        )
       }
     }
+
+    AsyncFunction("writeCompressedSegment") { (id: String, base64: String) throws -> [String: Any] in
+      guard let segment = self.bufferQueue.sync(execute: { self.bufferedSegments.first { $0.id == id } }) else {
+        throw self.segmentNotFoundException(id)
+      }
+      // segment_<startTimestamp>_<id>.flac next to the WAV. Written off the
+      // buffer queue so appends are not blocked.
+      let fileURL = segment.fileURL.deletingPathExtension().appendingPathExtension("flac")
+      guard let data = Data(base64Encoded: base64) else {
+        throw Exception(
+          name: "StreamAudioException",
+          description: "Compressed audio is not valid base64.",
+          code: "compression_failed"
+        )
+      }
+      do {
+        try data.write(to: fileURL, options: .atomic)
+      } catch {
+        throw Exception(
+          name: "StreamAudioException",
+          description: "Failed to write \(fileURL.lastPathComponent): \(error.localizedDescription)",
+          code: "compression_failed"
+        )
+      }
+
+      let updated: BufferedSegmentInfo? = self.bufferQueue.sync {
+        guard let index = self.bufferedSegments.firstIndex(where: { $0.id == id }) else {
+          return nil
+        }
+        self.bufferedSegments[index].compressedFileURL = fileURL
+        self.bufferedSegments[index].compressedSizeBytes = Int64(data.count)
+        self.persistSegmentIndex()
+        return self.bufferedSegments[index]
+      }
+      guard let updated = updated else {
+        // Deleted while the file was being written.
+        try? FileManager.default.removeItem(at: fileURL)
+        throw self.segmentNotFoundException(id)
+      }
+      return updated.toDictionary()
+    }
+
+    AsyncFunction("exportBufferedAudio") { (options: [String: Any]) throws -> [String: Any] in
+      let format = (options["format"] as? String) ?? "wav"
+      guard let from = options["from"] as? Double, let to = options["to"] as? Double, to > from else {
+        throw Exception(name: "StreamAudioException", description: "Invalid export range.", code: "invalid_range")
+      }
+      guard format == "wav" else {
+        throw Exception(
+          name: "StreamAudioException",
+          description: "Unsupported export format: \(format).",
+          code: "unsupported"
+        )
+      }
+
+      // Snapshot on the buffer queue; the files are read outside of it so
+      // appends are never blocked by a long export.
+      let sources: [ExportSource] = self.bufferQueue.sync {
+        var sources = self.bufferedSegments.map {
+          ExportSource(
+            fileURL: $0.fileURL,
+            sampleRate: $0.sampleRate,
+            channels: $0.channels,
+            startTimestampMs: $0.startTimestampMs,
+            dataBytes: $0.sizeBytes
+          )
+        }
+        if let writer = self.currentSegmentWriter {
+          sources.append(ExportSource(
+            fileURL: writer.fileURL,
+            sampleRate: writer.sampleRate,
+            channels: writer.channels,
+            startTimestampMs: writer.startTimestampMs,
+            dataBytes: writer.bytesWritten
+          ))
+        }
+        return sources
+      }
+
+      return try self.exportWav(sources: sources, from: from, to: to)
+    }
   }
 
   // MARK: - Internal helpers
 
   private func startRecordingInternal(options: [String: Any]) async throws {
+    let modeName = (options["iosMode"] as? String) ?? "voiceChat"
+    guard let mode = AUDIO_SESSION_MODES[modeName] else {
+      throw fatalException(code: "unsupported", message: "Unknown iosMode: \(modeName).")
+    }
+
     do {
-      try audioSession.setCategory(.record, mode: .voiceChat, options: [])
+      try audioSession.setCategory(.record, mode: mode, options: [])
 
       if let requestedSampleRate = options["sampleRate"] as? Double {
         try? audioSession.setPreferredSampleRate(requestedSampleRate)
@@ -275,18 +755,38 @@ public class ExpoStreamAudioModule: Module {
 
       try audioSession.setActive(true)
     } catch {
-      let message = "Failed to configure audio session: \(error.localizedDescription)"
-      sendError(message)
-      throw NSError(
-        domain: "ExpoStreamAudio",
-        code: 2,
-        userInfo: [NSLocalizedDescriptionKey: message]
+      throw fatalException(
+        code: "session_config_failed",
+        message: "Failed to configure audio session: \(error.localizedDescription)",
+        cause: error
       )
     }
 
+    if let inputDeviceId = options["inputDeviceId"] as? String {
+      guard let port = audioSession.availableInputs?.first(where: { $0.uid == inputDeviceId }) else {
+        throw fatalException(code: "device_unavailable", message: "Input device \(inputDeviceId) is not connected.")
+      }
+      do {
+        try audioSession.setPreferredInput(port)
+      } catch {
+        throw fatalException(
+          code: "device_unavailable",
+          message: "Failed to select input device: \(error.localizedDescription)",
+          cause: error
+        )
+      }
+    }
+
+    let requestedChannels = (options["channels"] as? Int) == 2 ? 2 : 1
+    if requestedChannels == 2 {
+      selectStereoDataSourceIfAvailable()
+      try? audioSession.setPreferredInputNumberOfChannels(min(2, audioSession.maximumInputNumberOfChannels))
+    }
+
     let inputNode = audioEngine.inputNode
     let inputFormat = inputNode.inputFormat(forBus: 0)
     sampleRate = inputFormat.sampleRate
+    channels = max(1, min(requestedChannels, Int(inputFormat.channelCount)))
 
     let framesPerBuffer = max(
       256,
@@ -303,122 +803,453 @@ public class ExpoStreamAudioModule: Module {
     do {
       try audioEngine.start()
       isRecording = true
+      isPaused = false
+      isInterrupted = false
+      addSessionObservers()
+      sessionInfo = [
+        "sampleRate": sampleRate,
+        "channels": channels,
+        "inputDevice": routeDictionary(audioSession.currentRoute.inputs.first) as Any,
+        "iosMode": modeName
+      ]
+      setStatus("recording", reason: "user")
     } catch {
-      let message = "Failed to start audio engine: \(error.localizedDescription)"
-      sendError(message)
       inputNode.removeTap(onBus: 0)
       isRecording = false
-      throw NSError(
-        domain: "ExpoStreamAudio",
-        code: 3,
-        userInfo: [NSLocalizedDescriptionKey: message]
+      throw fatalException(
+        code: "engine_start_failed",
+        message: "Failed to start audio engine: \(error.localizedDescription)",
+        cause: error
       )
     }
   }
 
-  private func stopRecordingInternal() {
+  private func stopRecordingInternal(reason: String = "user") {
     guard isRecording else { return }
+    setStatus("stopping", reason: reason)
     isRecording = false
+    isPaused = false
+    isInterrupted = false
+    removeSessionObservers()
     audioEngine.inputNode.removeTap(onBus: 0)
     audioEngine.stop()
     try? audioSession.setActive(false)
+    frameQueue.sync {
+      self.flushFrameBatch()
+    }
 
     bufferQueue.async {
       self.finalizeCurrentSegmentIfNeeded()
     }
+    setStatus("idle", reason: reason)
+  }
+
+  // MARK: - Interruptions and route changes
+
+  private func addSessionObservers() {
+    let center = NotificationCenter.default
+    sessionObservers = [
+      center.addObserver(
+        forName: AVAudioSession.interruptionNotification,
+        object: audioSession,
+        queue: .main
+      ) { [weak self] notification in
+        self?.handleInterruption(notification)
+      },
+      center.addObserver(
+        forName: AVAudioSession.routeChangeNotification,
+        object: audioSession,
+        queue: .main
+      ) { [weak self] notification in
+        self?.handleRouteChange(notification)
+      }
+    ]
+  }
+
+  private func removeSessionObservers() {
+    sessionObservers.forEach { NotificationCenter.default.removeObserver($0) }
+    sessionObservers = []
+  }
+
+  // The interruption stops the engine but leaves the tap installed.
+  private func restartCapture() throws {
+    try audioSession.setActive(true)
+    if !audioEngine.isRunning {
+      try audioEngine.start()
+    }
+  }
+
+  private func handleInterruption(_ notification: Notification) {
+    guard isRecording,
+          let info = notification.userInfo,
+          let rawType = info[AVAudioSessionInterruptionTypeKey] as? UInt,
+          let type = AVAudioSession.InterruptionType(rawValue: rawType) else {
+      return
+    }
+
+    switch type {
+    case .began:
+      guard !isInterrupted else { return }
+      isInterrupted = true
+      frameQueue.sync {
+        self.flushFrameBatch()
+      }
+      // Close the segment so the gap shows up between segments.
+      bufferQueue.sync {
+        self.finalizeCurrentSegmentIfNeeded()
+      }
+      sendInterruption(type: "began", shouldResume: false, resumed: false)
+      setStatus("interrupted", reason: "interruption")
+    case .ended:
+      guard isInterrupted else { return }
+      let rawOptions = info[AVAudioSessionInterruptionOptionKey] as? UInt ?? 0
+      let shouldResume = AVAudioSession.InterruptionOptions(rawValue: rawOptions).contains(.shouldResume)
+      var resumed = false
+      if autoResumeAfterInterruption && shouldResume {
+        do {
+          try restartCapture()
+          resumed = true
+        } catch {
+          sendError(
+            code: "engine_start_failed",
+            message: "Failed to restart audio engine after interruption: \(error.localizedDescription)",
+            fatal: false,
+            cause: error
+          )
+        }
+      }
+      if resumed {
+        frameQueue.sync {
+          self.resetFrameHistory()
+        }
+        isInterrupted = false
+        setStatus(isPaused ? "paused" : "recording", reason: "interruption")
+      }
+      sendInterruption(type: "ended", shouldResume: shouldResume, resumed: resumed)
+    @unknown default:
+      break
+    }
+  }
+
+  private func sendInterruption(type: String, shouldResume: Bool, resumed: Bool) {
+    sendEvent("onInterruption", [
+      "type": type,
+      "shouldResume": shouldResume,
+      "resumed": resumed,
+      "timestamp": Date().timeIntervalSince1970 * 1000
+    ])
+  }
+
+  private func handleRouteChange(_ notification: Notification) {
+    guard isRecording,
+          let info = notification.userInfo,
+          let rawReason = info[AVAudioSessionRouteChangeReasonKey] as? UInt,
+          let reason = AVAudioSession.RouteChangeReason(rawValue: rawReason) else {
+      return
+    }
+
+    let reasonName: String
+    switch reason {
+    case .newDeviceAvailable:
+      reasonName = "device_connected"
+    case .oldDeviceUnavailable:
+      reasonName = "device_disconnected"
+    case .override:
+      reasonName = "override"
+    case .categoryChange:
+      reasonName = "category_change"
+    case .routeConfigurationChange:
+      reasonName = "configuration_change"
+    default:
+      reasonName = "unknown"
+    }
+
+    let previousRoute = info[AVAudioSessionRouteChangePreviousRouteKey] as? AVAudioSessionRouteDescription
+    let previousInput = previousRoute?.inputs.first
+    let currentInput = audioSession.currentRoute.inputs.first
+    if reasonName == "category_change" && previousInput?.uid == currentInput?.uid {
+      // Our own `setCategory` in `start`; the input did not change.
+      return
+    }
+
+    sendEvent("onRouteChange", [
+      "reason": reasonName,
+      "previousInput": routeDictionary(previousInput) as Any,
+      "currentInput": routeDictionary(currentInput) as Any,
+      "timestamp": Date().timeIntervalSince1970 * 1000
+    ])
+  }
+
+  // Built-in iPhone microphones only deliver two channels through a data
+  // source with the stereo polar pattern (iOS 14+).
+  private func selectStereoDataSourceIfAvailable() {
+    guard #available(iOS 14.0, *),
+          let input = audioSession.preferredInput ?? audioSession.currentRoute.inputs.first,
+          input.portType == .builtInMic,
+          let dataSource = input.dataSources?.first(where: {
+            $0.supportedPolarPatterns?.contains(.stereo) == true
+          }) else {
+      return
+    }
+    try? dataSource.setPreferredPolarPattern(.stereo)
+    try? input.setPreferredDataSource(dataSource)
+  }
+
+  private func routeDictionary(_ port: AVAudioSessionPortDescription?) -> [String: Any]? {
+    guard let port = port else { return nil }
+    return [
+      "id": port.uid,
+      "name": port.portName,
+      "type": port.portType.rawValue
+    ]
+  }
+
+  private func setStatus(_ next: String, reason: String) {
+    guard status != next else { return }
+    let previous = status
+    status = next
+    sendEvent("onStatusChange", [
+      "status": next,
+      "previousStatus": previous,
+      "reason": reason,
+      "timestamp": Date().timeIntervalSince1970 * 1000
+    ])
   }
 
   private func handleBuffer(buffer: AVAudioPCMBuffer) {
+    if isPaused || isInterrupted {
+      return
+    }
     let frameLength = Int(buffer.frameLength)
-    let byteCount = frameLength * MemoryLayout<Int16>.size
+    let channelCount = min(channels, Int(buffer.format.channelCount))
+    guard channelCount > 0 else { return }
 
-    let data: Data
-    let level: Double?
+    // Interleave the first `channelCount` channels. Tap buffers are usually
+    // deinterleaved (one pointer per channel).
+    let interleaved = buffer.format.isInterleaved
+    let stride = buffer.stride
+    var samples = [Int16](repeating: 0, count: frameLength * channelCount)
 
     if let int16ChannelData = buffer.int16ChannelData {
-      data = Data(bytes: int16ChannelData[0], count: byteCount)
-      level = enableLevelMeter ? calculateRMS(fromInt16Buffer: int16ChannelData[0], frameLength: frameLength) : nil
+      for channel in 0..<channelCount {
+        for i in 0..<frameLength {
+          samples[i * channelCount + channel] = interleaved
+            ? int16ChannelData[0][i * stride + channel]
+            : int16ChannelData[channel][i]
+        }
+      }
     } else if let floatChannelData = buffer.floatChannelData {
-      var int16Array = [Int16](repeating: 0, count: frameLength)
-      for i in 0..<frameLength {
-        let sample = floatChannelData[0][i]
-        let clamped = max(-1.0, min(1.0, Double(sample)))
-        int16Array[i] = Int16(clamped * Double(Int16.max))
-      }
-      data = int16Array.withUnsafeBytes { Data($0) }
-      level = enableLevelMeter ? calculateRMS(fromInt16Array: int16Array) : nil
+      for channel in 0..<channelCount {
+        for i in 0..<frameLength {
+          let sample = interleaved ? floatChannelData[0][i * stride + channel] : floatChannelData[channel][i]
+          let clamped = max(-1.0, min(1.0, Double(sample)))
+          samples[i * channelCount + channel] = Int16(clamped * Double(Int16.max))
+        }
+      }
     } else {
       return
     }
 
     let timestampMs = Date().timeIntervalSince1970 * 1000
 
-    let base64 = data.base64EncodedString()
-
-    let event: [String: Any] = [
-      "pcmBase64": base64,
-      "sampleRate": sampleRate,
-      "timestamp": timestampMs,
-      "level": level as Any
-    ]
-
-    sendEvent("onFrame", event)
-
     if bufferingEnabled {
-      let pcmCopy = data
+      let pcmCopy = samples.withUnsafeBytes { Data($0) }
       bufferQueue.async {
         self.appendToBuffer(pcmData: pcmCopy, timestampMs: timestampMs)
       }
     }
+
+    frameQueue.sync {
+      appendToPreRoll(PreRollFrame(timestampMs: timestampMs, channelCount: channelCount, samples: samples))
+      if levelIntervalMs > 0 {
+        if levelMeter?.channelCount != channelCount {
+          levelMeter = LevelMeter(channelCount: channelCount)
+        }
+        levelMeter?.add(samples, timestampMs: timestampMs)
+        if let meter = levelMeter, meter.durationMs(sampleRate: sampleRate) >= levelIntervalMs {
+          sendEvent("onLevel", meter.event(sampleRate: sampleRate))
+          levelMeter = nil
+        }
+      }
+      guard eventBatchMs > 0 else {
+        sendFrameEvent(samples: samples, channelCount: channelCount, timestampMs: timestampMs)
+        return
+      }
+      if let batch = pendingBatch, batch.channelCount != channelCount {
+        flushFrameBatch()
+      }
+      var batch = pendingBatch ?? FrameBatch(timestampMs: timestampMs, channelCount: channelCount)
+      batch.samples.append(contentsOf: samples)
+      if enableLevelMeter {
+        var meter = LevelMeter(channelCount: channelCount)
+        meter.add(samples)
+        batch.subframeLevels.append(meter.rms)
+      }
+      pendingBatch = batch
+      let batchMs = Double(batch.samples.count / channelCount) / sampleRate * 1000
+      // A buffer delivered just before `pause` must not wait for the next resume.
+      if batchMs >= eventBatchMs || isPaused || isInterrupted {
+        flushFrameBatch()
+      }
+    }
+  }
+
+  // Drops audio from before a gap: the pre-roll ring and the partial
+  // `onLevel` interval. Must be called on `frameQueue`.
+  private func resetFrameHistory() {
+    preRollFrames.removeAll()
+    levelMeter = nil
   }
 
-  private func calculateRMS(fromInt16Buffer int16Pointer: UnsafePointer<Int16>, frameLength: Int) -> Double {
-    if frameLength == 0 {
-      return 0
+  // Must be called on `frameQueue`.
+  private func appendToPreRoll(_ frame: PreRollFrame) {
+    guard preRollMs > 0 else { return }
+    if let last = preRollFrames.last, last.channelCount != frame.channelCount {
+      preRollFrames.removeAll()
     }
-    var sum: Double = 0
-    for i in 0..<frameLength {
-      let sample = Double(int16Pointer[i]) / Double(Int16.max)
-      sum += sample * sample
+    preRollFrames.append(frame)
+    // Drop whole frames, keeping at least `preRollMs`.
+    let capacity = Int(preRollMs / 1000 * sampleRate) * frame.channelCount
+    var total = preRollFrames.reduce(0) { $0 + $1.samples.count }
+    while preRollFrames.count > 1 && total - preRollFrames[0].samples.count >= capacity {
+      total -= preRollFrames.removeFirst().samples.count
     }
-    let mean = sum / Double(frameLength)
-    return sqrt(mean)
   }
 
-  private func calculateRMS(fromInt16Array array: [Int16]) -> Double {
-    if array.isEmpty {
-      return 0
+  // The frames covering the last `ms` milliseconds (all of them when nil),
+  // the first one cut at a sample boundary. Must be called on `frameQueue`.
+  private func recentPreRollFrames(ms: Double?) -> [PreRollFrame] {
+    var result: [PreRollFrame] = []
+    var remaining = ms.map { Int((max(0, $0) / 1000 * sampleRate).rounded()) } ?? Int.max
+    for frame in preRollFrames.reversed() where remaining > 0 {
+      let frameCount = frame.samples.count / frame.channelCount
+      if frameCount <= remaining {
+        result.insert(frame, at: 0)
+        remaining -= frameCount
+      } else {
+        let skipped = frameCount - remaining
+        result.insert(
+          PreRollFrame(
+            timestampMs: frame.timestampMs + Double(skipped) / sampleRate * 1000,
+            channelCount: frame.channelCount,
+            samples: Array(frame.samples[(skipped * frame.channelCount)...])
+          ),
+          at: 0
+        )
+        remaining = 0
+      }
+    }
+    return result
+  }
+
+  // Must be called on `frameQueue`.
+  private func flushFrameBatch() {
+    guard let batch = pendingBatch else { return }
+    pendingBatch = nil
+    sendFrameEvent(
+      samples: batch.samples,
+      channelCount: batch.channelCount,
+      timestampMs: batch.timestampMs,
+      subframeLevels: enableLevelMeter ? batch.subframeLevels : nil
+    )
+  }
+
+  private func sendFrameEvent(
+    samples: [Int16],
+    channelCount: Int,
+    timestampMs: Double,
+    subframeLevels: [Double]? = nil,
+    preRoll: Bool = false
+  ) {
+    let data = samples.withUnsafeBytes { Data($0) }
+    var meter: LevelMeter?
+    if enableLevelMeter {
+      meter = LevelMeter(channelCount: channelCount)
+      meter?.add(samples)
     }
-    var sum: Double = 0
-    for sampleInt16 in array {
-      let sample = Double(sampleInt16) / Double(Int16.max)
-      sum += sample * sample
+
+    var event: [String: Any] = [
+      "encoding": "pcm16",
+      "sampleRate": sampleRate,
+      "channels": channelCount,
+      "timestamp": timestampMs,
+      "level": meter?.level as Any,
+      "channelLevels": meter?.channelLevels as Any,
+      "subframeLevels": subframeLevels as Any,
+      "preRoll": preRoll
+    ]
+    if binaryFrames {
+      event["pcmBase64"] = ""
+      event["data"] = data
+    } else {
+      event["pcmBase64"] = data.base64EncodedString()
     }
-    let mean = sum / Double(array.count)
-    return sqrt(mean)
+
+    sendEvent("onFrame", event)
   }
 
-  private func sendError(_ message: String) {
-    sendEvent("onError", ["message": message])
+
+  private func sendError(code: String, message: String, fatal: Bool, cause: Error? = nil) {
+    var event: [String: Any] = [
+      "code": code,
+      "message": message,
+      "fatal": fatal,
+      "platform": "ios"
+    ]
+    if let nsError = cause as NSError? {
+      event["nativeCode"] = nsError.code
+      event["nativeDomain"] = nsError.domain
+      event["nativeMessage"] = nsError.localizedDescription
+    }
+    sendEvent("onError", event)
+  }
+
+  // Emits a fatal `onError` event and returns the matching exception so
+  // the `start` promise rejects with the same code.
+  private func fatalException(code: String, message: String, cause: Error? = nil) -> Exception {
+    sendError(code: code, message: message, fatal: true, cause: cause)
+    let exception = Exception(name: "StreamAudioException", description: message, code: code)
+    exception.cause = cause
+    return exception
   }
 
   // MARK: - Buffering helpers
 
   private func appendToBuffer(pcmData: Data, timestampMs: Double) {
-    guard bufferingEnabled else { return }
+    // Re-checked on the buffer queue so a buffer captured just before
+    // `pause` can't open a segment that would then span the pause.
+    guard bufferingEnabled, !isPaused, !isInterrupted else { return }
     if currentSegmentWriter == nil {
       currentSegmentWriter = BufferedSegmentWriter(
         directory: bufferDirectory,
         sampleRate: sampleRate,
+        channels: channels,
         startTimestampMs: timestampMs
       )
+      if currentSegmentWriter == nil {
+        sendError(code: "buffer_write_failed", message: "Failed to create buffered segment.", fatal: false)
+        return
+      }
     }
 
     guard let writer = currentSegmentWriter else { return }
-    writer.append(pcmData: pcmData)
+    do {
+      try writer.append(pcmData: pcmData)
+    } catch {
+      // Drop the broken segment; the next frame starts a fresh one.
+      writer.discard()
+      currentSegmentWriter = nil
+      sendError(
+        code: "buffer_write_failed",
+        message: "Failed to write buffered audio: \(error.localizedDescription)",
+        fatal: false,
+        cause: error
+      )
+      return
+    }
 
     let dataSize = writer.bytesWritten
-    let durationSeconds = Double(dataSize) / (sampleRate * 2.0)
+    let durationSeconds = Double(dataSize) / writer.bytesPerSecond
     if durationSeconds >= bufferChunkSeconds {
       finalizeCurrentSegmentIfNeeded()
     }
@@ -433,6 +1264,248 @@ public class ExpoStreamAudioModule: Module {
     currentSegmentWriter = nil
     bufferedSegments.append(info)
     enforceMaxBufferedMinutes()
+    persistSegmentIndex()
+  }
+
+  private var segmentIndexURL: URL {
+    return bufferDirectory.appendingPathComponent(SEGMENT_INDEX_FILE)
+  }
+
+  private func segmentNotFoundException(_ id: String) -> Exception {
+    return Exception(
+      name: "StreamAudioException",
+      description: "No buffered segment with id \(id).",
+      code: "segment_not_found"
+    )
+  }
+
+  private func segmentFiles(extensions: Set<String> = ["wav"]) -> [URL] {
+    let files = (try? FileManager.default.contentsOfDirectory(
+      at: bufferDirectory,
+      includingPropertiesForKeys: nil
+    )) ?? []
+    return files.filter { $0.lastPathComponent.hasPrefix("segment_") && extensions.contains($0.pathExtension) }
+  }
+
+  private func loadSegmentIndex() -> [BufferedSegmentInfo] {
+    guard let data = try? Data(contentsOf: segmentIndexURL),
+          let json = try? JSONSerialization.jsonObject(with: data) as? [String: Any],
+          let entries = json["segments"] as? [[String: Any]] else {
+      // Missing or corrupt; rebuilt by `recoverBufferedSegments`.
+      return []
+    }
+    return entries
+      .compactMap { BufferedSegmentInfo(indexEntry: $0, directory: bufferDirectory) }
+      .filter { FileManager.default.fileExists(atPath: $0.fileURL.path) }
+      .map { segment in
+        var segment = segment
+        if let compressedFileURL = segment.compressedFileURL,
+           !FileManager.default.fileExists(atPath: compressedFileURL.path) {
+          segment.compressedFileURL = nil
+          segment.compressedSizeBytes = 0
+        }
+        return segment
+      }
+  }
+
+  // Must be called on `bufferQueue`. The atomic write keeps a crash
+  // mid-write from leaving a truncated index behind.
+  private func persistSegmentIndex() {
+    do {
+      try FileManager.default.createDirectory(at: bufferDirectory, withIntermediateDirectories: true)
+      let json: [String: Any] = [
+        "version": 1,
+        "segments": bufferedSegments.map { $0.toIndexEntry() }
+      ]
+      let data = try JSONSerialization.data(withJSONObject: json)
+      try data.write(to: segmentIndexURL, options: .atomic)
+    } catch {
+      sendError(
+        code: "buffer_write_failed",
+        message: "Failed to persist buffered segment index: \(error.localizedDescription)",
+        fatal: false,
+        cause: error
+      )
+    }
+  }
+
+  // Rebuilds metadata for a segment left behind by a killed process and
+  // patches its header, whose data size is still 0. Returns nil (and
+  // deletes the file) when it holds no audio.
+  private func repairSegmentFile(_ file: URL) throws -> BufferedSegmentInfo? {
+    // segment_<startTimestamp>_<id>.wav
+    let parts = file.deletingPathExtension().lastPathComponent.split(separator: "_", maxSplits: 2)
+    guard parts.count == 3, let startTimestampMs = Double(parts[1]) else {
+      return nil
+    }
+
+    let handle = try FileHandle(forUpdating: file)
+    defer { try? handle.close() }
+
+    let length = try handle.seekToEnd()
+    guard length > WAV_HEADER_BYTES else {
+      try? handle.close()
+      try? FileManager.default.removeItem(at: file)
+      return nil
+    }
+
+    // Channel count (offset 22) and sample rate (offset 24) are written
+    // with the header when the segment is created.
+    try handle.seek(toOffset: 22)
+    guard let formatBytes = try handle.read(upToCount: 6), formatBytes.count == 6 else {
+      return nil
+    }
+    let channels = max(1, Int(formatBytes.withUnsafeBytes { UInt16(littleEndian: $0.loadUnaligned(as: UInt16.self)) }))
+    let sampleRate = Double(formatBytes.withUnsafeBytes {
+      UInt32(littleEndian: $0.loadUnaligned(fromByteOffset: 2, as: UInt32.self))
+    })
+    guard sampleRate > 0 else {
+      return nil
+    }
+
+    // Drop a trailing partial sample frame.
+    let frameBytes = UInt64(2 * channels)
+    let dataBytes = (length - WAV_HEADER_BYTES) / frameBytes * frameBytes
+    guard dataBytes > 0 else {
+      try? handle.close()
+      try? FileManager.default.removeItem(at: file)
+      return nil
+    }
+
+    try handle.truncate(atOffset: WAV_HEADER_BYTES + dataBytes)
+    try handle.seek(toOffset: 0)
+    try handle.write(contentsOf: wavHeader(dataSize: UInt32(clamping: dataBytes), sampleRate: sampleRate, channels: channels))
+
+    return BufferedSegmentInfo(
+      id: String(parts[2]),
+      fileURL: file,
+      sampleRate: sampleRate,
+      channels: channels,
+      startTimestampMs: startTimestampMs,
+      durationMs: Double(dataBytes) / (sampleRate * Double(frameBytes)) * 1000.0,
+      sizeBytes: Int64(dataBytes)
+    )
+  }
+
+  private var exportDirectory: URL {
+    let urls = FileManager.default.urls(for: .cachesDirectory, in: .userDomainMask)
+    return urls[0].appendingPathComponent("expo_stream_audio_exports", isDirectory: true)
+  }
+
+  // Lays the overlapping sources out on one timeline cut to [from, to):
+  // gaps become silence and overlapping audio is dropped from the later
+  // source.
+  private func exportWav(sources: [ExportSource], from: Double, to: Double) throws -> [String: Any] {
+    let overlapping = sources
+      .filter { $0.dataBytes > 0 && $0.startTimestampMs < to && $0.endTimestampMs > from }
+      .sorted { $0.startTimestampMs < $1.startTimestampMs }
+    guard let firstSource = overlapping.first else {
+      throw Exception(
+        name: "StreamAudioException",
+        description: "No buffered audio between \(Int64(from)) and \(Int64(to)).",
+        code: "no_buffered_audio"
+      )
+    }
+    let rate = firstSource.sampleRate
+    if overlapping.contains(where: { $0.sampleRate != rate }) {
+      throw Exception(
+        name: "StreamAudioException",
+        description: "Buffered audio in this range was recorded at different sample rates.",
+        code: "export_failed"
+      )
+    }
+    let channels = firstSource.channels
+    if overlapping.contains(where: { $0.channels != channels }) {
+      throw Exception(
+        name: "StreamAudioException",
+        description: "Buffered audio in this range was recorded with different channel counts.",
+        code: "export_failed"
+      )
+    }
+    // Positions below count sample frames, i.e. one sample per channel.
+    let frameBytes = Int64(2 * channels)
+
+    let start = max(from, firstSource.startTimestampMs)
+    let maxSamples = Int64(((to - start) * rate / 1000.0).rounded())
+    let toleranceSamples = EXPORT_GAP_TOLERANCE_MS * rate / 1000.0
+    let chunkBytes = 64 * 1024
+
+    let fileURL = exportDirectory.appendingPathComponent("export_\(Int64(start))_\(UUID().uuidString).wav")
+    var written: Int64 = 0
+
+    do {
+      try FileManager.default.createDirectory(at: exportDirectory, withIntermediateDirectories: true)
+      FileManager.default.createFile(atPath: fileURL.path, contents: nil)
+      let output = try FileHandle(forWritingTo: fileURL)
+      defer { try? output.close() }
+      try output.write(contentsOf: wavHeader(dataSize: 0, sampleRate: rate, channels: channels))
+
+      for source in overlapping {
+        var position = Int64(((source.startTimestampMs - start) * rate / 1000.0).rounded())
+        if written > 0 && abs(Double(position - written)) <= toleranceSamples {
+          position = written
+        }
+        if position > written {
+          var remaining = (min(position, maxSamples) - written) * frameBytes
+          written += remaining / frameBytes
+          while remaining > 0 {
+            let count = Int(min(Int64(chunkBytes), remaining))
+            try output.write(contentsOf: Data(count: count))
+            remaining -= Int64(count)
+          }
+        }
+
+        let first = max(0, written - position)
+        let last = min(source.dataBytes / frameBytes, maxSamples - position)
+        if last <= first { continue }
+
+        let input = try FileHandle(forReadingFrom: source.fileURL)
+        defer { try? input.close() }
+        try input.seek(toOffset: WAV_HEADER_BYTES + UInt64(first * frameBytes))
+        var remaining = (last - first) * frameBytes
+        while remaining > 0 {
+          guard let data = try input.read(upToCount: Int(min(Int64(chunkBytes), remaining))), !data.isEmpty else {
+            break
+          }
+          try output.write(contentsOf: data)
+          remaining -= Int64(data.count)
+        }
+        let copied = (last - first) * frameBytes - remaining
+        let partial = copied % frameBytes
+        if partial > 0 {
+          try output.write(contentsOf: Data(count: Int(frameBytes - partial)))
+        }
+        written += (copied + frameBytes - 1) / frameBytes
+      }
+
+      try output.seek(toOffset: 0)
+      try output.write(contentsOf: wavHeader(
+        dataSize: UInt32(clamping: written * frameBytes),
+        sampleRate: rate,
+        channels: channels
+      ))
+    } catch {
+      try? FileManager.default.removeItem(at: fileURL)
+      let exception = Exception(
+        name: "StreamAudioException",
+        description: "Failed to export buffered audio: \(error.localizedDescription)",
+        code: "export_failed"
+      )
+      exception.cause = error
+      throw exception
+    }
+
+    let endTimestamp = start + Double(written) / rate * 1000.0
+    return [
+      "uri": fileURL.absoluteString,
+      "format": "wav",
+      "sampleRate": rate,
+      "channels": channels,
+      "startTimestamp": start,
+      "endTimestamp": endTimestamp,
+      "durationMs": endTimestamp - start,
+      "sizeBytes": Int64(WAV_HEADER_BYTES) + written * frameBytes
+    ]
   }
 
   private func enforceMaxBufferedMinutes() {
@@ -440,7 +1513,7 @@ public class ExpoStreamAudioModule: Module {
     var totalMs = bufferedSegments.reduce(0.0) { $0 + $1.durationMs }
     while totalMs > maxMs, !bufferedSegments.isEmpty {
       let oldest = bufferedSegments.removeFirst()
-      try? FileManager.default.removeItem(at: oldest.fileURL)
+      oldest.files.forEach { try? FileManager.default.removeItem(at: $0) }
       totalMs = bufferedSegments.reduce(0.0) { $0 + $1.durationMs }
     }
   }
@@ -0,0 +1,21 @@
+const preset = require("expo-module-scripts/jest-preset");
+
+// The preset compiles TypeScript dependencies such as `expo` with ts-jest as
+// well; only report type errors for this package's own files.
+module.exports = {
+  ...preset,
+  projects: preset.projects.map((project) => ({
+    ...project,
+    transform: Object.fromEntries(
+      Object.entries(project.transform).map(([pattern, transformer]) => [
+        pattern,
+        Array.isArray(transformer) && transformer[0] === "ts-jest"
+          ? [
+              transformer[0],
+              { ...transformer[1], diagnostics: { exclude: ["**/node_modules/**"] } },
+            ]
+          : transformer,
+      ]),
+    ),
+  })),
+};
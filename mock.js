@@ -0,0 +1,2 @@
+// Entry point for `expo-stream-audio/mock`, see README.
+module.exports = require("./build/mock");
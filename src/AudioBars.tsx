@@ -0,0 +1,48 @@
+import { StyleSheet, View, type StyleProp, type ViewStyle } from "react-native";
+
+export type AudioBar = {
+  /**
+   * Height as a fraction of the view, 0–1.
+   */
+  height: number;
+  color: string;
+};
+
+export type AudioBarsProps = {
+  bars: AudioBar[];
+  style?: StyleProp<ViewStyle>;
+};
+
+/**
+ * A row of vertically centered bars; the renderer behind `AudioLevelView`
+ * and `WaveformView`. The web variant draws to a canvas instead.
+ */
+export default function AudioBars({ bars, style }: AudioBarsProps) {
+  return (
+    <View style={[styles.row, style]}>
+      {bars.map((bar, index) => (
+        <View
+          key={index}
+          style={[
+            styles.bar,
+            { height: `${Math.min(1, Math.max(0, bar.height)) * 100}%`, backgroundColor: bar.color },
+          ]}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    height: 32,
+  },
+  bar: {
+    flex: 1,
+    minHeight: 2,
+    marginHorizontal: 1,
+    borderRadius: 1,
+  },
+});
@@ -0,0 +1,56 @@
+import { useEffect, useRef, useState } from "react";
+import { StyleSheet, View, type LayoutChangeEvent } from "react-native";
+
+import type { AudioBarsProps } from "./AudioBars";
+
+const GAP = 2;
+const MIN_HEIGHT = 2;
+
+/**
+ * Web variant of `AudioBars`: draws into a canvas sized to the view, so a
+ * waveform updating every frame does not re-render a DOM node per bar.
+ */
+export default function AudioBars({ bars, style }: AudioBarsProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setSize((current) =>
+      current.width === width && current.height === height ? current : { width, height },
+    );
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+    const scale = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * scale);
+    canvas.height = Math.round(size.height * scale);
+    context.setTransform(scale, 0, 0, scale, 0, 0);
+    context.clearRect(0, 0, size.width, size.height);
+    if (bars.length === 0) return;
+
+    const slot = size.width / bars.length;
+    const barWidth = Math.max(1, slot - GAP);
+    bars.forEach((bar, index) => {
+      const height = Math.max(MIN_HEIGHT, Math.min(1, Math.max(0, bar.height)) * size.height);
+      context.fillStyle = bar.color;
+      context.fillRect(index * slot + (slot - barWidth) / 2, (size.height - height) / 2, barWidth, height);
+    });
+  }, [bars, size]);
+
+  return (
+    <View style={[styles.container, style]} onLayout={handleLayout}>
+      <canvas ref={canvasRef} style={{ width: size.width, height: size.height, display: "block" }} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: 32,
+    overflow: "hidden",
+  },
+});
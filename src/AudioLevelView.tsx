@@ -0,0 +1,112 @@
+import { useEffect, useReducer, useRef } from "react";
+
+import AudioBars from "./AudioBars";
+import type { AudioLevel, AudioLevelViewProps } from "./ExpoStreamAudio.types";
+import streamAudioModule from "./ExpoStreamAudioModule";
+
+// How long the peak segment holds before it starts to fall.
+const PEAK_HOLD_MS = 1000;
+
+type MeterState = {
+  levelDb: number;
+  peakDb: number;
+  clipping: boolean;
+  peakHeldUntil: number;
+  updatedAt: number;
+};
+
+/**
+ * Segmented level meter with a held peak segment. Shows `level` when
+ * given, otherwise follows `onLevel` (requires `levelIntervalMs`). Between
+ * updates the level falls by `decay` dB per second, animated until the
+ * meter is empty.
+ */
+export default function AudioLevelView({
+  level,
+  barCount = 20,
+  color = "#22c55e",
+  inactiveColor = "rgba(128, 128, 128, 0.25)",
+  clipColor = "#ef4444",
+  decay = 24,
+  minDb = -60,
+  style,
+}: AudioLevelViewProps) {
+  const meter = useRef<MeterState>({
+    levelDb: minDb,
+    peakDb: minDb,
+    clipping: false,
+    peakHeldUntil: 0,
+    updatedAt: Date.now(),
+  });
+  const animationFrame = useRef<number | null>(null);
+  const [, render] = useReducer((count: number) => count + 1, 0);
+
+  // Kept in a ref so listeners and animation frames use the latest props.
+  const update = useRef<(value?: AudioLevel) => void>(() => {});
+  update.current = (value) => {
+    const state = meter.current;
+    const now = Date.now();
+    const drop = (decay * (now - state.updatedAt)) / 1000;
+    state.updatedAt = now;
+    state.levelDb = Math.max(minDb, state.levelDb - drop);
+    if (now >= state.peakHeldUntil) {
+      state.peakDb = Math.max(minDb, state.peakDb - drop);
+      state.clipping = false;
+    }
+    if (value) {
+      state.levelDb = Math.max(state.levelDb, value.rmsDb);
+      if (value.peakDb >= state.peakDb || value.clippedSamples > 0) {
+        state.peakDb = Math.max(state.peakDb, value.peakDb);
+        state.peakHeldUntil = now + PEAK_HOLD_MS;
+      }
+      if (value.clippedSamples > 0) {
+        state.clipping = true;
+      }
+    }
+    render();
+    if (animationFrame.current === null && (state.levelDb > minDb || state.peakDb > minDb)) {
+      animationFrame.current = requestAnimationFrame(() => {
+        animationFrame.current = null;
+        update.current();
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (level) {
+      update.current(level);
+    }
+  }, [level]);
+
+  const followsEvents = level === undefined;
+  useEffect(() => {
+    if (!followsEvents) return;
+    const subscription = streamAudioModule.addListener("onLevel", (event) => update.current(event));
+    return () => subscription.remove();
+  }, [followsEvents]);
+
+  useEffect(
+    () => () => {
+      if (animationFrame.current !== null) {
+        cancelAnimationFrame(animationFrame.current);
+      }
+    },
+    [],
+  );
+
+  const fraction = (db: number) => Math.min(1, Math.max(0, (db - minDb) / -minDb));
+  const { levelDb, peakDb, clipping } = meter.current;
+  const lit = Math.round(fraction(levelDb) * barCount);
+  const peakIndex = Math.min(barCount, Math.ceil(fraction(peakDb) * barCount)) - 1;
+  const bars = Array.from({ length: barCount }, (_, index) => ({
+    height: 1,
+    color:
+      index === peakIndex && clipping
+        ? clipColor
+        : index < lit || index === peakIndex
+          ? color
+          : inactiveColor,
+  }));
+
+  return <AudioBars bars={bars} style={style} />;
+}
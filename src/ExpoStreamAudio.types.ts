@@ -2,15 +2,65 @@ import type { StyleProp, ViewStyle } from "react-native";
 
 export type PermissionStatus = "granted" | "denied" | "undetermined";
 
-export type StreamStatus = "idle" | "recording" | "stopped";
+/**
+ * Returned by the `add*Listener` functions; call `remove()` to unsubscribe.
+ */
+export type Subscription = { remove: () => void };
+
+/**
+ * - `idle`: not recording.
+ * - `starting`: `start()` is configuring the input.
+ * - `recording`: frames are being emitted.
+ * - `paused`: the input is kept open but no frames are emitted.
+ * - `interrupted`: the OS took the input away (e.g. a phone call).
+ * - `stopping`: the input is being released.
+ */
+export type StreamStatus = "idle" | "starting" | "recording" | "paused" | "interrupted" | "stopping";
+
+/**
+ * Why the status changed.
+ *
+ * - `user`: `start()`, `stop()` or another API call.
+ * - `start_failed`: `start()` rejected; see the accompanying `onError`.
+ * - `permission_revoked`: microphone access was withdrawn while recording.
+ * - `read_error`: the input stopped delivering audio, e.g. a failed
+ *   `AudioRecord` read or a disconnected device on web.
+ * - `interruption`: the OS interrupted or gave back the input.
+ */
+export type StreamStatusChangeReason =
+  | "user"
+  | "start_failed"
+  | "permission_revoked"
+  | "read_error"
+  | "interruption";
+
+export type StreamStatusChangeEvent = {
+  status: StreamStatus;
+  previousStatus: StreamStatus;
+  reason: StreamStatusChangeReason;
+  /**
+   * Timestamp in milliseconds since the Unix epoch.
+   */
+  timestamp: number;
+};
 
 export type StreamAudioOptions = {
   /**
    * Requested sample rate in Hz.
    * The native implementation may fall back to a different rate
-   * if the hardware does not support the requested value.
+   * if the hardware does not support the requested value, unless
+   * `strictSampleRate` is set.
+   */
+  sampleRate?: 8000 | 16000 | 22050 | 24000 | 44100 | 48000;
+  /**
+   * When true, frames are always delivered at `sampleRate` (16000 if
+   * omitted). If the hardware falls back to another rate, frames are
+   * converted in JS with a streaming resampler that keeps its state
+   * across frames. Buffered segments keep the hardware rate.
+   *
+   * Defaults to false.
    */
-  sampleRate?: 16000 | 44100 | 48000;
+  strictSampleRate?: boolean;
   /**
    * Desired frame duration in milliseconds.
    * Native implementations may emit frames with slightly different durations,
@@ -20,14 +70,65 @@ export type StreamAudioOptions = {
    */
   frameDurationMs?: number;
   /**
-   * Number of channels. Only mono (1) is supported right now.
+   * Coalesce consecutive frames into one `onFrame` event covering at least
+   * this many milliseconds, e.g. 100 for 10 events per second instead of
+   * 50 at the default `frameDurationMs`. The event carries the frames'
+   * audio back to back, the `timestamp` of the first one and each frame's
+   * level in `subframeLevels`. Capture and buffering still run per frame;
+   * a partial batch is delivered on `pause()`, `stop()` and interruptions.
+   *
+   * Defaults to 0 (one event per frame).
+   */
+  eventBatchMs?: number;
+  /**
+   * Number of channels to capture. With 2, frames carry interleaved PCM
+   * (left, right, left, …) and buffered segments are stereo WAV files.
+   * Inputs with a single microphone fall back to mono; check
+   * `AudioFrameEvent.channels` or the value `start()` resolves with.
+   *
+   * Defaults to 1.
+   */
+  channels?: 1 | 2;
+  /**
+   * With `channels: 2`, average both channels into mono frames before they
+   * reach frame listeners. Buffered segments keep both channels, so the
+   * separate channels stay available for later processing.
+   *
+   * Defaults to false.
+   */
+  downmixToMono?: boolean;
+  /**
+   * Encoding of `AudioFrameEvent.pcmBase64`. Frames are converted in JS
+   * after `downmixToMono` and `strictSampleRate`; buffered segments are
+   * always PCM16 WAV files. For telephony media streams combine `mulaw`
+   * with `sampleRate: 8000` and `strictSampleRate`.
+   *
+   * Defaults to `pcm16`.
    */
-  channels?: 1;
+  encoding?: AudioEncoding;
   /**
-   * When true, native layer will compute a simple power / RMS level
-   * for each emitted frame.
+   * How frame audio is delivered to JS. `arraybuffer` passes the bytes
+   * through JSI as `AudioFrameEvent.data` and leaves `pcmBase64` empty,
+   * which skips the native base64 encode, a string allocation per frame
+   * and decoding it again in JS.
+   *
+   * Defaults to `base64`.
+   */
+  frameFormat?: FrameFormat;
+  /**
+   * When true, the native layer measures each emitted frame and reports
+   * it as `AudioFrameEvent.level` and `channelLevels`.
    */
   enableLevelMeter?: boolean;
+  /**
+   * Emit an `onLevel` event every N milliseconds with the level of the
+   * audio captured since the previous one, independent of
+   * `enableLevelMeter`. Lets a level meter UI update without subscribing
+   * to frames. Nothing is emitted while paused or interrupted.
+   *
+   * Defaults to 0 (off).
+   */
+  levelIntervalMs?: number;
   /**
    * When true (and supported on the platform), the module will
    * try to keep recording while the app is backgrounded by using
@@ -59,6 +160,171 @@ export type StreamAudioOptions = {
    * Defaults to 60.
    */
   maxBufferedMinutes?: number;
+  /**
+   * Keep the last N milliseconds of captured audio in an in-memory ring,
+   * independent of `enableBuffering`, for `getRecentAudio()` and
+   * `emitRecentAudio()`. The ring holds contiguous audio only: it is
+   * cleared when recording starts or resumes, and kept after `stop()`
+   * until the next `start()`.
+   *
+   * Defaults to 0 (off).
+   */
+  preRollMs?: number;
+  /**
+   * When true, recording resumes on its own once an interruption ends
+   * and the OS reports `shouldResume`. Otherwise the status stays
+   * `interrupted` until `resume()` or `stop()` is called.
+   *
+   * Defaults to false.
+   */
+  autoResumeAfterInterruption?: boolean;
+  /**
+   * `id` of an input from `getInputDevices()`. `start()` rejects with
+   * `device_unavailable` when it is not connected.
+   *
+   * Defaults to the system's current input.
+   */
+  inputDeviceId?: string;
+  /**
+   * Android `AudioRecord` source. When set, only this source is tried;
+   * otherwise `voice_recognition`, `voice_communication` and `mic` are
+   * tried in that order.
+   */
+  androidAudioSource?: AndroidAudioSource;
+  /**
+   * iOS `AVAudioSession` mode. `voiceChat` enables Apple's voice
+   * processing (echo cancellation, AGC); `measurement` turns it off.
+   *
+   * Defaults to `voiceChat`.
+   */
+  iosMode?: IosAudioMode;
+};
+
+/**
+ * - `pcm16`: signed 16‑bit little‑endian, 2 bytes per sample.
+ * - `pcm_f32`: 32‑bit float little‑endian in [-1, 1], 4 bytes per sample.
+ * - `mulaw`, `alaw`: G.711 companded, 1 byte per sample.
+ */
+export type AudioEncoding = "pcm16" | "pcm_f32" | "mulaw" | "alaw";
+
+export type FrameFormat = "base64" | "arraybuffer";
+
+export type AndroidAudioSource =
+  | "voice_recognition"
+  | "voice_communication"
+  | "mic"
+  | "camcorder"
+  | "unprocessed"
+  | "voice_performance";
+
+export type IosAudioMode =
+  | "voiceChat"
+  | "default"
+  | "measurement"
+  | "spokenAudio"
+  | "videoChat"
+  | "videoRecording";
+
+/**
+ * What `start()` actually configured. Resolved by `start()`.
+ */
+export type StreamSessionInfo = {
+  /**
+   * Rate the input runs at, which can differ from the requested one.
+   */
+  sampleRate: number;
+  /**
+   * Channels in each frame, before `downmixToMono`.
+   */
+  channels: number;
+  /**
+   * Input the audio is read from, or null when the platform does not
+   * report it.
+   */
+  inputDevice: AudioInputRoute | null;
+  /**
+   * Source of the `AudioRecord` (Android only).
+   */
+  androidAudioSource?: AndroidAudioSource;
+  /**
+   * Mode of the audio session (iOS only).
+   */
+  iosMode?: IosAudioMode;
+};
+
+/**
+ * Emitted when the OS takes the microphone away from the app and when it
+ * gives it back: a phone call, Siri or another app's session on iOS,
+ * another app capturing on Android 10+. No frames are emitted in between.
+ */
+export type AudioInterruptionEvent = {
+  type: "began" | "ended";
+  /**
+   * On `ended`, whether the OS suggests resuming. Always false on `began`.
+   */
+  shouldResume: boolean;
+  /**
+   * True when recording was resumed automatically because of
+   * `autoResumeAfterInterruption`.
+   */
+  resumed: boolean;
+  /**
+   * Timestamp in milliseconds since the Unix epoch.
+   */
+  timestamp: number;
+};
+
+export type AudioInputRoute = {
+  /**
+   * Platform identifier: the `AVAudioSessionPortDescription` UID on iOS,
+   * the `AudioDeviceInfo` id on Android.
+   */
+  id: string;
+  name: string;
+  /**
+   * Platform port or device type, e.g. `MicrophoneBuiltIn` or
+   * `TYPE_WIRED_HEADSET`.
+   */
+  type: string;
+};
+
+export type AudioInputDevice = AudioInputRoute & {
+  /**
+   * Sample rates the device reports. Empty when the platform does not
+   * tell (iOS, web) or the device accepts any rate (Android).
+   */
+  sampleRates: number[];
+};
+
+/**
+ * - `device_connected`: a new input became available, e.g. a headset.
+ * - `device_disconnected`: the previous input went away.
+ * - `override`, `category_change`, `configuration_change`: iOS session
+ *   changes.
+ * - `unknown`: anything else.
+ */
+export type AudioRouteChangeReason =
+  | "device_connected"
+  | "device_disconnected"
+  | "override"
+  | "category_change"
+  | "configuration_change"
+  | "unknown";
+
+export type AudioRouteChangeEvent = {
+  reason: AudioRouteChangeReason;
+  /**
+   * Input used before the change, or null when unknown.
+   */
+  previousInput: AudioInputRoute | null;
+  /**
+   * Input used after the change, or null when there is none.
+   */
+  currentInput: AudioInputRoute | null;
+  /**
+   * Timestamp in milliseconds since the Unix epoch.
+   */
+  timestamp: number;
 };
 
 export type BufferedAudioSegment = {
@@ -67,13 +333,17 @@ export type BufferedAudioSegment = {
    */
   id: string;
   /**
-   * File URI pointing to a WAV file containing PCM16 mono audio.
+   * File URI pointing to a WAV file containing PCM16 audio.
    */
   uri: string;
   /**
    * Sample rate in Hz used when recording this segment.
    */
   sampleRate: number;
+  /**
+   * Number of interleaved channels in the WAV file.
+   */
+  channels: number;
   /**
    * Timestamp in milliseconds since the Unix epoch when this segment started.
    */
@@ -86,41 +356,350 @@ export type BufferedAudioSegment = {
    * Size of the WAV file on disk, in bytes.
    */
   sizeBytes: number;
+  /**
+   * Lossless copy written by `compressBufferedSegment()`, if any. The WAV
+   * at `uri` is kept for `exportBufferedAudio`; deleting the segment
+   * deletes both files.
+   */
+  compressed?: CompressedSegmentFile;
+};
+
+export type CompressedSegmentFile = {
+  /**
+   * File URI of the compressed audio (a blob: URL on web).
+   */
+  uri: string;
+  /**
+   * MIME type to upload the file with.
+   */
+  mimeType: "audio/flac";
+  /**
+   * Size of the compressed file, in bytes.
+   */
+  sizeBytes: number;
+};
+
+/**
+ * Codes `compressBufferedSegment()` rejects with.
+ *
+ * - `segment_not_found`: no finalized segment has this id, including the
+ *   segment that is still being written.
+ * - `segment_read_failed`: the segment's WAV file could not be read.
+ * - `compression_failed`: encoding or writing the FLAC file failed.
+ */
+export type CompressBufferedSegmentErrorCode =
+  | "segment_not_found"
+  | "segment_read_failed"
+  | "compression_failed";
+
+export type ExportBufferedAudioOptions = {
+  /**
+   * Start of the range in milliseconds since the Unix epoch, on the same
+   * clock as `BufferedAudioSegment.startTimestamp`.
+   */
+  from: number;
+  /**
+   * End of the range (exclusive) in milliseconds since the Unix epoch.
+   */
+  to: number;
+  /**
+   * Container of the exported file.
+   *
+   * Defaults to `wav`.
+   */
+  format?: "wav";
+};
+
+export type ExportedBufferedAudio = {
+  /**
+   * File URI of the exported audio. The file is not tracked as a buffered
+   * segment; delete it once it has been uploaded. On web this is a blob:
+   * URL to release with `URL.revokeObjectURL`.
+   */
+  uri: string;
+  format: "wav";
+  sampleRate: number;
+  channels: number;
+  /**
+   * Timestamp of the first exported sample. Later than `from` when no
+   * audio was buffered at the start of the range.
+   */
+  startTimestamp: number;
+  /**
+   * Timestamp just after the last exported sample. Earlier than `to` when
+   * buffering ended before the end of the range.
+   */
+  endTimestamp: number;
+  durationMs: number;
+  /**
+   * Size of the exported file, in bytes.
+   */
+  sizeBytes: number;
+};
+
+/**
+ * Audio returned by `getRecentAudio()`.
+ */
+export type RecentAudio = {
+  /**
+   * Base64 of the audio: interleaved PCM 16‑bit little‑endian for `pcm`,
+   * a complete file for `wav`. Empty `pcm` when nothing was captured.
+   */
+  base64: string;
+  format: "pcm" | "wav";
+  sampleRate: number;
+  channels: number;
+  /**
+   * Timestamp of the first returned sample, in milliseconds since the
+   * Unix epoch.
+   */
+  startTimestamp: number;
+  durationMs: number;
+};
+
+export type RecentAudioOptions = {
+  /**
+   * Defaults to `pcm`.
+   */
+  format?: "pcm" | "wav";
+};
+
+/**
+ * Codes `exportBufferedAudio()` rejects with.
+ */
+export type ExportBufferedAudioErrorCode =
+  | "invalid_range"
+  | "no_buffered_audio"
+  | "unsupported"
+  | "export_failed";
+
+/**
+ * Level of a block of audio. dB values are relative to full scale and
+ * range from -160 (silence) to 0.
+ */
+export type AudioLevel = {
+  /**
+   * Linear RMS level, 0–1.
+   */
+  rms: number;
+  rmsDb: number;
+  /**
+   * Largest absolute sample, 0–1.
+   */
+  peak: number;
+  peakDb: number;
+  /**
+   * Samples at full scale, across all channels. Any clipping means the
+   * input is too loud.
+   */
+  clippedSamples: number;
+};
+
+/**
+ * Emitted through `onLevel` every `levelIntervalMs`.
+ */
+export type AudioLevelEvent = AudioLevel & {
+  /**
+   * Linear RMS level of each channel, in channel order.
+   */
+  channelLevels: number[];
+  /**
+   * Timestamp of the first measured sample, in milliseconds since the
+   * Unix epoch.
+   */
+  timestamp: number;
+  /**
+   * Length of the measured audio.
+   */
+  durationMs: number;
 };
 
 export type AudioFrameEvent = {
   /**
-   * Base64‑encoded PCM 16‑bit little‑endian audio data.
-   * Consumers can decode this to a Uint8Array or Int16Array as needed.
+   * Base64‑encoded audio data in `encoding` (PCM 16‑bit little‑endian by
+   * default), interleaved when `channels` is 2. Empty when `frameFormat`
+   * is `arraybuffer`.
+   * Consumers can decode this with `decodeFrame` or as needed.
    */
   pcmBase64: string;
+  /**
+   * The same audio data as raw bytes, present instead of `pcmBase64` when
+   * `frameFormat` is `arraybuffer`. `getFrameBytes` reads either form.
+   */
+  data?: Uint8Array;
+  /**
+   * Sample encoding of the audio data.
+   */
+  encoding: AudioEncoding;
   /**
    * Actual sample rate used by the native recorder.
    */
   sampleRate: number;
+  /**
+   * Number of interleaved channels in the audio data.
+   */
+  channels: number;
   /**
    * Timestamp in milliseconds since the Unix epoch.
    */
   timestamp: number;
   /**
-   * Optional power / RMS level for the frame.
+   * Level of the frame, with `enableLevelMeter`.
+   */
+  level?: AudioLevel;
+  /**
+   * Linear RMS level of each captured channel, in channel order. Present
+   * whenever `level` is.
+   */
+  channelLevels?: number[];
+  /**
+   * With `eventBatchMs`, the linear RMS level of each captured frame in this
+   * event, in capture order. Present whenever `level` is.
    */
-  level?: number;
+  subframeLevels?: number[];
+  /**
+   * True for frames replayed from the pre-roll ring by `emitRecentAudio()`.
+   * Their `timestamp` is when they were captured, so it is earlier than
+   * that of frames delivered before them.
+   */
+  preRoll?: boolean;
 };
 
+export type StreamAudioErrorCode =
+  | "permission_denied"
+  | "init_failed"
+  | "read_error"
+  | "session_config_failed"
+  | "engine_start_failed"
+  | "foreground_service_failed"
+  | "buffer_write_failed"
+  | "stop_failed"
+  | "device_unavailable"
+  | "unsupported";
+
+type StreamAudioErrorBase = {
+  /**
+   * Human readable description. Not stable; match on `code` instead.
+   */
+  message: string;
+  /**
+   * True when the error ended (or prevented) the recording.
+   */
+  fatal: boolean;
+  /**
+   * Platform that produced the error.
+   */
+  platform: "ios" | "android" | "web";
+  /**
+   * Platform error code, e.g. an `AudioRecord` read result on Android
+   * or an `NSError` code on iOS.
+   */
+  nativeCode?: number;
+  /**
+   * Platform error domain, e.g. the `NSError` domain on iOS or the
+   * exception class / DOMException name elsewhere.
+   */
+  nativeDomain?: string;
+  /**
+   * Description of the underlying platform error, if any.
+   */
+  nativeMessage?: string;
+};
+
+/**
+ * Error emitted through `onError`. The same `code` values are used for
+ * the `code` property of errors `start()` rejects with.
+ */
+export type StreamAudioError =
+  | (StreamAudioErrorBase & {
+      code: "read_error";
+      /**
+       * Value returned by the failed read (Android `AudioRecord.read`).
+       */
+      nativeCode: number;
+    })
+  | (StreamAudioErrorBase & {
+      code: Exclude<StreamAudioErrorCode, "read_error">;
+    });
+
 export type ExpoStreamAudioModuleEvents = {
   onFrame: (event: AudioFrameEvent) => void;
-  onError: (event: { message: string }) => void;
+  onError: (event: StreamAudioError) => void;
+  onStatusChange: (event: StreamStatusChangeEvent) => void;
+  onInterruption: (event: AudioInterruptionEvent) => void;
+  onRouteChange: (event: AudioRouteChangeEvent) => void;
+  onLevel: (event: AudioLevelEvent) => void;
 };
 
-// Legacy view props (not used by the module exports, but kept
-// to avoid breaking the generated view files and typings).
-export type OnLoadEventPayload = {
-  url: string;
+export type AudioLevelViewProps = {
+  /**
+   * Level to display, e.g. `lastLevel` from `useStreamAudio`. When
+   * omitted the view subscribes to `onLevel` itself, which requires
+   * `levelIntervalMs`.
+   */
+  level?: AudioLevel | null;
+  /**
+   * Number of segments in the meter. Defaults to 20.
+   */
+  barCount?: number;
+  /**
+   * Color of lit segments. Defaults to green.
+   */
+  color?: string;
+  /**
+   * Color of unlit segments. Defaults to a translucent gray.
+   */
+  inactiveColor?: string;
+  /**
+   * Color of the peak segment while the input clips. Defaults to red.
+   */
+  clipColor?: string;
+  /**
+   * How fast the displayed level and the held peak fall, in dB per
+   * second. Defaults to 24.
+   */
+  decay?: number;
+  /**
+   * Level (dBFS) shown as an empty meter. Defaults to -60.
+   */
+  minDb?: number;
+  style?: StyleProp<ViewStyle>;
 };
 
-export type ExpoStreamAudioViewProps = {
-  url: string;
-  onLoad: (event: { nativeEvent: OnLoadEventPayload }) => void;
+export type WaveformViewProps = {
+  /**
+   * Finalized buffered segment to draw in full. When omitted the view
+   * scrolls a live waveform from `onFrame`.
+   */
+  segment?: BufferedAudioSegment | null;
+  /**
+   * Number of bars. Defaults to 64.
+   */
+  barCount?: number;
+  /**
+   * Bar color. Defaults to blue.
+   */
+  color?: string;
+  /**
+   * Span of the live waveform in milliseconds; each bar is the peak of
+   * `windowMs / barCount`. Ignored for `segment`. Defaults to 5000.
+   */
+  windowMs?: number;
+  /**
+   * Envelope release of the live waveform, in dB per second of audio:
+   * each bar is at least the bar before it minus `decay` scaled to the
+   * bar's duration, so short spikes trail off over the following bars.
+   * Bars do not change once drawn. 0 (the default) draws raw peaks.
+   * Ignored for `segment`.
+   */
+  decay?: number;
+  /**
+   * Peak level (dBFS) drawn as a flat bar. Defaults to -60.
+   */
+  minDb?: number;
+  /**
+   * Called when `segment` cannot be read, e.g. after it was deleted.
+   */
+  onError?: (error: unknown) => void;
   style?: StyleProp<ViewStyle>;
 };
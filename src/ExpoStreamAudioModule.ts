@@ -4,19 +4,57 @@ import type {
   ExpoStreamAudioModuleEvents,
   StreamAudioOptions,
   PermissionStatus,
+  Subscription,
   StreamStatus,
+  StreamStatusChangeReason,
+  StreamStatusChangeEvent,
+  AudioInterruptionEvent,
+  AudioInputRoute,
+  AudioRouteChangeReason,
+  AudioRouteChangeEvent,
+  AudioInputDevice,
+  AndroidAudioSource,
+  AudioEncoding,
+  FrameFormat,
+  IosAudioMode,
+  StreamSessionInfo,
   AudioFrameEvent,
+  AudioLevel,
+  AudioLevelEvent,
   BufferedAudioSegment,
+  CompressedSegmentFile,
+  CompressBufferedSegmentErrorCode,
+  StreamAudioError,
+  StreamAudioErrorCode,
+  ExportBufferedAudioOptions,
+  ExportedBufferedAudio,
+  ExportBufferedAudioErrorCode,
+  RecentAudio,
+  RecentAudioOptions,
+  AudioLevelViewProps,
+  WaveformViewProps,
 } from "./ExpoStreamAudio.types";
 
 declare class ExpoStreamAudioModule extends NativeModule<ExpoStreamAudioModuleEvents> {
   requestPermission(): Promise<PermissionStatus>;
-  start(options?: StreamAudioOptions): Promise<void>;
+  start(options?: StreamAudioOptions): Promise<StreamSessionInfo>;
   stop(): Promise<void>;
+  pause(): Promise<void>;
+  resume(): Promise<void>;
   getStatus(): Promise<StreamStatus>;
+  getInputDevices(): Promise<AudioInputDevice[]>;
   setBufferingEnabled(enabled: boolean): Promise<void>;
   getBufferedSegments(): Promise<BufferedAudioSegment[]>;
   clearBufferedSegments(): Promise<void>;
+  deleteBufferedSegments(ids: string[]): Promise<void>;
+  recoverBufferedSegments(): Promise<BufferedAudioSegment[]>;
+  exportBufferedAudio(options: ExportBufferedAudioOptions): Promise<ExportedBufferedAudio>;
+  // Base64 file contents; plumbing for `compressBufferedSegment` in index.ts.
+  readBufferedSegment(id: string): Promise<string>;
+  writeCompressedSegment(id: string, base64: string): Promise<BufferedAudioSegment>;
+  // Always resolves with `pcm`; index.ts wraps it as WAV on request.
+  getRecentAudio(ms?: number): Promise<RecentAudio>;
+  emitRecentAudio(ms?: number): Promise<void>;
 }
 
 // This call loads the native module object from the JSI.
@@ -25,10 +63,36 @@ const module = requireNativeModule<ExpoStreamAudioModule>("ExpoStreamAudio");
 export type {
   StreamAudioOptions,
   PermissionStatus,
+  Subscription,
   StreamStatus,
+  StreamStatusChangeReason,
+  StreamStatusChangeEvent,
+  AudioInterruptionEvent,
+  AudioInputRoute,
+  AudioRouteChangeReason,
+  AudioRouteChangeEvent,
+  AudioInputDevice,
+  AndroidAudioSource,
+  AudioEncoding,
+  FrameFormat,
+  IosAudioMode,
+  StreamSessionInfo,
   AudioFrameEvent,
+  AudioLevel,
+  AudioLevelEvent,
   BufferedAudioSegment,
+  CompressedSegmentFile,
+  CompressBufferedSegmentErrorCode,
   ExpoStreamAudioModuleEvents,
+  StreamAudioError,
+  StreamAudioErrorCode,
+  ExportBufferedAudioOptions,
+  ExportedBufferedAudio,
+  ExportBufferedAudioErrorCode,
+  RecentAudio,
+  RecentAudioOptions,
+  AudioLevelViewProps,
+  WaveformViewProps,
 };
 
 export default module;
@@ -1,29 +1,835 @@
 import { NativeModule, registerWebModule } from "expo";
 
 import type {
+  AudioInputDevice,
+  BufferedAudioSegment,
+  CompressBufferedSegmentErrorCode,
+  ExportBufferedAudioErrorCode,
+  ExportBufferedAudioOptions,
+  ExportedBufferedAudio,
   ExpoStreamAudioModuleEvents,
   PermissionStatus,
+  RecentAudio,
+  StreamAudioErrorCode,
   StreamAudioOptions,
+  StreamSessionInfo,
   StreamStatus,
+  StreamStatusChangeReason,
 } from "./ExpoStreamAudio.types";
+import { LevelMeter, measureLevel } from "./level";
+import { decodeBase64, encodeBase64, int16ToBytes } from "./pcm";
+import { PreRollRing } from "./preRoll";
+import { createResampler, type StreamingResampler } from "./resampler";
+import { buildWavHeader, joinTimedPcm, parseWav, writeWav, type TimedPcm } from "./wav";
+
+const DEFAULT_SAMPLE_RATE = 16000;
+const DEFAULT_FRAME_DURATION_MS = 20;
+const DEFAULT_BUFFER_CHUNK_SECONDS = 300;
+const DEFAULT_MAX_BUFFERED_MINUTES = 60;
+
+// Web capture has no read results, so it never reports `read_error`.
+type WebErrorCode = Exclude<StreamAudioErrorCode, "read_error">;
+
+const CAPTURE_PROCESSOR_NAME = "expo-stream-audio-capture";
+
+// The worklet runs on the audio rendering thread. It downmixes the input to
+// mono (or interleaves it when `channels` is 2) and posts chunks of
+// `chunkSize` sample frames back to the main thread so we don't pay a
+// message round-trip for every 128-sample render quantum.
+const CAPTURE_PROCESSOR_SOURCE = `
+class ExpoStreamAudioCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const processorOptions = options.processorOptions || {};
+    this.channels = processorOptions.channels || 1;
+    this.chunkLength = (processorOptions.chunkSize || 1024) * this.channels;
+    this.buffer = new Float32Array(this.chunkLength);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) {
+      return true;
+    }
+    const channelCount = input.length;
+    const length = input[0].length;
+    for (let i = 0; i < length; i++) {
+      if (this.channels === 1) {
+        let sample = 0;
+        for (let c = 0; c < channelCount; c++) {
+          sample += input[c][i];
+        }
+        this.buffer[this.offset++] = sample / channelCount;
+      } else {
+        for (let c = 0; c < this.channels; c++) {
+          this.buffer[this.offset++] = input[Math.min(c, channelCount - 1)][i];
+        }
+      }
+      if (this.offset === this.chunkLength) {
+        this.port.postMessage(this.buffer);
+        this.buffer = new Float32Array(this.chunkLength);
+        this.offset = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor("${CAPTURE_PROCESSOR_NAME}", ExpoStreamAudioCaptureProcessor);
+`;
+
+type FrameBatch = {
+  // Timestamp of the first frame.
+  timestamp: number;
+  chunks: Int16Array[];
+  length: number;
+  subframeLevels: number[];
+};
+
+class BufferedSegmentWriter {
+  readonly id: string;
+  private readonly chunks: Int16Array<ArrayBuffer>[] = [];
+  bytesWritten = 0;
+
+  constructor(
+    readonly sampleRate: number,
+    readonly channels: number,
+    readonly startTimestamp: number,
+  ) {
+    this.id = createId();
+  }
+
+  append(samples: Int16Array<ArrayBuffer>) {
+    this.chunks.push(samples);
+    this.bytesWritten += samples.byteLength;
+  }
+
+  samples(): Int16Array {
+    const samples = new Int16Array(this.bytesWritten / 2);
+    let offset = 0;
+    this.chunks.forEach((chunk) => {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return samples;
+  }
+
+  finalizeSegment(): BufferedAudioSegment | null {
+    if (this.bytesWritten <= 0) {
+      return null;
+    }
+
+    const header = buildWavHeader(this.bytesWritten, this.sampleRate, this.channels);
+    const blob = new Blob([header, ...this.chunks], { type: "audio/wav" });
+    const bytesPerSecond = this.sampleRate * 2 * this.channels; // 16‑bit interleaved
+
+    return {
+      id: this.id,
+      uri: URL.createObjectURL(blob),
+      sampleRate: this.sampleRate,
+      channels: this.channels,
+      startTimestamp: this.startTimestamp,
+      durationMs: Math.floor((this.bytesWritten / bytesPerSecond) * 1000),
+      sizeBytes: header.byteLength + this.bytesWritten,
+    };
+  }
+}
 
 class ExpoStreamAudioModule extends NativeModule<ExpoStreamAudioModuleEvents> {
+  // Set from the moment `start()` is called until the session ends.
+  private isRecording = false;
+  // The start in progress, shared by concurrent `start()` calls.
+  private startPromise: Promise<StreamSessionInfo> | null = null;
+  // Bumped when recording stops, so that a start in progress can tell it
+  // was cancelled and release what it acquired.
+  private sessionGeneration = 0;
+  private status: StreamStatus = "idle";
+  private isPaused = false;
+  // Set while the browser or OS mutes the track, e.g. during a call.
+  private isInterrupted = false;
+  private autoResumeAfterInterruption = false;
+  private sampleRate = DEFAULT_SAMPLE_RATE;
+  private frameSamples = 0;
+  // Channels in emitted frames; the input may deliver fewer than requested.
+  private channels = 1;
+  private enableLevelMeter = false;
+  private binaryFrames = false;
+  private sessionInfo: StreamSessionInfo | null = null;
+
+  private mediaStream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private resampler: StreamingResampler | null = null;
+  private pendingFrame: Float32Array = new Float32Array(0);
+  private pendingLength = 0;
+  // Frames coalesced into the next `onFrame` event, see `eventBatchMs`.
+  private eventBatchMs = 0;
+  private pendingBatch: FrameBatch | null = null;
+  private preRoll = new PreRollRing(0);
+  // Accumulates audio for `onLevel`, see `levelIntervalMs`.
+  private levelIntervalMs = 0;
+  private levelMeter: LevelMeter | null = null;
+
+  // Buffering configuration and state
+  private bufferingEnabled = false;
+  private bufferChunkSeconds = DEFAULT_BUFFER_CHUNK_SECONDS;
+  private maxBufferedMinutes = DEFAULT_MAX_BUFFERED_MINUTES;
+  private currentSegmentWriter: BufferedSegmentWriter | null = null;
+  private bufferedSegments: BufferedAudioSegment[] = [];
+
   async requestPermission(): Promise<PermissionStatus> {
-    console.warn("[expo-stream-audio] requestPermission is not supported on web.");
-    return "denied";
+    if (typeof navigator === "undefined" || !navigator.mediaDevices?.getUserMedia) {
+      return "denied";
+    }
+    try {
+      const status = await navigator.permissions.query({ name: "microphone" as PermissionName });
+      switch (status.state) {
+        case "granted":
+          return "granted";
+        case "denied":
+          return "denied";
+        default:
+          return "undetermined";
+      }
+    } catch {
+      // Firefox and older Safari do not expose the microphone permission.
+      return "undetermined";
+    }
+  }
+
+  async start(options: StreamAudioOptions = {}): Promise<StreamSessionInfo> {
+    if (this.startPromise) {
+      return this.startPromise;
+    }
+    if (this.isRecording && this.sessionInfo) {
+      return this.sessionInfo;
+    }
+
+    // Claimed before the first await so that concurrent calls share this
+    // start and `stop()` can cancel it.
+    this.isRecording = true;
+    this.setStatus("starting", "user");
+    const generation = ++this.sessionGeneration;
+    this.startPromise = this.startSession(options, generation);
+    try {
+      return await this.startPromise;
+    } finally {
+      this.startPromise = null;
+    }
+  }
+
+  private async startSession(
+    options: StreamAudioOptions,
+    generation: number,
+  ): Promise<StreamSessionInfo> {
+    const cancelled = () => generation !== this.sessionGeneration;
+    try {
+      if (typeof navigator === "undefined" || !navigator.mediaDevices?.getUserMedia) {
+        this.fail("unsupported", "Microphone capture is not available in this browser.");
+      }
+      if (typeof AudioWorkletNode === "undefined") {
+        this.fail("unsupported", "AudioWorklet is not available in this browser.");
+      }
+
+      this.sampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+      const frameDurationMs = options.frameDurationMs ?? DEFAULT_FRAME_DURATION_MS;
+      this.frameSamples = Math.max(1, Math.round((this.sampleRate * frameDurationMs) / 1000));
+      this.channels = options.channels === 2 ? 2 : 1;
+      this.enableLevelMeter = options.enableLevelMeter ?? false;
+      this.binaryFrames = options.frameFormat === "arraybuffer";
+      this.eventBatchMs = options.eventBatchMs && options.eventBatchMs > 0 ? options.eventBatchMs : 0;
+      this.autoResumeAfterInterruption = options.autoResumeAfterInterruption ?? false;
+      this.preRoll = new PreRollRing(options.preRollMs ?? 0);
+      this.levelIntervalMs =
+        options.levelIntervalMs && options.levelIntervalMs > 0 ? options.levelIntervalMs : 0;
+
+      this.bufferingEnabled = options.enableBuffering ?? false;
+      this.bufferChunkSeconds =
+        options.bufferChunkSeconds && options.bufferChunkSeconds > 0
+          ? options.bufferChunkSeconds
+          : DEFAULT_BUFFER_CHUNK_SECONDS;
+      this.maxBufferedMinutes =
+        options.maxBufferedMinutes && options.maxBufferedMinutes > 0
+          ? options.maxBufferedMinutes
+          : DEFAULT_MAX_BUFFERED_MINUTES;
+
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            channelCount: this.channels,
+            echoCancellation: true,
+            noiseSuppression: true,
+            autoGainControl: true,
+            ...(options.inputDeviceId ? { deviceId: { exact: options.inputDeviceId } } : {}),
+          },
+        });
+      } catch (error) {
+        const code = getUserMediaErrorCode(error);
+        this.fail(
+          code,
+          code === "permission_denied"
+            ? "Microphone permission denied."
+            : `Failed to access microphone: ${describeError(error)}`,
+          error,
+        );
+      }
+
+      let started = false;
+      try {
+        started = !cancelled() && (await this.startRecordingInternal(stream, cancelled));
+      } catch (error) {
+        stream.getTracks().forEach((track) => track.stop());
+        this.teardownGraph();
+        this.fail("init_failed", `Failed to start audio capture: ${describeError(error)}`, error);
+      }
+      if (!started) {
+        stream.getTracks().forEach((track) => track.stop());
+        this.teardownGraph();
+        this.fail("init_failed", "Recording was stopped before it started.");
+      }
+
+      const [track] = stream.getAudioTracks();
+      this.sessionInfo = {
+        sampleRate: this.sampleRate,
+        channels: this.channels,
+        inputDevice: track
+          ? { id: track.getSettings().deviceId ?? "", name: track.label, type: "audioinput" }
+          : null,
+      };
+      return this.sessionInfo;
+    } catch (error) {
+      if (!cancelled()) {
+        this.isRecording = false;
+        this.setStatus("idle", "start_failed");
+      }
+      throw error;
+    }
   }
 
-  async start(_options?: StreamAudioOptions): Promise<void> {
-    console.warn("[expo-stream-audio] start is not supported on web.");
+  async getInputDevices(): Promise<AudioInputDevice[]> {
+    if (typeof navigator === "undefined" || !navigator.mediaDevices?.enumerateDevices) {
+      return [];
+    }
+    // Labels stay empty until microphone permission has been granted.
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter((device) => device.kind === "audioinput")
+      .map((device) => ({
+        id: device.deviceId,
+        name: device.label,
+        type: "audioinput",
+        sampleRates: [],
+      }));
   }
 
   async stop(): Promise<void> {
-    console.warn("[expo-stream-audio] stop is not supported on web.");
+    const pending = this.startPromise;
+    this.stopRecordingInternal();
+    // Resolve once a cancelled start has released the microphone.
+    await pending?.catch(() => {});
+  }
+
+  async pause(): Promise<void> {
+    if (!this.isRecording || this.startPromise || this.isPaused) return;
+    this.isPaused = true;
+    this.flushFrameBatch();
+    // Close the segment so the one started after `resume` gets its own
+    // start timestamp and the gap isn't hidden inside a single blob.
+    this.finalizeCurrentSegmentIfNeeded();
+    this.setStatus("paused", "user");
+  }
+
+  async resume(): Promise<void> {
+    if (!this.isRecording || this.startPromise || (!this.isPaused && !this.isInterrupted)) {
+      return;
+    }
+    // Audio before the pause must not be joined to audio after it.
+    this.pendingLength = 0;
+    this.resampler?.reset();
+    this.preRoll.clear();
+    this.levelMeter?.reset();
+    this.isPaused = false;
+    this.isInterrupted = false;
+    this.setStatus("recording", "user");
   }
 
   async getStatus(): Promise<StreamStatus> {
-    return "idle";
+    return this.status;
+  }
+
+  async setBufferingEnabled(enabled: boolean): Promise<void> {
+    this.bufferingEnabled = enabled;
+    if (!enabled) {
+      this.finalizeCurrentSegmentIfNeeded();
+    }
+  }
+
+  async getBufferedSegments(): Promise<BufferedAudioSegment[]> {
+    return this.bufferedSegments.map((segment) => ({ ...segment }));
+  }
+
+  async clearBufferedSegments(): Promise<void> {
+    this.currentSegmentWriter = null;
+    this.bufferedSegments.forEach(revokeSegmentUrls);
+    this.bufferedSegments = [];
   }
+
+  async deleteBufferedSegments(ids: string[]): Promise<void> {
+    const idSet = new Set(ids);
+    this.bufferedSegments = this.bufferedSegments.filter((segment) => {
+      if (!idSet.has(segment.id)) return true;
+      revokeSegmentUrls(segment);
+      return false;
+    });
+  }
+
+  async recoverBufferedSegments(): Promise<BufferedAudioSegment[]> {
+    // Segments live in memory on web, so nothing survives a reload.
+    return this.getBufferedSegments();
+  }
+
+  async readBufferedSegment(id: string): Promise<string> {
+    const segment = this.findBufferedSegment(id);
+    try {
+      const response = await fetch(segment.uri);
+      return encodeBase64(new Uint8Array(await response.arrayBuffer()));
+    } catch (error) {
+      throw codedError("segment_read_failed", `Failed to read buffered segment: ${describeError(error)}`, error);
+    }
+  }
+
+  async writeCompressedSegment(id: string, base64: string): Promise<BufferedAudioSegment> {
+    const segment = this.findBufferedSegment(id);
+    const bytes = decodeBase64(base64);
+    if (segment.compressed) {
+      URL.revokeObjectURL(segment.compressed.uri);
+    }
+    segment.compressed = {
+      uri: URL.createObjectURL(new Blob([bytes.slice()], { type: "audio/flac" })),
+      mimeType: "audio/flac",
+      sizeBytes: bytes.byteLength,
+    };
+    return { ...segment };
+  }
+
+  async getRecentAudio(ms?: number): Promise<RecentAudio> {
+    return this.preRoll.read(ms, {
+      sampleRate: this.sampleRate,
+      channels: this.channels,
+      startTimestamp: Date.now(),
+    });
+  }
+
+  async emitRecentAudio(ms?: number): Promise<void> {
+    // Deliver batched frames first so the replay is directly followed by
+    // the next live frame.
+    this.flushFrameBatch();
+    this.preRoll.recent(ms).forEach((frame) => {
+      this.sendFrameEvent(frame.samples, frame.startTimestamp, undefined, true);
+    });
+  }
+
+  async exportBufferedAudio(options: ExportBufferedAudioOptions): Promise<ExportedBufferedAudio> {
+    const { from, to, format = "wav" } = options;
+    if (!(to > from)) {
+      throw codedError("invalid_range", `Invalid export range: ${from} - ${to}.`);
+    }
+    if (format !== "wav") {
+      throw codedError("unsupported", `Unsupported export format: ${format}.`);
+    }
+
+    const writer = this.currentSegmentWriter;
+    let sources: TimedPcm[];
+    try {
+      sources = await Promise.all(
+        this.bufferedSegments
+          .filter((segment) => segment.startTimestamp < to && segment.startTimestamp + segment.durationMs > from)
+          .map(async (segment) => {
+            const response = await fetch(segment.uri);
+            return { ...parseWav(await response.arrayBuffer()), startTimestamp: segment.startTimestamp };
+          }),
+      );
+      if (writer) {
+        sources.push({
+          samples: writer.samples(),
+          sampleRate: writer.sampleRate,
+          channels: writer.channels,
+          startTimestamp: writer.startTimestamp,
+        });
+      }
+    } catch (error) {
+      throw codedError("export_failed", `Failed to read buffered audio: ${describeError(error)}`, error);
+    }
+
+    let joined: ReturnType<typeof joinTimedPcm>;
+    try {
+      joined = joinTimedPcm(sources, { from, to });
+    } catch (error) {
+      throw codedError("export_failed", describeError(error), error);
+    }
+    if (!joined) {
+      throw codedError("no_buffered_audio", `No buffered audio between ${from} and ${to}.`);
+    }
+
+    const wav = writeWav(joined.samples, joined);
+    return {
+      uri: URL.createObjectURL(new Blob([wav], { type: "audio/wav" })),
+      format: "wav",
+      sampleRate: joined.sampleRate,
+      channels: joined.channels,
+      startTimestamp: joined.startTimestamp,
+      endTimestamp: joined.endTimestamp,
+      durationMs: joined.endTimestamp - joined.startTimestamp,
+      sizeBytes: wav.byteLength,
+    };
+  }
+
+  // Internal helpers
+
+  private findBufferedSegment(id: string): BufferedAudioSegment {
+    const segment = this.bufferedSegments.find((candidate) => candidate.id === id);
+    if (!segment) {
+      throw codedError("segment_not_found", `No buffered segment with id ${id}.`);
+    }
+    return segment;
+  }
+
+  // Resolves false, leaving the teardown to the caller, when `stop()`
+  // cancelled the start while it was waiting on the browser.
+  private async startRecordingInternal(
+    stream: MediaStream,
+    cancelled: () => boolean,
+  ): Promise<boolean> {
+    this.mediaStream = stream;
+    // A mono microphone ignores the `channelCount` constraint.
+    const trackChannels = stream.getAudioTracks()[0]?.getSettings().channelCount;
+    if (trackChannels !== undefined) {
+      this.channels = Math.max(1, Math.min(this.channels, trackChannels));
+    }
+    // Built here so per-channel levels use the channel count actually captured.
+    this.levelMeter =
+      this.levelIntervalMs > 0 ? new LevelMeter(this.channels, this.sampleRate) : null;
+
+    let context: AudioContext;
+    try {
+      context = new AudioContext({ sampleRate: this.sampleRate });
+    } catch {
+      // Some browsers only allow the hardware rate; resample in JS instead.
+      context = new AudioContext();
+    }
+    this.audioContext = context;
+    this.resampler =
+      context.sampleRate !== this.sampleRate
+        ? createResampler({
+            inputRate: context.sampleRate,
+            outputRate: this.sampleRate,
+            channels: this.channels,
+          })
+        : null;
+
+    const moduleUrl = URL.createObjectURL(
+      new Blob([CAPTURE_PROCESSOR_SOURCE], { type: "application/javascript" }),
+    );
+    try {
+      await context.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+    if (cancelled()) return false;
+
+    const contextFrameSamples = Math.round(
+      (this.frameSamples * context.sampleRate) / this.sampleRate,
+    );
+    this.sourceNode = context.createMediaStreamSource(stream);
+    this.workletNode = new AudioWorkletNode(context, CAPTURE_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: this.channels,
+      channelCountMode: "explicit",
+      processorOptions: { chunkSize: Math.max(128, contextFrameSamples), channels: this.channels },
+    });
+    this.workletNode.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      this.handleSamples(event.data);
+    };
+    this.sourceNode.connect(this.workletNode);
+
+    stream.getAudioTracks().forEach((track) => {
+      track.onended = () => {
+        if (!this.isRecording) return;
+        this.sendError("device_unavailable", "Microphone input device was disconnected.", true);
+        this.stopRecordingInternal("read_error");
+      };
+      track.onmute = () => this.handleInterruption(true);
+      track.onunmute = () => this.handleInterruption(false);
+    });
+
+    this.pendingFrame = new Float32Array(this.frameSamples * this.channels);
+    this.pendingLength = 0;
+
+    if (context.state === "suspended") {
+      await context.resume();
+      if (cancelled()) return false;
+    }
+    this.isPaused = false;
+    this.isInterrupted = false;
+    this.setStatus("recording", "user");
+    return true;
+  }
+
+  private stopRecordingInternal(reason: StreamStatusChangeReason = "user") {
+    if (!this.isRecording) return;
+    this.sessionGeneration++;
+    this.flushFrameBatch();
+    this.setStatus("stopping", reason);
+    this.isRecording = false;
+    this.isPaused = false;
+    this.isInterrupted = false;
+    this.teardownGraph();
+    this.finalizeCurrentSegmentIfNeeded();
+    this.setStatus("idle", reason);
+  }
+
+  private handleInterruption(began: boolean) {
+    if (!this.isRecording || this.startPromise) return;
+    if (began && !this.isInterrupted) {
+      this.isInterrupted = true;
+      this.flushFrameBatch();
+      // Close the segment so the gap shows up between segments.
+      this.finalizeCurrentSegmentIfNeeded();
+      this.emit("onInterruption", { type: "began", shouldResume: false, resumed: false, timestamp: Date.now() });
+      this.setStatus("interrupted", "interruption");
+    } else if (!began && this.isInterrupted) {
+      const resumed = this.autoResumeAfterInterruption;
+      if (resumed) {
+        this.isInterrupted = false;
+        this.pendingLength = 0;
+        this.preRoll.clear();
+        this.levelMeter?.reset();
+        this.setStatus(this.isPaused ? "paused" : "recording", "interruption");
+      }
+      this.emit("onInterruption", { type: "ended", shouldResume: true, resumed, timestamp: Date.now() });
+    }
+  }
+
+  private setStatus(status: StreamStatus, reason: StreamStatusChangeReason) {
+    if (status === this.status) return;
+    const previousStatus = this.status;
+    this.status = status;
+    this.emit("onStatusChange", { status, previousStatus, reason, timestamp: Date.now() });
+  }
+
+  private teardownGraph() {
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+      this.workletNode.disconnect();
+      this.workletNode = null;
+    }
+    this.sourceNode?.disconnect();
+    this.sourceNode = null;
+    this.mediaStream?.getTracks().forEach((track) => {
+      track.onended = null;
+      track.onmute = null;
+      track.onunmute = null;
+      track.stop();
+    });
+    this.mediaStream = null;
+    this.audioContext?.close().catch(() => {});
+    this.audioContext = null;
+    this.resampler = null;
+    this.pendingLength = 0;
+  }
+
+  private handleSamples(input: Float32Array) {
+    if (!this.isRecording || this.isPaused || this.isInterrupted) return;
+    const samples = this.resampler ? this.resampler.process(input) : input;
+    const frameLength = this.pendingFrame.length;
+
+    let offset = 0;
+    while (offset < samples.length) {
+      const count = Math.min(frameLength - this.pendingLength, samples.length - offset);
+      this.pendingFrame.set(samples.subarray(offset, offset + count), this.pendingLength);
+      this.pendingLength += count;
+      offset += count;
+
+      if (this.pendingLength === frameLength) {
+        this.emitFrame(this.pendingFrame);
+        this.pendingLength = 0;
+      }
+    }
+  }
+
+  private emitFrame(frame: Float32Array) {
+    const pcm = new Int16Array(frame.length);
+    for (let i = 0; i < frame.length; i++) {
+      pcm[i] = Math.round(Math.max(-1, Math.min(1, frame[i])) * 32767);
+    }
+    const timestamp = Date.now();
+
+    if (this.bufferingEnabled) {
+      this.appendToBuffer(pcm, timestamp);
+    }
+    this.preRoll.push({
+      samples: pcm,
+      sampleRate: this.sampleRate,
+      channels: this.channels,
+      startTimestamp: timestamp,
+    });
+    if (this.levelMeter) {
+      this.levelMeter.add(pcm, timestamp);
+      if (this.levelMeter.durationMs >= this.levelIntervalMs) {
+        this.emit("onLevel", this.levelMeter.event());
+        this.levelMeter.reset();
+      }
+    }
+
+    if (this.eventBatchMs <= 0) {
+      this.sendFrameEvent(pcm, timestamp);
+      return;
+    }
+    const batch = this.pendingBatch ?? { timestamp, chunks: [], length: 0, subframeLevels: [] };
+    this.pendingBatch = batch;
+    batch.chunks.push(pcm);
+    batch.length += pcm.length;
+    if (this.enableLevelMeter) {
+      batch.subframeLevels.push(measureLevel(pcm, this.channels).level.rms);
+    }
+    if ((batch.length / this.channels / this.sampleRate) * 1000 >= this.eventBatchMs) {
+      this.flushFrameBatch();
+    }
+  }
+
+  private flushFrameBatch() {
+    const batch = this.pendingBatch;
+    if (!batch) return;
+    this.pendingBatch = null;
+    const pcm = new Int16Array(batch.length);
+    let offset = 0;
+    batch.chunks.forEach((chunk) => {
+      pcm.set(chunk, offset);
+      offset += chunk.length;
+    });
+    this.sendFrameEvent(pcm, batch.timestamp, this.enableLevelMeter ? batch.subframeLevels : undefined);
+  }
+
+  private sendFrameEvent(
+    pcm: Int16Array,
+    timestamp: number,
+    subframeLevels?: number[],
+    preRoll = false,
+  ) {
+    const channels = this.channels;
+    const measured = this.enableLevelMeter ? measureLevel(pcm, channels) : undefined;
+    const bytes = int16ToBytes(pcm);
+    this.emit("onFrame", {
+      ...(this.binaryFrames ? { pcmBase64: "", data: bytes } : { pcmBase64: encodeBase64(bytes) }),
+      encoding: "pcm16",
+      sampleRate: this.sampleRate,
+      channels,
+      timestamp,
+      level: measured?.level,
+      channelLevels: measured?.channelLevels,
+      subframeLevels,
+      preRoll: preRoll || undefined,
+    });
+  }
+
+  private sendError(code: WebErrorCode, message: string, fatal: boolean, cause?: unknown) {
+    this.emit("onError", {
+      code,
+      message,
+      fatal,
+      platform: "web",
+      nativeDomain: (cause as DOMException | undefined)?.name,
+      nativeMessage: (cause as Error | undefined)?.message,
+    });
+  }
+
+  // Emits a fatal `onError` event and throws the matching error so the
+  // `start` promise rejects with the same code.
+  private fail(code: WebErrorCode, message: string, cause?: unknown): never {
+    this.sendError(code, message, true, cause);
+    throw codedError(code, message, cause);
+  }
+
+  // Buffering helpers
+
+  private appendToBuffer(pcm: Int16Array<ArrayBuffer>, timestamp: number) {
+    if (!this.currentSegmentWriter) {
+      this.currentSegmentWriter = new BufferedSegmentWriter(this.sampleRate, this.channels, timestamp);
+    }
+
+    const writer = this.currentSegmentWriter;
+    writer.append(pcm);
+
+    const durationSeconds = writer.bytesWritten / (writer.sampleRate * 2 * writer.channels);
+    if (durationSeconds >= this.bufferChunkSeconds) {
+      this.finalizeCurrentSegmentIfNeeded();
+    }
+  }
+
+  private finalizeCurrentSegmentIfNeeded() {
+    const writer = this.currentSegmentWriter;
+    if (!writer) return;
+    this.currentSegmentWriter = null;
+    const info = writer.finalizeSegment();
+    if (info) {
+      this.bufferedSegments.push(info);
+      this.enforceMaxBufferedMinutes();
+    }
+  }
+
+  private enforceMaxBufferedMinutes() {
+    const maxMs = this.maxBufferedMinutes * 60_000;
+    let totalMs = this.bufferedSegments.reduce((acc, item) => acc + item.durationMs, 0);
+    while (totalMs > maxMs && this.bufferedSegments.length > 0) {
+      const oldest = this.bufferedSegments.shift()!;
+      revokeSegmentUrls(oldest);
+      totalMs -= oldest.durationMs;
+    }
+  }
+}
+
+function revokeSegmentUrls(segment: BufferedAudioSegment) {
+  URL.revokeObjectURL(segment.uri);
+  if (segment.compressed) {
+    URL.revokeObjectURL(segment.compressed.uri);
+  }
+}
+
+function codedError(
+  code: WebErrorCode | ExportBufferedAudioErrorCode | CompressBufferedSegmentErrorCode,
+  message: string,
+  cause?: unknown,
+): Error {
+  return Object.assign(new Error(message), { code, cause });
+}
+
+function createId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function getUserMediaErrorCode(error: unknown): WebErrorCode {
+  switch ((error as DOMException)?.name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return "permission_denied";
+    case "NotFoundError":
+    case "NotReadableError":
+    case "OverconstrainedError":
+      return "device_unavailable";
+    default:
+      return "init_failed";
+  }
+}
+
+function describeError(error: unknown): string {
+  return (error as Error)?.message ?? "unknown error";
 }
 
 export default registerWebModule(ExpoStreamAudioModule, "ExpoStreamAudioModule");
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from "react";
+
+import AudioBars from "./AudioBars";
+import type { WaveformViewProps } from "./ExpoStreamAudio.types";
+import { addFrameStreamListener } from "./frameStream";
+import { toDb } from "./level";
+import { decodeFrame } from "./pcm";
+import { loadSegmentPeaks, WaveformSlicer } from "./waveform";
+
+/**
+ * Bar waveform of a finished `segment`, or a live waveform scrolling in
+ * from the right while frames arrive. Bar heights are peak levels on a
+ * dB scale from `minDb` to 0 dBFS.
+ */
+export default function WaveformView({
+  segment,
+  barCount = 64,
+  color = "#3b82f6",
+  windowMs = 5000,
+  decay = 0,
+  minDb = -60,
+  onError,
+  style,
+}: WaveformViewProps) {
+  // Peak levels in dBFS, oldest first; at most `barCount` of them.
+  const [peaksDb, setPeaksDb] = useState<number[]>([]);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const segmentId = segment?.id ?? null;
+  useEffect(() => {
+    setPeaksDb([]);
+    if (segmentId !== null) {
+      let cancelled = false;
+      loadSegmentPeaks(segmentId, barCount).then(
+        (peaks) => {
+          if (!cancelled) setPeaksDb(peaks.map(toDb));
+        },
+        (error: unknown) => {
+          if (!cancelled) onErrorRef.current?.(error);
+        },
+      );
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    const sliceMs = windowMs / barCount;
+    const slicer = new WaveformSlicer(sliceMs);
+    let recent: number[] = [];
+    const subscription = addFrameStreamListener((event) => {
+      const frame = decodeFrame(event);
+      const peaks = slicer.add(frame.int16, frame.channels, frame.sampleRate);
+      if (peaks.length === 0) return;
+      const drop = (decay * sliceMs) / 1000;
+      const next = [...recent];
+      peaks.forEach((peak) => {
+        const previous = next.length > 0 ? next[next.length - 1] : -Infinity;
+        next.push(decay > 0 ? Math.max(toDb(peak), previous - drop) : toDb(peak));
+      });
+      recent = next.slice(-barCount);
+      setPeaksDb(recent);
+    });
+    return () => subscription.remove();
+  }, [segmentId, barCount, windowMs, decay]);
+
+  const padding = Math.max(0, barCount - peaksDb.length);
+  const bars = Array.from({ length: barCount }, (_, index) => {
+    const peakDb = index < padding ? minDb : peaksDb[index - padding];
+    return { height: Math.min(1, Math.max(0, (peakDb - minDb) / -minDb)), color };
+  });
+
+  return <AudioBars bars={bars} style={style} />;
+}
@@ -0,0 +1,304 @@
+import { encodeFlac, encodeFlacAsync, wavToFlac } from "../flac";
+import { writeWav } from "../wav";
+
+// A minimal FLAC decoder covering what the encoder writes (constant,
+// verbatim and fixed subframes with Rice residuals, stereo decorrelation),
+// checking every CRC on the way.
+
+type DecodedFlac = {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  totalSamples: number;
+  minBlockSize: number;
+  maxBlockSize: number;
+  samples: Int16Array;
+};
+
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get bytePosition(): number {
+    return this.position >> 3;
+  }
+
+  get done(): boolean {
+    return this.position >= this.bytes.length * 8;
+  }
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const byte = this.bytes[this.position >> 3];
+      value = value * 2 + ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  readSigned(bits: number): number {
+    const value = this.read(bits);
+    return value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+  }
+
+  readUnary(): number {
+    let zeros = 0;
+    while (this.read(1) === 0) zeros++;
+    return zeros;
+  }
+
+  alignToByte() {
+    this.position = Math.ceil(this.position / 8) * 8;
+  }
+}
+
+function crc(bytes: Uint8Array, width: 8 | 16, polynomial: number): number {
+  const top = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  let value = 0;
+  for (const byte of bytes) {
+    value ^= byte << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      value = value & top ? ((value << 1) ^ polynomial) & mask : (value << 1) & mask;
+    }
+  }
+  return value;
+}
+
+function decodeFlac(bytes: Uint8Array): DecodedFlac {
+  const reader = new BitReader(bytes);
+  expect(reader.read(32)).toBe(0x664c6143); // "fLaC"
+
+  let info: Omit<DecodedFlac, "samples"> | null = null;
+  let last = false;
+  while (!last) {
+    last = reader.read(1) === 1;
+    const type = reader.read(7);
+    const length = reader.read(24);
+    if (type !== 0) {
+      reader.read(length * 8);
+      continue;
+    }
+    const minBlockSize = reader.read(16);
+    const maxBlockSize = reader.read(16);
+    reader.read(48); // frame sizes
+    const sampleRate = reader.read(20);
+    const channels = reader.read(3) + 1;
+    const bitsPerSample = reader.read(5) + 1;
+    const totalSamples = reader.read(36);
+    reader.read(128); // MD5
+    info = { sampleRate, channels, bitsPerSample, totalSamples, minBlockSize, maxBlockSize };
+  }
+  if (!info) throw new Error("No STREAMINFO block.");
+
+  const channelData: number[][] = Array.from({ length: info.channels }, () => []);
+  let frameNumber = 0;
+  while (!reader.done) {
+    const frameStart = reader.bytePosition;
+    expect(reader.read(15)).toBe(0x7ffc); // sync code, reserved bit
+    expect(reader.read(1)).toBe(0); // fixed block size
+    const blockSizeCode = reader.read(4);
+    reader.read(4); // sample rate code
+    const assignment = reader.read(4);
+    expect(reader.read(3)).toBe(0b100);
+    reader.read(1);
+    const first = reader.read(8);
+    let extraBytes = 0;
+    while ((first << extraBytes) & 0x80 && extraBytes < 7) extraBytes++;
+    let number = first & (0xff >> (extraBytes + 1));
+    for (let i = 1; i < extraBytes; i++) {
+      number = number * 64 + (reader.read(8) & 0x3f);
+    }
+    expect(number).toBe(frameNumber++);
+    let blockSize: number;
+    if (blockSizeCode === 6) blockSize = reader.read(8) + 1;
+    else if (blockSizeCode === 7) blockSize = reader.read(16) + 1;
+    else if (blockSizeCode >= 8) blockSize = 256 << (blockSizeCode - 8);
+    else throw new Error(`Unexpected block size code ${blockSizeCode}.`);
+    const headerEnd = reader.bytePosition;
+    expect(reader.read(8)).toBe(crc(bytes.subarray(frameStart, headerEnd), 8, 0x07));
+
+    const subframes: number[][] = [];
+    for (let channel = 0; channel < info.channels; channel++) {
+      const isSide =
+        (assignment === 8 && channel === 1) ||
+        (assignment === 9 && channel === 0) ||
+        (assignment === 10 && channel === 1);
+      subframes.push(readSubframe(reader, blockSize, info.bitsPerSample + (isSide ? 1 : 0)));
+    }
+    reader.alignToByte();
+    const frameEnd = reader.bytePosition;
+    expect(reader.read(16)).toBe(crc(bytes.subarray(frameStart, frameEnd), 16, 0x8005));
+
+    if (assignment >= 8) {
+      const [a, b] = subframes;
+      for (let i = 0; i < blockSize; i++) {
+        if (assignment === 8) {
+          b[i] = a[i] - b[i];
+        } else if (assignment === 9) {
+          a[i] = a[i] + b[i];
+        } else {
+          const mid = a[i] * 2 + (b[i] & 1);
+          a[i] = (mid + b[i]) >> 1;
+          b[i] = (mid - b[i]) >> 1;
+        }
+      }
+    }
+    subframes.forEach((subframe, channel) => channelData[channel].push(...subframe));
+  }
+
+  const frames = channelData[0].length;
+  const samples = new Int16Array(frames * info.channels);
+  for (let i = 0; i < frames; i++) {
+    for (let channel = 0; channel < info.channels; channel++) {
+      samples[i * info.channels + channel] = channelData[channel][i];
+    }
+  }
+  return { ...info, samples };
+}
+
+function readSubframe(reader: BitReader, blockSize: number, bitsPerSample: number): number[] {
+  expect(reader.read(1)).toBe(0);
+  const type = reader.read(6);
+  expect(reader.read(1)).toBe(0); // no wasted bits
+  if (type === 0) {
+    return new Array(blockSize).fill(reader.readSigned(bitsPerSample));
+  }
+  if (type === 1) {
+    return Array.from({ length: blockSize }, () => reader.readSigned(bitsPerSample));
+  }
+  if (type < 8 || type > 12) throw new Error(`Unexpected subframe type ${type}.`);
+
+  const order = type - 8;
+  const samples = Array.from({ length: order }, () => reader.readSigned(bitsPerSample));
+  expect(reader.read(2)).toBe(0); // 4-bit Rice parameters
+  const partitionOrder = reader.read(4);
+  const residual: number[] = [];
+  for (let partition = 0; partition < 1 << partitionOrder; partition++) {
+    const parameter = reader.read(4);
+    const count = (blockSize >> partitionOrder) - (partition === 0 ? order : 0);
+    for (let i = 0; i < count; i++) {
+      const folded = reader.readUnary() * 2 ** parameter + reader.read(parameter);
+      residual.push(folded % 2 === 1 ? -(folded + 1) / 2 : folded / 2);
+    }
+  }
+  const coefficients = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]][order];
+  residual.forEach((error) => {
+    const n = samples.length;
+    samples.push(coefficients.reduce((sum, c, j) => sum + c * samples[n - 1 - j], error));
+  });
+  return samples;
+}
+
+// Deterministic pseudo-random samples.
+function noise(length: number, amplitude: number, seed = 1): Int16Array {
+  let state = seed;
+  return Int16Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return Math.round((state / 0x7fffffff - 0.5) * 2 * amplitude);
+  });
+}
+
+function speechLike(frames: number, channels = 1): Int16Array {
+  const hiss = noise(frames * channels, 300);
+  return Int16Array.from({ length: frames * channels }, (_, i) => {
+    const t = Math.floor(i / channels) / 16000;
+    const channelGain = i % channels === 0 ? 1 : 0.8;
+    return Math.round(
+      (Math.sin(2 * Math.PI * 220 * t) * 8000 + Math.sin(2 * Math.PI * 1300 * t) * 2000) *
+        channelGain +
+        hiss[i],
+    );
+  });
+}
+
+describe("encodeFlac", () => {
+  it("round-trips mono audio losslessly and compresses it", () => {
+    const samples = speechLike(16000);
+    const flac = encodeFlac(samples, { sampleRate: 16000 });
+    const decoded = decodeFlac(flac);
+    expect(decoded.samples).toEqual(samples);
+    expect(decoded).toMatchObject({
+      sampleRate: 16000,
+      channels: 1,
+      bitsPerSample: 16,
+      totalSamples: 16000,
+      minBlockSize: 4096,
+      maxBlockSize: 4096,
+    });
+    expect(flac.length).toBeLessThan(samples.byteLength * 0.8);
+  });
+
+  it("round-trips correlated stereo audio", () => {
+    const samples = speechLike(8000, 2);
+    const decoded = decodeFlac(encodeFlac(samples, { sampleRate: 16000, channels: 2 }));
+    expect(decoded.channels).toBe(2);
+    expect(decoded.samples).toEqual(samples);
+  });
+
+  it("round-trips silence, full-scale noise and extremes", () => {
+    const extremes = Int16Array.from({ length: 4096 }, (_, i) => (i % 2 ? 32767 : -32768));
+    for (const samples of [new Int16Array(5000), noise(5000, 32767, 7), extremes]) {
+      expect(decodeFlac(encodeFlac(samples, { sampleRate: 8000 })).samples).toEqual(samples);
+    }
+  });
+
+  it("handles partial final blocks and uncommon block sizes", () => {
+    const samples = speechLike(1000);
+    for (const blockSize of [16, 192, 256, 1000, 4096]) {
+      const decoded = decodeFlac(encodeFlac(samples, { sampleRate: 44100, blockSize }));
+      expect(decoded.samples).toEqual(samples);
+    }
+  });
+
+  it("rejects unsupported options", () => {
+    expect(() => encodeFlac(new Int16Array(4), { sampleRate: 16000, channels: 9 })).toThrow();
+    expect(() => encodeFlac(new Int16Array(3), { sampleRate: 16000, channels: 2 })).toThrow();
+    expect(() => encodeFlac(new Int16Array(4), { sampleRate: 16000, blockSize: 8 })).toThrow();
+  });
+});
+
+describe("encodeFlacAsync", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("writes the same bytes as encodeFlac", async () => {
+    const samples = speechLike(5000, 2);
+    const options = { sampleRate: 16000, channels: 2, blockSize: 1024 };
+    expect(await encodeFlacAsync(samples, options)).toEqual(encodeFlac(samples, options));
+  });
+
+  it("lets the event loop run while encoding", async () => {
+    // Every block appears to take 5 ms.
+    let now = 0;
+    jest.spyOn(Date, "now").mockImplementation(() => (now += 5));
+    let timerRan = false;
+    setTimeout(() => {
+      timerRan = true;
+    }, 0);
+
+    const encoding = encodeFlacAsync(speechLike(1000), { sampleRate: 16000, blockSize: 100 });
+    expect(timerRan).toBe(false);
+    await encoding;
+    expect(timerRan).toBe(true);
+  });
+
+  it("rejects unsupported options", async () => {
+    await expect(
+      encodeFlacAsync(new Int16Array(4), { sampleRate: 16000, channels: 9 }),
+    ).rejects.toThrow("FLAC supports 1 to 8 channels");
+  });
+});
+
+describe("wavToFlac", () => {
+  it("encodes the samples and format of a WAV file", () => {
+    const samples = speechLike(3000, 2);
+    const flac = wavToFlac(writeWav(samples, { sampleRate: 16000, channels: 2 }));
+    const decoded = decodeFlac(flac);
+    expect(decoded.samples).toEqual(samples);
+    expect(decoded.sampleRate).toBe(16000);
+  });
+});
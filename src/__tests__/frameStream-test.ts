@@ -0,0 +1,239 @@
+import type { AudioFrameEvent, StreamAudioOptions } from "../ExpoStreamAudio.types";
+import streamAudioModule from "../ExpoStreamAudioModule";
+import {
+  addFrameStreamListener,
+  configureFrameStream,
+  resetFrameStream,
+  resumeFrameStream,
+  startFrameStream,
+} from "../frameStream";
+import { decodeMulaw, encodeMulaw } from "../g711";
+import {
+  decodeFrame,
+  downmixToMono,
+  encodePcm16Base64,
+  float32ToInt16,
+  getFrameBytes,
+} from "../pcm";
+
+jest.mock("../ExpoStreamAudioModule", () => ({
+  __esModule: true,
+  default: {
+    addListener: jest.fn(() => ({ remove: jest.fn() })),
+    start: jest.fn(async () => ({ sampleRate: 48000, channels: 1, inputDevice: null })),
+    resume: jest.fn(async () => {}),
+  },
+}));
+
+const addListener = streamAudioModule.addListener as jest.Mock;
+
+function emitFrame(event: AudioFrameEvent) {
+  const calls = addListener.mock.calls;
+  const [, listener] = calls[calls.length - 1];
+  listener(event);
+}
+
+// 20 ms of a 440 Hz tone, at half amplitude on the second channel.
+function sineFrame(sampleRate: number, index: number, channels = 1): AudioFrameEvent {
+  const length = (sampleRate * 20) / 1000;
+  const samples = new Float32Array(length * channels);
+  for (let i = 0; i < length; i++) {
+    const sample = Math.sin((2 * Math.PI * 440 * (index * length + i)) / sampleRate) * 0.5;
+    for (let c = 0; c < channels; c++) {
+      samples[i * channels + c] = c === 0 ? sample : sample / 2;
+    }
+  }
+  return {
+    pcmBase64: encodePcm16Base64(float32ToInt16(samples)),
+    encoding: "pcm16",
+    sampleRate,
+    channels,
+    timestamp: index * 20,
+  };
+}
+
+beforeEach(() => {
+  addListener.mockClear();
+});
+
+describe("frame stream", () => {
+  it("passes frames through unchanged without strictSampleRate", () => {
+    configureFrameStream({ sampleRate: 16000 });
+    const listener = jest.fn();
+    const subscription = addFrameStreamListener(listener);
+    const frame = sineFrame(48000, 0);
+    emitFrame(frame);
+    subscription.remove();
+
+    expect(listener).toHaveBeenCalledWith(frame);
+  });
+
+  it("resamples frames to the requested rate with strictSampleRate", () => {
+    configureFrameStream({ sampleRate: 16000, strictSampleRate: true });
+    const frames: AudioFrameEvent[] = [];
+    const subscription = addFrameStreamListener((frame) => frames.push(frame));
+    for (let i = 0; i < 10; i++) {
+      emitFrame(sineFrame(48000, i));
+    }
+    subscription.remove();
+
+    expect(frames.length).toBeGreaterThan(0);
+    frames.forEach((frame) => expect(frame.sampleRate).toBe(16000));
+    // 200 ms at 16 kHz, less what the filter still holds back.
+    const total = frames.reduce((sum, frame) => sum + decodeFrame(frame).sampleCount, 0);
+    expect(total).toBeLessThanOrEqual(3200);
+    expect(total).toBeGreaterThan(3200 - 32);
+  });
+
+  it("starts resampling afresh after a reset", () => {
+    const resampleAfter = (before: AudioFrameEvent | null, reset: boolean) => {
+      configureFrameStream({ sampleRate: 16000, strictSampleRate: true });
+      const frames: AudioFrameEvent[] = [];
+      const subscription = addFrameStreamListener((frame) => frames.push(frame));
+      if (before) emitFrame(before);
+      if (reset) resetFrameStream();
+      frames.length = 0;
+      emitFrame(sineFrame(48000, 10));
+      subscription.remove();
+      return frames.map((frame) => frame.pcmBase64);
+    };
+
+    const fresh = resampleAfter(null, false);
+    expect(resampleAfter(sineFrame(48000, 0), true)).toEqual(fresh);
+    expect(resampleAfter(sineFrame(48000, 0), false)).not.toEqual(fresh);
+  });
+
+  it("configures the stream for the session it starts", async () => {
+    const options: StreamAudioOptions = { sampleRate: 16000, strictSampleRate: true };
+    const frames: AudioFrameEvent[] = [];
+    const subscription = addFrameStreamListener((frame) => frames.push(frame));
+    await expect(startFrameStream(options)).resolves.toMatchObject({ sampleRate: 48000 });
+    expect(streamAudioModule.start).toHaveBeenCalledWith(options);
+
+    emitFrame(sineFrame(48000, 0));
+    subscription.remove();
+    expect(frames.map((frame) => frame.sampleRate)).toEqual([16000]);
+  });
+
+  it("resets the resampler when resuming", async () => {
+    const resumeAfter = async (before: AudioFrameEvent | null) => {
+      configureFrameStream({ sampleRate: 16000, strictSampleRate: true });
+      const frames: AudioFrameEvent[] = [];
+      const subscription = addFrameStreamListener((frame) => frames.push(frame));
+      if (before) emitFrame(before);
+      await resumeFrameStream();
+      frames.length = 0;
+      emitFrame(sineFrame(48000, 10));
+      subscription.remove();
+      return frames.map((frame) => frame.pcmBase64);
+    };
+
+    expect(await resumeAfter(sineFrame(48000, 0))).toEqual(await resumeAfter(null));
+    expect(streamAudioModule.resume).toHaveBeenCalledTimes(2);
+  });
+
+  it("leaves frames already at the requested rate alone", () => {
+    configureFrameStream({ sampleRate: 16000, strictSampleRate: true });
+    const listener = jest.fn();
+    const subscription = addFrameStreamListener(listener);
+    const frame = sineFrame(16000, 0);
+    emitFrame(frame);
+    subscription.remove();
+
+    expect(listener).toHaveBeenCalledWith(frame);
+  });
+
+  it("downmixes stereo frames with downmixToMono", () => {
+    configureFrameStream({ channels: 2, downmixToMono: true });
+    const listener = jest.fn();
+    const subscription = addFrameStreamListener(listener);
+    const frame = sineFrame(16000, 0, 2);
+    emitFrame(frame);
+    subscription.remove();
+
+    const [[mono]] = listener.mock.calls;
+    expect(mono).toMatchObject({ sampleRate: 16000, channels: 1, timestamp: frame.timestamp });
+    expect(decodeFrame(mono).int16).toEqual(downmixToMono(decodeFrame(frame).int16, 2));
+  });
+
+  it("resamples stereo frames per channel", () => {
+    configureFrameStream({ sampleRate: 16000, strictSampleRate: true, channels: 2 });
+    const frames: AudioFrameEvent[] = [];
+    const subscription = addFrameStreamListener((frame) => frames.push(frame));
+    for (let i = 0; i < 5; i++) {
+      emitFrame(sineFrame(48000, i, 2));
+    }
+    subscription.remove();
+
+    const decoded = frames.map(decodeFrame);
+    decoded.forEach((frame) => expect(frame).toMatchObject({ sampleRate: 16000, channels: 2 }));
+    // The second channel stays at half the level of the first.
+    const samples = decoded.flatMap((frame) => Array.from(frame.int16)).slice(200);
+    for (let i = 0; i < samples.length; i += 2) {
+      expect(Math.abs(samples[i] / 2 - samples[i + 1])).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("converts frames to the requested encoding", () => {
+    configureFrameStream({ encoding: "mulaw" });
+    const listener = jest.fn();
+    const subscription = addFrameStreamListener(listener);
+    const frame = sineFrame(8000, 0);
+    emitFrame(frame);
+    subscription.remove();
+
+    const [[converted]] = listener.mock.calls;
+    const decoded = decodeFrame(converted);
+    expect(decoded).toMatchObject({ encoding: "mulaw", sampleRate: 8000, sampleCount: 160 });
+    expect(decoded.bytes).toEqual(encodeMulaw(decodeFrame(frame).int16));
+    expect(decoded.int16).toEqual(decodeMulaw(decoded.bytes));
+  });
+
+  it("encodes after resampling", () => {
+    configureFrameStream({ sampleRate: 8000, strictSampleRate: true, encoding: "pcm_f32" });
+    const frames: AudioFrameEvent[] = [];
+    const subscription = addFrameStreamListener((frame) => frames.push(frame));
+    for (let i = 0; i < 5; i++) {
+      emitFrame(sineFrame(16000, i));
+    }
+    subscription.remove();
+
+    const decoded = frames.map(decodeFrame);
+    decoded.forEach((frame) =>
+      expect(frame).toMatchObject({ encoding: "pcm_f32", sampleRate: 8000 }),
+    );
+    const total = decoded.reduce((sum, frame) => sum + frame.sampleCount, 0);
+    expect(total).toBeLessThanOrEqual(800);
+    expect(total).toBeGreaterThan(780);
+  });
+
+  it("keeps binary frames binary when converting them", () => {
+    configureFrameStream({ sampleRate: 16000, strictSampleRate: true });
+    const frames: AudioFrameEvent[] = [];
+    const subscription = addFrameStreamListener((frame) => frames.push(frame));
+    for (let i = 0; i < 3; i++) {
+      const frame = sineFrame(48000, i);
+      emitFrame({ ...frame, pcmBase64: "", data: getFrameBytes(frame) });
+    }
+    subscription.remove();
+
+    expect(frames.length).toBeGreaterThan(0);
+    frames.forEach((frame) => {
+      expect(frame.pcmBase64).toBe("");
+      expect(frame.data).toBeInstanceOf(Uint8Array);
+      expect(decodeFrame(frame).sampleRate).toBe(16000);
+    });
+  });
+
+  it("shares one native subscription between listeners", () => {
+    const first = addFrameStreamListener(jest.fn());
+    const second = addFrameStreamListener(jest.fn());
+    expect(addListener).toHaveBeenCalledTimes(1);
+
+    const { remove } = addListener.mock.results[0].value;
+    first.remove();
+    expect(remove).not.toHaveBeenCalled();
+    second.remove();
+    expect(remove).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,34 @@
+import { decodeAlaw, decodeMulaw, encodeAlaw, encodeMulaw } from "../g711";
+
+// Every 16-bit value in steps of 7, including both extremes.
+const sweep = Int16Array.from({ length: Math.ceil(65536 / 7) + 1 }, (_, i) =>
+  Math.min(32767, -32768 + i * 7),
+);
+
+describe.each([
+  ["μ-law", encodeMulaw, decodeMulaw],
+  ["A-law", encodeAlaw, decodeAlaw],
+])("%s", (_name, encode, decode) => {
+  it("encodes one byte per sample", () => {
+    expect(encode(sweep)).toHaveLength(sweep.length);
+  });
+
+  it("round-trips within the quantization step of each segment", () => {
+    const restored = decode(encode(sweep));
+    sweep.forEach((sample, i) => {
+      // Steps double with every segment; the error is at most half a step
+      // of ~3% of the magnitude, plus the smallest step near zero.
+      expect(Math.abs(restored[i] - sample)).toBeLessThanOrEqual(Math.abs(sample) / 16 + 64);
+    });
+  });
+
+  it("is stable once quantized", () => {
+    const quantized = decode(encode(sweep));
+    expect(decode(encode(quantized))).toEqual(quantized);
+  });
+
+  it("keeps the sign", () => {
+    const restored = decode(encode(new Int16Array([1000, -1000, 20000, -20000])));
+    expect(Array.from(restored).map(Math.sign)).toEqual([1, -1, 1, -1]);
+  });
+});
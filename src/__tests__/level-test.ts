@@ -0,0 +1,61 @@
+import { LevelMeter, measureLevel } from "../level";
+
+describe("measureLevel", () => {
+  it("reports RMS and peak in linear and dBFS terms", () => {
+    const samples = Int16Array.from({ length: 1600 }, (_, i) =>
+      Math.round(Math.sin((2 * Math.PI * i) / 16) * 16384),
+    );
+    const { level, channelLevels } = measureLevel(samples, 1);
+    expect(level.rms).toBeCloseTo(0.5 / Math.SQRT2, 3);
+    expect(level.rmsDb).toBeCloseTo(-9.03, 1);
+    expect(level.peak).toBeCloseTo(0.5, 3);
+    expect(level.peakDb).toBeCloseTo(-6.02, 1);
+    expect(level.clippedSamples).toBe(0);
+    expect(channelLevels).toEqual([level.rms]);
+  });
+
+  it("floors silence at -160 dB", () => {
+    expect(measureLevel(new Int16Array(160), 1).level).toEqual({
+      rms: 0,
+      rmsDb: -160,
+      peak: 0,
+      peakDb: -160,
+      clippedSamples: 0,
+    });
+  });
+
+  it("counts full-scale samples of either sign as clipped", () => {
+    const { level } = measureLevel(new Int16Array([32767, -32768, 1000, -32767]), 1);
+    expect(level.clippedSamples).toBe(3);
+    expect(level.peak).toBe(1);
+    expect(level.peakDb).toBe(0);
+  });
+
+  it("measures interleaved channels separately", () => {
+    const samples = new Int16Array([16384, 0, -16384, 0, 16384, 0, -16384, 0]);
+    const { level, channelLevels } = measureLevel(samples, 2);
+    expect(channelLevels[0]).toBeCloseTo(0.5, 3);
+    expect(channelLevels[1]).toBe(0);
+    expect(level.rms).toBeCloseTo(0.5 / Math.SQRT2, 3);
+  });
+});
+
+describe("LevelMeter", () => {
+  it("accumulates blocks until reset", () => {
+    const meter = new LevelMeter(1, 16000);
+    meter.add(new Int16Array(160).fill(8192), 1000);
+    meter.add(new Int16Array(160).fill(-16384), 1010);
+    expect(meter.durationMs).toBe(20);
+
+    const event = meter.event();
+    expect(event.timestamp).toBe(1000);
+    expect(event.durationMs).toBe(20);
+    expect(event.peak).toBeCloseTo(0.5, 3);
+    expect(event.rms).toBeCloseTo(Math.sqrt((0.25 ** 2 + 0.5 ** 2) / 2), 3);
+
+    meter.reset();
+    expect(meter.durationMs).toBe(0);
+    meter.add(new Int16Array(160), 1020);
+    expect(meter.event()).toMatchObject({ timestamp: 1020, rms: 0, peak: 0, durationMs: 10 });
+  });
+});
@@ -0,0 +1,690 @@
+import {
+  addErrorListener,
+  addFrameListener,
+  addLevelListener,
+  addInterruptionListener,
+  addRouteChangeListener,
+  addStatusListener,
+  bytesToInt16,
+  clearBufferedSegments,
+  compressBufferedSegment,
+  decodeBase64,
+  decodeFrame,
+  deleteBufferedSegments,
+  emitRecentAudio,
+  exportBufferedAudio,
+  getBufferedSegments,
+  getInputDevices,
+  getRecentAudio,
+  getStatus,
+  mockStreamAudio,
+  parseWav,
+  pause,
+  recoverBufferedSegments,
+  requestPermission,
+  resume,
+  setBufferingEnabled,
+  start,
+  stop,
+  type AudioFrameEvent,
+  type AudioInterruptionEvent,
+  type AudioLevelEvent,
+  type AudioRouteChangeEvent,
+  type BufferedAudioSegment,
+  type StreamAudioError,
+  type StreamStatusChangeEvent,
+  type Subscription,
+  writeWav,
+} from "../mock";
+
+const START_TIME = Date.UTC(2024, 0, 1);
+
+describe("mockStreamAudio", () => {
+  let subscriptions: Subscription[] = [];
+
+  function listen<T>(add: (listener: (event: T) => void) => Subscription): T[] {
+    const events: T[] = [];
+    subscriptions.push(add((event) => events.push(event)));
+    return events;
+  }
+
+  afterEach(async () => {
+    subscriptions.forEach((subscription) => subscription.remove());
+    subscriptions = [];
+    await stop();
+    mockStreamAudio.reset();
+  });
+
+  describe("fake clock", () => {
+    it("only emits frames when advanced", async () => {
+      const frames = listen<AudioFrameEvent>(addFrameListener);
+      await start({ sampleRate: 16000, frameDurationMs: 20 });
+      expect(frames).toHaveLength(0);
+
+      const emitted = mockStreamAudio.advance(100);
+      expect(emitted).toHaveLength(5);
+      expect(frames).toEqual(emitted);
+      expect(frames.map((frame) => frame.timestamp)).toEqual(
+        [0, 20, 40, 60, 80].map((ms) => START_TIME + ms),
+      );
+      expect(mockStreamAudio.now).toBe(START_TIME + 100);
+    });
+
+    it("holds back partial frames until they complete", async () => {
+      await start({ frameDurationMs: 20 });
+      expect(mockStreamAudio.advance(30)).toHaveLength(1);
+      const [frame] = mockStreamAudio.advance(10);
+      expect(frame.timestamp).toBe(START_TIME + 20);
+    });
+
+    it("starts from the configured time", async () => {
+      mockStreamAudio.configure({ startTime: 5_000 });
+      await start({ frameDurationMs: 10 });
+      expect(mockStreamAudio.advance(10)[0].timestamp).toBe(5_000);
+    });
+  });
+
+  describe("frames", () => {
+    it("carries the configured source at the requested rate", async () => {
+      mockStreamAudio.configure({ source: { type: "sine", frequency: 1000, amplitude: 0.5 } });
+      await start({ sampleRate: 8000, frameDurationMs: 20 });
+
+      const [frame] = mockStreamAudio.advance(20);
+      expect(frame.sampleRate).toBe(8000);
+      const { float32 } = decodeFrame(frame);
+      expect(float32).toHaveLength(160);
+      float32.forEach((sample, i) => {
+        expect(sample).toBeCloseTo(0.5 * Math.sin((2 * Math.PI * 1000 * i) / 8000), 3);
+      });
+    });
+
+    it("plays PCM sources sample for sample", async () => {
+      const samples = Int16Array.from({ length: 320 }, (_, i) => i * 50 - 8000);
+      mockStreamAudio.configure({ source: { type: "pcm", samples } });
+      await start({ sampleRate: 16000, frameDurationMs: 10 });
+
+      const frames = mockStreamAudio.advance(30);
+      const played = frames.map((frame) => decodeFrame(frame).int16);
+      expect(Array.from(played[0])).toEqual(Array.from(samples.subarray(0, 160)));
+      expect(Array.from(played[1])).toEqual(Array.from(samples.subarray(160)));
+      expect(played[2].every((sample) => sample === 0)).toBe(true);
+    });
+
+    it("plays PCM and WAV sources bit-exact, full scale included", async () => {
+      const samples = Int16Array.from([32767, -32768, 32766, 1, -1, 0, 12345, -12345, 2, 3]);
+      const wav = writeWav(samples, { sampleRate: 8000, channels: 1 });
+      for (const source of [
+        { type: "pcm" as const, samples, loop: true },
+        { type: "wav" as const, data: wav, loop: true },
+      ]) {
+        mockStreamAudio.configure({ source });
+        await start({ sampleRate: 8000, frameDurationMs: 1 });
+        // 8 samples per frame, so the second frame wraps around the source.
+        const played = mockStreamAudio.advance(2).map((frame) => decodeFrame(frame).int16);
+        expect([...played[0], ...played[1]]).toEqual([...samples, ...samples].slice(0, 16));
+        await stop();
+      }
+    });
+
+    it("mixes stereo sources into mono streams", async () => {
+      const samples = Int16Array.from([32767, 32767, -32768, -32768, 1000, 0]);
+      mockStreamAudio.configure({ source: { type: "pcm", samples, channels: 2 } });
+      await start({ sampleRate: 8000, frameDurationMs: 1 });
+
+      const [frame] = mockStreamAudio.advance(1);
+      expect(Array.from(decodeFrame(frame).int16)).toEqual([32767, -32768, 500, 0, 0, 0, 0, 0]);
+    });
+
+    it("falls back to the hardware rate and channel count", async () => {
+      mockStreamAudio.configure({ hardwareSampleRate: 48000, inputChannels: 1 });
+      const session = await start({ sampleRate: 16000, channels: 2, frameDurationMs: 20 });
+      expect(session).toMatchObject({ sampleRate: 48000, channels: 1 });
+      const [frame] = mockStreamAudio.advance(20);
+      expect(frame).toMatchObject({ sampleRate: 48000, channels: 1 });
+      expect(decodeFrame(frame).sampleCount).toBe(960);
+    });
+
+    it("delivers frames in the requested encoding", async () => {
+      const frames = listen<AudioFrameEvent>(addFrameListener);
+      await start({ sampleRate: 8000, frameDurationMs: 20, encoding: "alaw" });
+      mockStreamAudio.advance(20);
+
+      expect(frames).toHaveLength(1);
+      expect(decodeFrame(frames[0])).toMatchObject({ encoding: "alaw", sampleCount: 160 });
+    });
+
+    it("delivers raw bytes with frameFormat arraybuffer", async () => {
+      const samples = Int16Array.from({ length: 160 }, (_, i) => i * 100 - 8000);
+      mockStreamAudio.configure({ source: { type: "pcm", samples } });
+      await start({ frameDurationMs: 10, frameFormat: "arraybuffer" });
+
+      const [frame] = mockStreamAudio.advance(10);
+      expect(frame.pcmBase64).toBe("");
+      expect(frame.data).toBeInstanceOf(Uint8Array);
+      expect(decodeFrame(frame).int16).toEqual(samples);
+    });
+
+    it("plays stereo PCM sources with their channels", async () => {
+      const samples = Int16Array.from({ length: 320 }, (_, i) => (i % 2 ? -i : i) * 10);
+      mockStreamAudio.configure({ source: { type: "pcm", samples, channels: 2 } });
+      await start({ channels: 2, frameDurationMs: 10, enableLevelMeter: true });
+
+      const [frame] = mockStreamAudio.advance(10);
+      expect(frame.channels).toBe(2);
+      expect(Array.from(decodeFrame(frame).int16)).toEqual(Array.from(samples));
+      expect(frame.channelLevels).toHaveLength(2);
+    });
+
+    it("reports the frame level when the level meter is enabled", async () => {
+      mockStreamAudio.configure({ source: { type: "sine", amplitude: 0.5 } });
+      await start({ enableLevelMeter: true, frameDurationMs: 100 });
+      const [frame] = mockStreamAudio.advance(100);
+      expect(frame.level?.rms).toBeCloseTo(0.5 / Math.SQRT2, 2);
+      expect(frame.level?.rmsDb).toBeCloseTo(-9.03, 1);
+      expect(frame.level?.peak).toBeCloseTo(0.5, 2);
+      expect(frame.level?.clippedSamples).toBe(0);
+    });
+  });
+
+  describe("levelIntervalMs", () => {
+    it("emits the level of each interval without the frame meter", async () => {
+      mockStreamAudio.configure({ source: { type: "sine", amplitude: 0.5 } });
+      const levels = listen<AudioLevelEvent>(addLevelListener);
+      await start({ frameDurationMs: 20, levelIntervalMs: 100 });
+      const [frame] = mockStreamAudio.advance(250);
+
+      expect(frame.level).toBeUndefined();
+      expect(levels.map((event) => [event.timestamp, event.durationMs])).toEqual([
+        [START_TIME, 100],
+        [START_TIME + 100, 100],
+      ]);
+      expect(levels[0].rms).toBeCloseTo(0.5 / Math.SQRT2, 2);
+      expect(levels[0].channelLevels).toHaveLength(1);
+    });
+
+    it("counts clipped samples", async () => {
+      mockStreamAudio.configure({ source: { type: "sine", amplitude: 2 } });
+      const levels = listen<AudioLevelEvent>(addLevelListener);
+      await start({ frameDurationMs: 20, levelIntervalMs: 20 });
+      mockStreamAudio.advance(20);
+
+      expect(levels[0]).toMatchObject({ peak: 1, peakDb: 0 });
+      expect(levels[0].clippedSamples).toBeGreaterThan(0);
+    });
+
+    it("starts a fresh interval after resume", async () => {
+      const levels = listen<AudioLevelEvent>(addLevelListener);
+      await start({ frameDurationMs: 20, levelIntervalMs: 100 });
+      mockStreamAudio.advance(60);
+      await pause();
+      await resume();
+      mockStreamAudio.advance(100);
+      expect(levels.map((event) => event.timestamp)).toEqual([START_TIME + 60]);
+    });
+  });
+
+  describe("eventBatchMs", () => {
+    it("coalesces frames into batches with per-frame levels", async () => {
+      const samples = Int16Array.from({ length: 3200 }, (_, i) => ((i * 37) % 2000) - 1000);
+      mockStreamAudio.configure({ source: { type: "pcm", samples } });
+      await start({ frameDurationMs: 20, eventBatchMs: 100, enableLevelMeter: true });
+
+      const batches = mockStreamAudio.advance(200);
+      expect(batches.map((batch) => batch.timestamp)).toEqual([START_TIME, START_TIME + 100]);
+      batches.forEach((batch) => {
+        expect(decodeFrame(batch).durationMs).toBe(100);
+        expect(batch.subframeLevels).toHaveLength(5);
+      });
+      const replayed = batches.flatMap((batch) => Array.from(decodeFrame(batch).int16));
+      expect(replayed).toEqual(Array.from(samples));
+    });
+
+    it("delivers a partial batch on stop", async () => {
+      const frames = listen<AudioFrameEvent>(addFrameListener);
+      await start({ frameDurationMs: 20, eventBatchMs: 100 });
+      expect(mockStreamAudio.advance(60)).toEqual([]);
+
+      await stop();
+      expect(frames).toHaveLength(1);
+      expect(decodeFrame(frames[0]).durationMs).toBe(60);
+      expect(frames[0].subframeLevels).toBeUndefined();
+    });
+  });
+
+  describe("input devices", () => {
+    const headset = {
+      id: "headset",
+      name: "Wired Headset",
+      type: "HeadsetMic",
+      sampleRates: [],
+    };
+
+    it("starts on the first device and reports the session", async () => {
+      expect(await getInputDevices()).toEqual([
+        {
+          id: "mock-mic",
+          name: "Mock Microphone",
+          type: "MicrophoneBuiltIn",
+          sampleRates: [16000, 44100, 48000],
+        },
+      ]);
+      expect(await start({ iosMode: "measurement" })).toEqual({
+        sampleRate: 16000,
+        channels: 1,
+        inputDevice: { id: "mock-mic", name: "Mock Microphone", type: "MicrophoneBuiltIn" },
+        iosMode: "measurement",
+      });
+    });
+
+    it("starts on the selected device", async () => {
+      mockStreamAudio.configure({
+        platform: "android",
+        inputDevices: [(await getInputDevices())[0], headset],
+      });
+      expect(await start({ inputDeviceId: "headset" })).toEqual({
+        sampleRate: 16000,
+        channels: 1,
+        inputDevice: { id: "headset", name: "Wired Headset", type: "HeadsetMic" },
+        androidAudioSource: "voice_recognition",
+      });
+    });
+
+    it("rejects devices that are not connected", async () => {
+      await expect(start({ inputDeviceId: "headset" })).rejects.toMatchObject({
+        code: "device_unavailable",
+      });
+      expect(await getStatus()).toBe("idle");
+    });
+  });
+
+  describe("pause / resume", () => {
+    it("stops emitting while paused", async () => {
+      const statuses = listen<StreamStatusChangeEvent>(addStatusListener);
+      await start({ frameDurationMs: 20 });
+      mockStreamAudio.advance(40);
+      await pause();
+      expect(await getStatus()).toBe("paused");
+      expect(mockStreamAudio.advance(100)).toHaveLength(0);
+
+      await resume();
+      const [frame] = mockStreamAudio.advance(20);
+      expect(frame.timestamp).toBe(START_TIME + 140);
+      expect(statuses.map((event) => event.status)).toEqual([
+        "starting",
+        "recording",
+        "paused",
+        "recording",
+      ]);
+    });
+
+    it("finalizes the current segment on pause", async () => {
+      await start({ enableBuffering: true });
+      mockStreamAudio.advance(200);
+      await pause();
+      mockStreamAudio.advance(500);
+      await resume();
+      mockStreamAudio.advance(300);
+      await stop();
+
+      const segments = await getBufferedSegments();
+      expect(segments.map((segment) => segment.startTimestamp)).toEqual([
+        START_TIME,
+        START_TIME + 700,
+      ]);
+      expect(segments.map((segment) => segment.durationMs)).toEqual([200, 300]);
+    });
+  });
+
+  describe("interruptions", () => {
+    it("stops frames while interrupted and resumes on its own when allowed", async () => {
+      const interruptions = listen<AudioInterruptionEvent>(addInterruptionListener);
+      await start({ frameDurationMs: 20, autoResumeAfterInterruption: true });
+      mockStreamAudio.advance(40);
+
+      mockStreamAudio.simulateInterruption("began");
+      expect(await getStatus()).toBe("interrupted");
+      expect(mockStreamAudio.advance(100)).toHaveLength(0);
+
+      mockStreamAudio.simulateInterruption("ended", { shouldResume: true });
+      expect(await getStatus()).toBe("recording");
+      expect(mockStreamAudio.advance(20)).toHaveLength(1);
+      expect(interruptions).toEqual([
+        { type: "began", shouldResume: false, resumed: false, timestamp: START_TIME + 40 },
+        { type: "ended", shouldResume: true, resumed: true, timestamp: START_TIME + 140 },
+      ]);
+    });
+
+    it("stays interrupted until resume() without autoResumeAfterInterruption", async () => {
+      const interruptions = listen<AudioInterruptionEvent>(addInterruptionListener);
+      await start();
+      mockStreamAudio.simulateInterruption("began");
+      mockStreamAudio.simulateInterruption("ended", { shouldResume: true });
+      expect(interruptions[1]).toMatchObject({ shouldResume: true, resumed: false });
+      expect(await getStatus()).toBe("interrupted");
+
+      await resume();
+      expect(await getStatus()).toBe("recording");
+    });
+
+    it("emits route changes", async () => {
+      const changes = listen<AudioRouteChangeEvent>(addRouteChangeListener);
+      mockStreamAudio.simulateRouteChange({ reason: "device_disconnected" });
+      expect(changes).toEqual([
+        {
+          reason: "device_disconnected",
+          previousInput: null,
+          currentInput: { id: "mock-mic", name: "Mock Microphone", type: "MicrophoneBuiltIn" },
+          timestamp: START_TIME,
+        },
+      ]);
+    });
+  });
+
+  describe("status", () => {
+    it("reports transitions with their reason", async () => {
+      const statuses = listen<StreamStatusChangeEvent>(addStatusListener);
+      await start();
+      mockStreamAudio.advance(100);
+      await stop();
+
+      expect(statuses).toEqual([
+        { status: "starting", previousStatus: "idle", reason: "user", timestamp: START_TIME },
+        { status: "recording", previousStatus: "starting", reason: "user", timestamp: START_TIME },
+        {
+          status: "stopping",
+          previousStatus: "recording",
+          reason: "user",
+          timestamp: START_TIME + 100,
+        },
+        { status: "idle", previousStatus: "stopping", reason: "user", timestamp: START_TIME + 100 },
+      ]);
+    });
+
+    it("reports a revoked permission", async () => {
+      const statuses = listen<StreamStatusChangeEvent>(addStatusListener);
+      await start();
+      mockStreamAudio.simulateError({ code: "permission_denied", fatal: true });
+      expect(statuses[statuses.length - 1]).toMatchObject({
+        status: "idle",
+        reason: "permission_revoked",
+      });
+    });
+  });
+
+  describe("buffered segments", () => {
+    it("splits the buffer into chunks and keeps their audio", async () => {
+      mockStreamAudio.configure({ source: { type: "noise", amplitude: 0.3 } });
+      await start({ frameDurationMs: 100, enableBuffering: true, bufferChunkSeconds: 1 });
+      const frames = mockStreamAudio.advance(2500);
+      await stop();
+
+      const segments = await getBufferedSegments();
+      expect(segments.map((segment) => segment.durationMs)).toEqual([1000, 1000, 500]);
+      expect(segments.map((segment) => segment.startTimestamp)).toEqual([
+        START_TIME,
+        START_TIME + 1000,
+        START_TIME + 2000,
+      ]);
+
+      const wav = mockStreamAudio.getSegmentData(segments[1].id)!;
+      const expected = frames
+        .slice(10, 20)
+        .flatMap((frame) => Array.from(decodeFrame(frame).int16));
+      expect(Array.from(bytesToInt16(wav.subarray(44)))).toEqual(expected);
+    });
+
+    it("lists a segment once buffering is turned off", async () => {
+      await start({ enableBuffering: true });
+      mockStreamAudio.advance(200);
+      expect(await getBufferedSegments()).toHaveLength(0);
+
+      await setBufferingEnabled(false);
+      mockStreamAudio.advance(200);
+      const segments = await getBufferedSegments();
+      expect(segments).toHaveLength(1);
+      expect(segments[0].durationMs).toBe(200);
+    });
+
+    it("deletes and clears segments", async () => {
+      await start({ frameDurationMs: 100, enableBuffering: true, bufferChunkSeconds: 1 });
+      mockStreamAudio.advance(3000);
+      await stop();
+
+      const [first, ...rest] = await getBufferedSegments();
+      await deleteBufferedSegments([first.id]);
+      expect(await getBufferedSegments()).toEqual(rest);
+      expect(mockStreamAudio.getSegmentData(first.id)).toBeNull();
+
+      await clearBufferedSegments();
+      expect(await getBufferedSegments()).toEqual([]);
+    });
+  });
+
+  describe("compressBufferedSegment", () => {
+    it("writes a FLAC copy next to the WAV", async () => {
+      mockStreamAudio.configure({ source: { type: "sine", frequency: 440, amplitude: 0.3 } });
+      await start({ enableBuffering: true, bufferChunkSeconds: 1 });
+      mockStreamAudio.advance(1000);
+      await stop();
+
+      const [segment] = await getBufferedSegments();
+      const compressed = await compressBufferedSegment(segment.id);
+      expect(compressed).toMatchObject<Partial<BufferedAudioSegment>>({
+        id: segment.id,
+        uri: segment.uri,
+        compressed: {
+          uri: segment.uri.replace(/\.wav$/, ".flac"),
+          mimeType: "audio/flac",
+          sizeBytes: expect.any(Number),
+        },
+      });
+      expect(await getBufferedSegments()).toEqual([compressed]);
+
+      const flac = mockStreamAudio.getCompressedSegmentData(segment.id)!;
+      expect(String.fromCharCode(...flac.subarray(0, 4))).toBe("fLaC");
+      expect(flac.byteLength).toBe(compressed.compressed!.sizeBytes);
+      expect(flac.byteLength).toBeLessThan(segment.sizeBytes);
+    });
+
+    it("rejects unknown segments", async () => {
+      await start({ enableBuffering: true });
+      mockStreamAudio.advance(200);
+      await expect(compressBufferedSegment("missing")).rejects.toMatchObject({
+        code: "segment_not_found",
+      });
+    });
+  });
+
+  describe("pre-roll", () => {
+    it("returns the last milliseconds of audio as PCM or WAV", async () => {
+      const samples = Int16Array.from({ length: 3200 }, (_, i) => i);
+      mockStreamAudio.configure({ source: { type: "pcm", samples } });
+      await start({ frameDurationMs: 20, preRollMs: 100 });
+      mockStreamAudio.advance(200);
+
+      const pcm = await getRecentAudio(50);
+      expect(pcm).toMatchObject({
+        format: "pcm",
+        startTimestamp: START_TIME + 150,
+        durationMs: 50,
+      });
+      expect(Array.from(bytesToInt16(decodeBase64(pcm.base64)))).toEqual(
+        Array.from(samples.subarray(2400)),
+      );
+
+      const wav = await getRecentAudio(undefined, { format: "wav" });
+      expect(wav).toMatchObject({
+        format: "wav",
+        startTimestamp: START_TIME + 100,
+        durationMs: 100,
+      });
+      const parsed = parseWav(decodeBase64(wav.base64));
+      expect(parsed.sampleRate).toBe(16000);
+      expect(Array.from(parsed.samples)).toEqual(Array.from(samples.subarray(1600)));
+    });
+
+    it("starts over on resume", async () => {
+      await start({ frameDurationMs: 20, preRollMs: 100 });
+      mockStreamAudio.advance(100);
+      await pause();
+      await resume();
+      mockStreamAudio.advance(40);
+      expect(await getRecentAudio()).toMatchObject({
+        startTimestamp: START_TIME + 100,
+        durationMs: 40,
+      });
+    });
+
+    it("replays the ring to frame listeners", async () => {
+      await start({ frameDurationMs: 20, preRollMs: 100 });
+      const live = mockStreamAudio.advance(200);
+      const frames = listen<AudioFrameEvent>(addFrameListener);
+
+      await emitRecentAudio(60);
+      expect(frames.map((frame) => [frame.timestamp, frame.preRoll])).toEqual([
+        [START_TIME + 140, true],
+        [START_TIME + 160, true],
+        [START_TIME + 180, true],
+      ]);
+      expect(frames.map((frame) => frame.pcmBase64)).toEqual(
+        live.slice(-3).map((frame) => frame.pcmBase64),
+      );
+
+      mockStreamAudio.advance(20);
+      expect(frames[3]).toMatchObject({ timestamp: START_TIME + 200, preRoll: undefined });
+    });
+  });
+
+  describe("reset", () => {
+    it("forgets the last session's format and audio", async () => {
+      mockStreamAudio.configure({ source: { type: "sine" } });
+      await start({
+        sampleRate: 48000,
+        channels: 2,
+        preRollMs: 100,
+        levelIntervalMs: 20,
+        eventBatchMs: 100,
+      });
+      mockStreamAudio.advance(50);
+      mockStreamAudio.reset();
+
+      const levels = listen<AudioLevelEvent>(addLevelListener);
+      const frames = listen<AudioFrameEvent>(addFrameListener);
+      expect(await getRecentAudio()).toEqual({
+        base64: "",
+        format: "pcm",
+        sampleRate: 16000,
+        channels: 1,
+        startTimestamp: START_TIME,
+        durationMs: 0,
+      });
+      await stop();
+      expect(frames).toEqual([]);
+      await start({ frameDurationMs: 20 });
+      mockStreamAudio.advance(40);
+      expect(levels).toEqual([]);
+      expect(frames.map((frame) => frame.timestamp)).toEqual([START_TIME, START_TIME + 20]);
+    });
+  });
+
+  describe("recoverBufferedSegments", () => {
+    it("lists the segment interrupted by a process death after recovery", async () => {
+      await start({ frameDurationMs: 100, enableBuffering: true, bufferChunkSeconds: 1 });
+      mockStreamAudio.advance(1500);
+      mockStreamAudio.simulateProcessDeath();
+      expect(await getStatus()).toBe("idle");
+      expect(await getBufferedSegments()).toHaveLength(1);
+
+      const recovered = await recoverBufferedSegments();
+      expect(recovered.map((segment) => segment.durationMs)).toEqual([1000, 500]);
+      expect(recovered[1].startTimestamp).toBe(START_TIME + 1000);
+      expect(await getBufferedSegments()).toEqual(recovered);
+      expect(parseWav(mockStreamAudio.getSegmentData(recovered[1].id)!).frameCount).toBe(8000);
+    });
+  });
+
+  describe("exportBufferedAudio", () => {
+    it("cuts a range across segments, including the one being written", async () => {
+      mockStreamAudio.configure({ source: { type: "noise", amplitude: 0.3 } });
+      await start({ frameDurationMs: 100, enableBuffering: true, bufferChunkSeconds: 1 });
+      const frames = mockStreamAudio.advance(2500);
+
+      const exported = await exportBufferedAudio({ from: START_TIME + 500, to: START_TIME + 2200 });
+      expect(exported).toMatchObject({
+        format: "wav",
+        sampleRate: 16000,
+        startTimestamp: START_TIME + 500,
+        endTimestamp: START_TIME + 2200,
+        durationMs: 1700,
+      });
+
+      const wav = parseWav(mockStreamAudio.getExportData(exported.uri)!);
+      expect(exported.sizeBytes).toBe(44 + wav.samples.byteLength);
+      const expected = frames.flatMap((frame) => Array.from(decodeFrame(frame).int16));
+      expect(Array.from(wav.samples)).toEqual(expected.slice(8000, 35200));
+    });
+
+    it("reports the range actually covered", async () => {
+      await start({ enableBuffering: true });
+      mockStreamAudio.advance(1000);
+      const exported = await exportBufferedAudio({ from: START_TIME - 500, to: START_TIME + 5000 });
+      expect(exported).toMatchObject({
+        startTimestamp: START_TIME,
+        endTimestamp: START_TIME + 1000,
+      });
+    });
+
+    it("rejects empty and invalid ranges", async () => {
+      await start({ enableBuffering: true });
+      mockStreamAudio.advance(1000);
+      await expect(
+        exportBufferedAudio({ from: START_TIME + 500, to: START_TIME + 500 }),
+      ).rejects.toMatchObject({ code: "invalid_range" });
+      await expect(
+        exportBufferedAudio({ from: START_TIME + 2000, to: START_TIME + 3000 }),
+      ).rejects.toMatchObject({ code: "no_buffered_audio" });
+    });
+  });
+
+  describe("errors", () => {
+    it("emits simulated errors and stops on fatal ones", async () => {
+      const errors = listen<StreamAudioError>(addErrorListener);
+      const statuses = listen<StreamStatusChangeEvent>(addStatusListener);
+      await start();
+
+      mockStreamAudio.simulateError({ code: "read_error" });
+      expect(await getStatus()).toBe("recording");
+
+      mockStreamAudio.simulateError({ code: "read_error", fatal: true });
+      expect(await getStatus()).toBe("idle");
+      expect(errors.map((error) => error.fatal)).toEqual([false, true]);
+      expect(statuses.slice(-2).map(({ status, reason }) => [status, reason])).toEqual([
+        ["stopping", "read_error"],
+        ["idle", "read_error"],
+      ]);
+    });
+
+    it("fails the next start once", async () => {
+      const errors = listen<StreamAudioError>(addErrorListener);
+      const statuses = listen<StreamStatusChangeEvent>(addStatusListener);
+      mockStreamAudio.failNextStart({ code: "engine_start_failed", platform: "ios" });
+
+      await expect(start()).rejects.toMatchObject({ code: "engine_start_failed" });
+      expect(errors).toHaveLength(1);
+      expect(await getStatus()).toBe("idle");
+      expect(statuses.map(({ status, reason }) => [status, reason])).toEqual([
+        ["starting", "user"],
+        ["idle", "start_failed"],
+      ]);
+      await expect(start()).resolves.toMatchObject({ sampleRate: 16000 });
+      expect(await getStatus()).toBe("recording");
+    });
+
+    it("rejects start without microphone permission", async () => {
+      mockStreamAudio.configure({ permission: "denied" });
+      expect(await requestPermission()).toBe("denied");
+      await expect(start()).rejects.toMatchObject({ code: "permission_denied" });
+      expect(mockStreamAudio.advance(100)).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import type { AudioEncoding, AudioFrameEvent } from "../ExpoStreamAudio.types";
+import {
+  bytesToInt16,
+  decodeBase64,
+  decodeFrame,
+  decodeAudio,
+  decodePcm16Base64,
+  downmixToMono,
+  encodeAudio,
+  encodeBase64,
+  encodePcm16Base64,
+  float32ToInt16,
+  getFrameBytes,
+  int16ToBytes,
+  int16ToFloat32,
+} from "../pcm";
+
+const ramp = Int16Array.from({ length: 512 }, (_, i) => Math.round(Math.sin(i / 7) * 30000));
+
+describe("base64", () => {
+  it("round-trips every padding length", () => {
+    for (let length = 0; length < 8; length++) {
+      const bytes = Uint8Array.from({ length }, (_, i) => (i * 97 + 13) & 0xff);
+      expect(decodeBase64(encodeBase64(bytes))).toEqual(bytes);
+    }
+  });
+
+  it("matches the standard alphabet and padding", () => {
+    const ascii = (text: string) => Uint8Array.from(text, (char) => char.charCodeAt(0));
+    expect(encodeBase64(ascii("Man"))).toBe("TWFu");
+    expect(encodeBase64(ascii("hello"))).toBe("aGVsbG8=");
+    expect(encodeBase64(new Uint8Array([0xfb, 0xff]))).toBe("+/8=");
+    expect(decodeBase64("aGVsbG8=")).toEqual(ascii("hello"));
+  });
+});
+
+describe("PCM16", () => {
+  it("round-trips samples through little-endian bytes", () => {
+    const bytes = int16ToBytes(ramp);
+    expect(bytes[0]).toBe(ramp[0] & 0xff);
+    expect(bytesToInt16(bytes)).toEqual(ramp);
+    expect(decodePcm16Base64(encodePcm16Base64(ramp))).toEqual(ramp);
+  });
+
+  it("round-trips through float32 within one step", () => {
+    const restored = float32ToInt16(int16ToFloat32(ramp));
+    restored.forEach((sample, i) => expect(Math.abs(sample - ramp[i])).toBeLessThanOrEqual(1));
+  });
+
+  it("clamps out-of-range floats", () => {
+    expect(Array.from(float32ToInt16(new Float32Array([2, -2, 1, -1])))).toEqual([
+      32767, -32768, 32767, -32768,
+    ]);
+  });
+});
+
+describe("encodeAudio / decodeAudio", () => {
+  it.each<[AudioEncoding, number]>([
+    ["pcm16", 0],
+    ["pcm_f32", 1],
+  ])("round-trips %s", (encoding, tolerance) => {
+    const restored = decodeAudio(encodeAudio(ramp, encoding), encoding);
+    expect(restored).toHaveLength(ramp.length);
+    restored.forEach((sample, i) =>
+      expect(Math.abs(sample - ramp[i])).toBeLessThanOrEqual(tolerance),
+    );
+  });
+
+  it.each<[AudioEncoding, number]>([
+    ["pcm16", 2],
+    ["pcm_f32", 4],
+    ["mulaw", 1],
+    ["alaw", 1],
+  ])("sizes %s samples", (encoding, size) => {
+    expect(encodeAudio(ramp, encoding)).toHaveLength(ramp.length * size);
+  });
+});
+
+describe("downmixToMono", () => {
+  it("averages interleaved channels", () => {
+    expect(Array.from(downmixToMono(new Int16Array([100, 300, -50, 50]), 2))).toEqual([200, 0]);
+    expect(Array.from(downmixToMono(new Float32Array([0.5, -0.5, 1, 0]), 2))).toEqual([0, 0.5]);
+  });
+
+  it("returns mono input as is", () => {
+    const samples = new Int16Array([1, 2, 3]);
+    expect(downmixToMono(samples, 1)).toBe(samples);
+  });
+});
+
+describe("decodeFrame", () => {
+  it("decodes a base64 frame and its duration", () => {
+    const samples = ramp.subarray(0, 320);
+    const event: AudioFrameEvent = {
+      pcmBase64: encodePcm16Base64(samples),
+      encoding: "pcm16",
+      sampleRate: 16000,
+      channels: 1,
+      timestamp: 0,
+    };
+    const frame = decodeFrame(event);
+    expect(frame.int16).toEqual(samples);
+    expect(frame.sampleCount).toBe(320);
+    expect(frame.durationMs).toBe(20);
+  });
+
+  it("derives the duration of stereo frames from both channels", () => {
+    const frame = decodeFrame({
+      pcmBase64: encodePcm16Base64(ramp.subarray(0, 320)),
+      encoding: "pcm16",
+      sampleRate: 16000,
+      channels: 2,
+      timestamp: 0,
+    });
+    expect(frame.channels).toBe(2);
+    expect(frame.sampleCount).toBe(320);
+    expect(frame.durationMs).toBe(10);
+  });
+
+  it("reads the bytes of either frame format", () => {
+    const bytes = int16ToBytes(ramp.subarray(0, 160));
+    const base64Frame: AudioFrameEvent = {
+      pcmBase64: encodeBase64(bytes),
+      encoding: "pcm16",
+      sampleRate: 8000,
+      channels: 1,
+      timestamp: 0,
+    };
+    const binaryFrame: AudioFrameEvent = { ...base64Frame, pcmBase64: "", data: bytes };
+    expect(getFrameBytes(base64Frame)).toEqual(bytes);
+    expect(getFrameBytes(binaryFrame)).toBe(bytes);
+    expect(decodeFrame(binaryFrame).int16).toEqual(decodeFrame(base64Frame).int16);
+  });
+
+  it.each<AudioEncoding>(["pcm_f32", "mulaw", "alaw"])("decodes %s frames", (encoding) => {
+    const samples = ramp.subarray(0, 160);
+    const frame = decodeFrame({
+      pcmBase64: encodeBase64(encodeAudio(samples, encoding)),
+      encoding,
+      sampleRate: 8000,
+      channels: 1,
+      timestamp: 0,
+    });
+    expect(frame.encoding).toBe(encoding);
+    expect(frame.sampleCount).toBe(160);
+    expect(frame.durationMs).toBe(20);
+    expect(frame.int16).toEqual(decodeAudio(encodeAudio(samples, encoding), encoding));
+    expect(frame.float32).toHaveLength(160);
+  });
+});
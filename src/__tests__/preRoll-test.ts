@@ -0,0 +1,90 @@
+import { bytesToInt16, decodeBase64 } from "../pcm";
+import { PreRollRing } from "../preRoll";
+import type { TimedPcm } from "../wav";
+
+const SAMPLE_RATE = 1000;
+
+// `ms` milliseconds of audio at 1 kHz whose samples hold the millisecond
+// they were captured at, so positions are easy to check.
+function frame(startMs: number, ms: number, channels = 1): TimedPcm {
+  return {
+    samples: Int16Array.from(
+      { length: ms * channels },
+      (_, i) => startMs + Math.floor(i / channels),
+    ),
+    sampleRate: SAMPLE_RATE,
+    channels,
+    startTimestamp: startMs,
+  };
+}
+
+function fill(ring: PreRollRing, count: number, ms = 20) {
+  for (let i = 0; i < count; i++) {
+    ring.push(frame(i * ms, ms));
+  }
+}
+
+describe("PreRollRing", () => {
+  it("keeps at least the capacity in whole frames", () => {
+    const ring = new PreRollRing(50);
+    fill(ring, 10);
+    expect(ring.recent().map((item) => item.startTimestamp)).toEqual([140, 160, 180]);
+  });
+
+  it("keeps nothing without a capacity", () => {
+    const ring = new PreRollRing(0);
+    fill(ring, 3);
+    expect(ring.recent()).toEqual([]);
+  });
+
+  it("cuts the first frame at a sample boundary", () => {
+    const ring = new PreRollRing(100);
+    fill(ring, 5);
+    const frames = ring.recent(30);
+    expect(frames.map((item) => item.startTimestamp)).toEqual([70, 80]);
+    expect(Array.from(frames[0].samples)).toEqual([70, 71, 72, 73, 74, 75, 76, 77, 78, 79]);
+  });
+
+  it("cuts interleaved frames by sample frame", () => {
+    const ring = new PreRollRing(100);
+    ring.push(frame(0, 20, 2));
+    const [cut] = ring.recent(5);
+    expect(cut.startTimestamp).toBe(15);
+    expect(Array.from(cut.samples)).toEqual([15, 15, 16, 16, 17, 17, 18, 18, 19, 19]);
+  });
+
+  it("starts over when the format changes", () => {
+    const ring = new PreRollRing(100);
+    fill(ring, 3);
+    ring.push({ ...frame(60, 20), sampleRate: 2000 });
+    expect(ring.recent().map((item) => item.startTimestamp)).toEqual([60]);
+  });
+
+  it("joins the recent audio into PCM", () => {
+    const ring = new PreRollRing(100);
+    fill(ring, 5);
+    const audio = ring.read(25, { sampleRate: SAMPLE_RATE, channels: 1, startTimestamp: 0 });
+    expect(audio).toMatchObject({
+      format: "pcm",
+      sampleRate: SAMPLE_RATE,
+      channels: 1,
+      startTimestamp: 75,
+      durationMs: 25,
+    });
+    expect(Array.from(bytesToInt16(decodeBase64(audio.base64)))).toEqual(
+      Array.from({ length: 25 }, (_, i) => 75 + i),
+    );
+  });
+
+  it("describes the stream when empty", () => {
+    const ring = new PreRollRing(100);
+    expect(ring.read(undefined, { sampleRate: 16000, channels: 2, startTimestamp: 42 })).toEqual({
+      base64: "",
+      format: "pcm",
+      sampleRate: 16000,
+      channels: 2,
+      startTimestamp: 42,
+      durationMs: 0,
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import {
+  createRealtimeStreamer,
+  getBufferedSegments,
+  mockStreamAudio,
+  start,
+  stop,
+  type RealtimeOutage,
+  type RealtimeStreamer,
+  type RealtimeStreamerOptions,
+} from "../mock";
+
+const START_TIME = Date.UTC(2024, 0, 1);
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  bufferedAmount = 0;
+  binaryType = "blob";
+  sent: unknown[] = [];
+  closedWith: number | undefined;
+  onopen: (() => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(
+    readonly url: string,
+    readonly protocols?: string | string[],
+  ) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(message: unknown) {
+    this.sent.push(message);
+  }
+
+  close(code?: number) {
+    this.closedWith = code;
+    this.readyState = 3;
+  }
+
+  // Server side
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.();
+  }
+
+  drop(code = 1006, reason = "") {
+    this.readyState = 3;
+    this.onclose?.({ code, reason });
+  }
+}
+
+const createWebSocket = (url: string, protocols?: string | string[]) =>
+  new FakeWebSocket(url, protocols) as unknown as WebSocket;
+
+function latestSocket(): FakeWebSocket {
+  return FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+}
+
+// Frames are sent as their timestamps, which makes the order easy to check.
+const encodeMessage: RealtimeStreamerOptions["encodeMessage"] = (frame) => String(frame.timestamp);
+
+// Move the fake clock of the mock and the timers together.
+async function tick(ms: number) {
+  await jest.advanceTimersByTimeAsync(ms);
+  mockStreamAudio.advance(ms);
+}
+
+describe("createRealtimeStreamer", () => {
+  let streamer: RealtimeStreamer | null = null;
+
+  function createStreamer(options: Partial<RealtimeStreamerOptions> = {}): RealtimeStreamer {
+    streamer = createRealtimeStreamer({
+      url: "wss://example.test/stt",
+      encodeMessage,
+      reconnectPolicy: { initialDelayMs: 1000, jitter: 0 },
+      reconnectOnForeground: false,
+      createWebSocket,
+      ...options,
+    });
+    return streamer;
+  }
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: mockStreamAudio.now });
+    FakeWebSocket.instances = [];
+    await start({ frameDurationMs: 100 });
+  });
+
+  afterEach(async () => {
+    streamer?.stop();
+    streamer = null;
+    await stop();
+    mockStreamAudio.reset();
+    jest.useRealTimers();
+  });
+
+  it("queues frames while connecting and sends them once open", async () => {
+    const onOpen = jest.fn((socket: WebSocket) => {
+      expect((socket as unknown as FakeWebSocket).sent).toEqual([]);
+    });
+    createStreamer({ onOpen, protocols: "stt" }).start();
+    await tick(0);
+    const socket = latestSocket();
+    expect(socket).toMatchObject({ url: "wss://example.test/stt", protocols: "stt" });
+    expect(socket.binaryType).toBe("arraybuffer");
+
+    await tick(300);
+    expect(streamer!.queuedMessages).toBe(3);
+
+    socket.open();
+    expect(onOpen).toHaveBeenCalledTimes(1);
+    expect(streamer!.state.status).toBe("open");
+
+    await tick(100);
+    expect(socket.sent).toEqual([0, 100, 200, 300].map((ms) => String(START_TIME + ms)));
+    expect(streamer!.queuedMessages).toBe(0);
+  });
+
+  it("drops the oldest messages when the queue is full", async () => {
+    createStreamer({ sendQueueSize: 2 }).start();
+    await tick(400);
+    expect(streamer!.state.droppedMessages).toBe(2);
+
+    latestSocket().open();
+    expect(latestSocket().sent).toHaveLength(2);
+  });
+
+  it("buffers natively during an outage and reports its range after reconnecting", async () => {
+    const outages: RealtimeOutage[] = [];
+    createStreamer({ onOutageEnd: (outage) => outages.push(outage) }).start();
+    await tick(0);
+    latestSocket().open();
+    await tick(200);
+
+    const outageStart = Date.now();
+    latestSocket().drop(1006, "gone");
+    expect(streamer!.state).toMatchObject({
+      status: "reconnecting",
+      mode: "buffered",
+      outageStartedAt: outageStart,
+      reconnectAttempt: 1,
+      nextReconnectAt: outageStart + 1000,
+      lastClose: { code: 1006, reason: "gone" },
+    });
+
+    await tick(1000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    await tick(500);
+    const secondSocket = latestSocket();
+    expect(secondSocket.sent).toEqual([]);
+
+    secondSocket.open();
+    await tick(0);
+    expect(outages).toEqual([{ from: outageStart, to: outageStart + 1500, recovered: true }]);
+    expect(streamer!.state).toMatchObject({ mode: "realtime", reconnectAttempt: 0 });
+
+    const [segment] = await getBufferedSegments();
+    expect(segment.startTimestamp).toBe(outageStart);
+    expect(segment.durationMs).toBe(1500);
+
+    await tick(100);
+    expect(secondSocket.sent).toEqual([String(outageStart + 1500)]);
+  });
+
+  it("reports buffering and onOutageEnd failures to onError", async () => {
+    const bufferingError = new Error("Disk full");
+    const outageError = new Error("Upload failed");
+    const setBufferingEnabled = jest
+      .spyOn(mockStreamAudio, "setBufferingEnabled")
+      .mockRejectedValue(bufferingError);
+    const onOutageEnd = jest.fn().mockRejectedValue(outageError);
+    const onError = jest.fn();
+    createStreamer({ onOutageEnd, onError }).start();
+    await tick(0);
+    latestSocket().drop();
+    await tick(1000);
+    latestSocket().open();
+    await tick(0);
+
+    expect(setBufferingEnabled).toHaveBeenCalledTimes(2);
+    expect(onOutageEnd).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls).toEqual([[bufferingError], [bufferingError], [outageError]]);
+    setBufferingEnabled.mockRestore();
+  });
+
+  it("sends messages queued before an outage over the next connection", async () => {
+    createStreamer().start();
+    await tick(0);
+    const firstSocket = latestSocket();
+    firstSocket.open();
+    firstSocket.bufferedAmount = Number.MAX_SAFE_INTEGER;
+    await tick(200);
+    expect(streamer!.queuedMessages).toBe(2);
+
+    const outageStart = Date.now();
+    firstSocket.drop();
+    await tick(1000);
+    latestSocket().open();
+    await tick(100);
+
+    // Frames from the outage itself are left to native buffering.
+    expect(latestSocket().sent).toEqual(
+      [-200, -100, 1000].map((offset) => String(outageStart + offset)),
+    );
+  });
+
+  it("reports URL and socket creation failures and retries them", async () => {
+    const onError = jest.fn();
+    const url = jest
+      .fn<Promise<string>, []>()
+      .mockRejectedValueOnce(new Error("token expired"))
+      .mockResolvedValue("wss://example.test/retry");
+    createStreamer({ url, onError }).start();
+    await tick(0);
+
+    expect(onError).toHaveBeenCalledWith(new Error("token expired"));
+    expect(streamer!.state).toMatchObject({ status: "reconnecting", mode: "buffered" });
+    expect(FakeWebSocket.instances).toHaveLength(0);
+
+    await tick(1000);
+    expect(latestSocket().url).toBe("wss://example.test/retry");
+  });
+
+  it("retries when the socket factory throws", async () => {
+    const onError = jest.fn();
+    let fail = true;
+    createStreamer({
+      onError,
+      createWebSocket: (url, protocols) => {
+        if (fail) throw new SyntaxError("bad url");
+        return createWebSocket(url, protocols);
+      },
+    }).start();
+    await tick(0);
+    expect(onError).toHaveBeenCalledWith(new SyntaxError("bad url"));
+
+    fail = false;
+    await tick(1000);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+
+  it("gives up after maxAttempts until reconnect is called", async () => {
+    createStreamer({
+      reconnectPolicy: { initialDelayMs: 1000, jitter: 0, maxAttempts: 1 },
+    }).start();
+    await tick(0);
+    latestSocket().drop();
+    await tick(1000);
+    latestSocket().drop();
+    expect(streamer!.state.status).toBe("closed");
+
+    await tick(60_000);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+
+    streamer!.reconnect();
+    await tick(0);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+  });
+
+  it("closes the socket and ends the outage when stopped", async () => {
+    const outages: RealtimeOutage[] = [];
+    createStreamer({ onOutageEnd: (outage) => outages.push(outage) }).start();
+    await tick(0);
+    latestSocket().drop();
+    await tick(1000);
+    const socket = latestSocket();
+
+    streamer!.stop();
+    await tick(0);
+    expect(socket.closedWith).toBe(1000);
+    expect(streamer!.state.status).toBe("idle");
+    expect(outages).toEqual([expect.objectContaining({ recovered: false })]);
+  });
+});
@@ -0,0 +1,124 @@
+import { float32ToInt16, int16ToFloat32 } from "../pcm";
+import { createResampler, StreamingResampler } from "../resampler";
+
+function sine(frequency: number, sampleRate: number, length: number, amplitude = 0.5) {
+  return Float32Array.from(
+    { length },
+    (_, i) => Math.sin((2 * Math.PI * frequency * i) / sampleRate) * amplitude,
+  );
+}
+
+function concat(parts: Float32Array[]): Float32Array {
+  const output = new Float32Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function resampleAll(resampler: StreamingResampler, input: Float32Array, chunk = input.length) {
+  const parts: Float32Array[] = [];
+  for (let i = 0; i < input.length; i += chunk) {
+    parts.push(resampler.process(input.subarray(i, i + chunk)));
+  }
+  parts.push(resampler.flush());
+  return concat(parts);
+}
+
+function rms(samples: Float32Array): number {
+  return Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+}
+
+describe("createResampler", () => {
+  it.each([
+    [48000, 16000],
+    [16000, 48000],
+    [44100, 16000],
+    [8000, 11025],
+  ])("produces the expected number of samples for %i -> %i Hz", (inputRate, outputRate) => {
+    const input = sine(440, inputRate, inputRate);
+    const output = resampleAll(createResampler({ inputRate, outputRate }), input);
+    expect(Math.abs(output.length - outputRate)).toBeLessThanOrEqual(2);
+  });
+
+  it("gives the same output however the stream is chunked", () => {
+    const input = sine(1000, 44100, 8000);
+    const whole = resampleAll(createResampler({ inputRate: 44100, outputRate: 16000 }), input);
+    for (const chunk of [1, 7, 160, 1023]) {
+      const chunked = resampleAll(
+        createResampler({ inputRate: 44100, outputRate: 16000 }),
+        input,
+        chunk,
+      );
+      expect(chunked.length).toBe(whole.length);
+      chunked.forEach((sample, i) => expect(Math.abs(sample - whole[i])).toBeLessThan(1e-5));
+    }
+  });
+
+  it.each(["low", "medium", "high"] as const)(
+    "keeps the frequency, phase and level of an in-band tone (%s quality)",
+    (quality) => {
+      const output = resampleAll(
+        createResampler({ inputRate: 48000, outputRate: 16000, quality }),
+        sine(1000, 48000, 48000),
+      );
+      const expected = sine(1000, 16000, output.length);
+      // Skip the filter's start-up and drain at both ends.
+      let maxError = 0;
+      for (let i = 100; i < output.length - 100; i++) {
+        maxError = Math.max(maxError, Math.abs(output[i] - expected[i]));
+      }
+      expect(maxError).toBeLessThan(quality === "low" ? 0.02 : 0.005);
+    },
+  );
+
+  it("filters out tones above the output Nyquist frequency", () => {
+    const output = resampleAll(
+      createResampler({ inputRate: 48000, outputRate: 16000 }),
+      sine(12000, 48000, 48000),
+    );
+    expect(rms(output.subarray(100, -100))).toBeLessThan(0.005);
+  });
+
+  it("converts PCM 16-bit samples like float samples", () => {
+    const input = float32ToInt16(sine(300, 16000, 4000));
+    const options = { inputRate: 16000, outputRate: 22050 };
+    const int16Output = createResampler(options).processInt16(input);
+    const floatOutput = createResampler(options).process(int16ToFloat32(input));
+    expect(int16Output).toEqual(float32ToInt16(floatOutput));
+  });
+
+  it("resamples interleaved channels independently", () => {
+    const left = sine(500, 32000, 6400);
+    const interleaved = new Float32Array(left.length * 2);
+    left.forEach((sample, i) => (interleaved[i * 2] = sample));
+
+    const stereo = resampleAll(
+      createResampler({ inputRate: 32000, outputRate: 16000, channels: 2 }),
+      interleaved,
+      334,
+    );
+    const mono = resampleAll(createResampler({ inputRate: 32000, outputRate: 16000 }), left, 167);
+    expect(stereo.length).toBe(mono.length * 2);
+    mono.forEach((sample, i) => {
+      expect(stereo[i * 2]).toBeCloseTo(sample, 6);
+      expect(stereo[i * 2 + 1]).toBe(0);
+    });
+  });
+
+  it("starts over after reset", () => {
+    const resampler = createResampler({ inputRate: 44100, outputRate: 48000 });
+    const input = sine(2000, 44100, 2000);
+    const first = resampler.process(input);
+    resampler.process(sine(5000, 44100, 777));
+    resampler.reset();
+    expect(resampler.process(input)).toEqual(first);
+  });
+
+  it("rejects invalid rates", () => {
+    expect(() => createResampler({ inputRate: 0, outputRate: 16000 })).toThrow();
+    expect(() => createResampler({ inputRate: 16000, outputRate: NaN })).toThrow();
+  });
+});
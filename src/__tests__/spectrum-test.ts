@@ -0,0 +1,158 @@
+import type { AudioFrameEvent } from "../ExpoStreamAudio.types";
+import { encodePcm16Base64 } from "../pcm";
+import { createSpectrumAnalyzer, logBandEdges, toLogBands } from "../spectrum";
+
+const SAMPLE_RATE = 16000;
+
+// `count` 20 ms frames of a sine at `frequency`, each channel carrying it.
+function sine(frequency: number, amplitude: number, count: number, channels = 1) {
+  const frames: AudioFrameEvent[] = [];
+  const length = (SAMPLE_RATE * 20) / 1000;
+  for (let index = 0; index < count; index++) {
+    const samples = new Float32Array(length * channels);
+    for (let i = 0; i < length; i++) {
+      const t = (index * length + i) / SAMPLE_RATE;
+      const sample = Math.sin(2 * Math.PI * frequency * t) * amplitude;
+      samples.fill(sample, i * channels, (i + 1) * channels);
+    }
+    frames.push({
+      pcmBase64: encodePcm16Base64(samples),
+      encoding: "pcm16",
+      sampleRate: SAMPLE_RATE,
+      channels,
+      timestamp: index * 20,
+    });
+  }
+  return frames;
+}
+
+function peakBin(bins: Float32Array): number {
+  return bins.indexOf(Math.max(...bins));
+}
+
+describe("createSpectrumAnalyzer", () => {
+  it("places a sine in the bin of its frequency", () => {
+    const analyzer = createSpectrumAnalyzer({ fftSize: 1024, smoothing: 0 });
+    sine(1000, 0.5, 5).forEach(analyzer.process);
+
+    expect(analyzer.sampleRate).toBe(SAMPLE_RATE);
+    expect(analyzer.frequencyBinCount).toBe(512);
+    const bins = analyzer.getFloatFrequencyData();
+    // 1000 Hz / (16000 Hz / 1024) = bin 64.
+    expect(peakBin(bins)).toBe(64);
+    // Half the amplitude times the Blackman window's coherent gain of 0.42.
+    expect(bins[64]).toBeCloseTo(20 * Math.log10(0.25 * 0.42), 0);
+    expect(bins[200]).toBeLessThan(bins[64] - 60);
+  });
+
+  it("places the sine with every window", () => {
+    for (const windowing of ["hann", "hamming", "none"] as const) {
+      const analyzer = createSpectrumAnalyzer({ fftSize: 2048, smoothing: 0, windowing });
+      sine(3000, 0.5, 10).forEach(analyzer.process);
+      // 3000 Hz / 7.8125 Hz = bin 384.
+      expect(peakBin(analyzer.getFloatFrequencyData())).toBe(384);
+    }
+  });
+
+  it("mixes stereo frames to mono", () => {
+    const analyzer = createSpectrumAnalyzer({ fftSize: 512, smoothing: 0 });
+    sine(2000, 0.5, 3, 2).forEach(analyzer.process);
+    // 2000 Hz / 31.25 Hz = bin 64.
+    expect(peakBin(analyzer.getFloatFrequencyData())).toBe(64);
+  });
+
+  it("reports silence as -Infinity", () => {
+    const analyzer = createSpectrumAnalyzer({ fftSize: 256 });
+    sine(1000, 0, 2).forEach(analyzer.process);
+    expect(Array.from(analyzer.getFloatFrequencyData()).every((bin) => bin === -Infinity)).toBe(
+      true,
+    );
+    expect(Array.from(analyzer.getByteFrequencyData())).toEqual(new Array(128).fill(0));
+  });
+
+  it("smooths once per call that follows new audio", () => {
+    const analyzer = createSpectrumAnalyzer({ fftSize: 1024, smoothing: 0.5 });
+    sine(1000, 0.5, 5).forEach(analyzer.process);
+    const first = analyzer.getFloatFrequencyData()[64];
+    expect(analyzer.getFloatFrequencyData()[64]).toBe(first);
+
+    analyzer.process(sine(1000, 0.5, 6)[5]);
+    const second = analyzer.getFloatFrequencyData()[64];
+    // Half of the magnitude the first time, three quarters the second.
+    expect(second - first).toBeCloseTo(20 * Math.log10(1.5), 1);
+  });
+
+  it("scales byte frequency data between minDecibels and maxDecibels", () => {
+    const analyzer = createSpectrumAnalyzer({ fftSize: 1024, smoothing: 0 });
+    sine(1000, 0.5, 5).forEach(analyzer.process);
+    const decibels = analyzer.getFloatFrequencyData();
+    analyzer.minDecibels = decibels[64] - 10;
+    analyzer.maxDecibels = decibels[64] + 10;
+    expect(analyzer.getByteFrequencyData()[64]).toBe(127);
+
+    analyzer.maxDecibels = decibels[64] - 5;
+    expect(analyzer.getByteFrequencyData()[64]).toBe(255);
+  });
+
+  it("returns the latest samples in order in the time domain", () => {
+    const analyzer = createSpectrumAnalyzer({ fftSize: 512 });
+    sine(440, 0.5, 3).forEach(analyzer.process);
+
+    // 960 samples in, so the window starts at sample 448.
+    const samples = analyzer.getFloatTimeDomainData();
+    samples.forEach((sample, i) => {
+      const t = (448 + i) / SAMPLE_RATE;
+      expect(sample).toBeCloseTo(Math.sin(2 * Math.PI * 440 * t) * 0.5, 3);
+    });
+    const bytes = analyzer.getByteTimeDomainData();
+    expect(bytes[0]).toBe(Math.floor(128 * (samples[0] + 1)));
+  });
+
+  it("starts over when the sample rate changes or on reset", () => {
+    const analyzer = createSpectrumAnalyzer({ fftSize: 256 });
+    sine(1000, 0.5, 2).forEach(analyzer.process);
+    analyzer.process({ ...sine(1000, 0, 1)[0], sampleRate: 8000 });
+    expect(analyzer.sampleRate).toBe(8000);
+    expect(Array.from(analyzer.getFloatTimeDomainData()).every((sample) => sample === 0)).toBe(
+      true,
+    );
+
+    sine(1000, 0.5, 2).forEach(analyzer.process);
+    analyzer.reset();
+    expect(Array.from(analyzer.getFloatTimeDomainData()).every((sample) => sample === 0)).toBe(
+      true,
+    );
+  });
+
+  it("rejects sizes that are not a power of two in range", () => {
+    expect(() => createSpectrumAnalyzer({ fftSize: 1000 })).toThrow("Invalid fftSize");
+    expect(() => createSpectrumAnalyzer({ fftSize: 16 })).toThrow("Invalid fftSize");
+    expect(() => createSpectrumAnalyzer({ fftSize: 65536 })).toThrow("Invalid fftSize");
+  });
+});
+
+describe("log bands", () => {
+  it("spaces band edges logarithmically", () => {
+    const edges = logBandEdges({ bandCount: 3, sampleRate: 16000, minFrequency: 10 });
+    // Each band spans the same ratio, (8000 / 10) ** (1 / 3).
+    expect(edges.map(Math.round)).toEqual([10, 93, 862, 8000]);
+  });
+
+  it("puts a sine in the band containing its frequency", () => {
+    const analyzer = createSpectrumAnalyzer({ fftSize: 1024, smoothing: 0 });
+    sine(1000, 0.5, 5).forEach(analyzer.process);
+    const options = { bandCount: 8, sampleRate: SAMPLE_RATE };
+    const bands = toLogBands(analyzer.getFloatFrequencyData(), options);
+    const edges = logBandEdges(options);
+    const loudest = peakBin(bands);
+    expect(edges[loudest]).toBeLessThanOrEqual(1000);
+    expect(edges[loudest + 1]).toBeGreaterThan(1000);
+  });
+
+  it("rejects empty ranges", () => {
+    expect(() => logBandEdges({ bandCount: 4, sampleRate: 16000, minFrequency: 9000 })).toThrow(
+      "Invalid bands",
+    );
+    expect(() => logBandEdges({ bandCount: 0, sampleRate: 16000 })).toThrow("Invalid bands");
+  });
+});
@@ -0,0 +1,259 @@
+import {
+  compressBufferedSegment,
+  createUploadQueue,
+  getBufferedSegments,
+  mockStreamAudio,
+  parseWav,
+  start,
+  stop,
+  type BufferedAudioSegment,
+  type UploadContext,
+  type UploadQueue,
+  type UploadQueueStorage,
+} from "../mock";
+
+const STORAGE_KEY = "expo-stream-audio/upload-queue";
+
+// Records `seconds` of audio into one-second segments.
+async function recordSegments(seconds: number): Promise<BufferedAudioSegment[]> {
+  mockStreamAudio.configure({ source: { type: "sine", frequency: 440 } });
+  await start({ frameDurationMs: 100, enableBuffering: true, bufferChunkSeconds: 1 });
+  mockStreamAudio.advance(seconds * 1000);
+  await stop();
+  return getBufferedSegments();
+}
+
+function createMemoryStorage(): UploadQueueStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+  };
+}
+
+// Lets chained promises (uploads, deletions, storage writes) settle.
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("createUploadQueue", () => {
+  let queue: UploadQueue | null = null;
+
+  afterEach(() => {
+    queue?.stop();
+    queue = null;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    mockStreamAudio.reset();
+  });
+
+  it("uploads every segment in order and deletes it once acknowledged", async () => {
+    const segments = await recordSegments(3);
+    const uploaded: { id: string; attempt: number; samples: number }[] = [];
+    queue = createUploadQueue({
+      concurrency: 1,
+      upload: async (segment, { attempt }) => {
+        const wav = parseWav(mockStreamAudio.getSegmentData(segment.id)!);
+        uploaded.push({ id: segment.id, attempt, samples: wav.samples.length });
+      },
+    });
+
+    await queue.start();
+    await queue.drain();
+
+    expect(uploaded).toEqual(segments.map(({ id }) => ({ id, attempt: 1, samples: 16000 })));
+    expect(await getBufferedSegments()).toEqual([]);
+    expect(queue.getProgress()).toEqual({ entries: [], completed: 3, remainingBytes: 0 });
+  });
+
+  it("retries failed uploads after the backoff delay", async () => {
+    jest.useFakeTimers();
+    const [segment] = await recordSegments(1);
+    const upload = jest
+      .fn<Promise<void>, [BufferedAudioSegment, UploadContext]>()
+      .mockRejectedValueOnce(new Error("HTTP 503"))
+      .mockResolvedValue();
+    queue = createUploadQueue({ upload, retryPolicy: { initialDelayMs: 1000, jitter: 0 } });
+
+    await queue.start();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(queue.getProgress().entries).toEqual([
+      {
+        segment,
+        status: "pending",
+        attempts: 1,
+        nextAttemptAt: Date.now() + 1000,
+        lastError: "HTTP 503",
+      },
+    ]);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(upload).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(upload).toHaveBeenCalledTimes(2);
+    expect(upload.mock.calls[1][1].attempt).toBe(2);
+
+    await queue.drain();
+    expect(queue.getProgress().completed).toBe(1);
+  });
+
+  it("gives up after maxAttempts until retryFailed is called", async () => {
+    await recordSegments(1);
+    let fail = true;
+    queue = createUploadQueue({
+      upload: async () => {
+        if (fail) throw new Error("rejected");
+      },
+      retryPolicy: { initialDelayMs: 0, jitter: 0, maxAttempts: 2 },
+    });
+
+    await queue.start();
+    await queue.drain();
+    expect(queue.getProgress().entries[0]).toMatchObject({ status: "failed", attempts: 2 });
+    expect(await getBufferedSegments()).toHaveLength(1);
+
+    fail = false;
+    queue.retryFailed();
+    await settle();
+    expect(queue.getProgress()).toMatchObject({ entries: [], completed: 1 });
+  });
+
+  it("resumes persisted progress in a new queue", async () => {
+    const segments = await recordSegments(3);
+    const storage = createMemoryStorage();
+    queue = createUploadQueue({
+      concurrency: 1,
+      storage,
+      // Acknowledges the first segment, then never finishes the second.
+      upload: (segment) =>
+        segment.id === segments[0].id ? Promise.resolve() : new Promise<void>(() => {}),
+    });
+    await queue.start();
+    await settle();
+    queue.stop();
+
+    const persisted = JSON.parse(storage.items.get(STORAGE_KEY)!);
+    expect(persisted.completed).toBe(1);
+    expect(persisted.entries.map((entry: { status: string }) => entry.status)).toEqual([
+      "uploading",
+      "pending",
+    ]);
+
+    const attempts: [string, number][] = [];
+    queue = createUploadQueue({
+      storage,
+      upload: async (segment, { attempt }) => {
+        attempts.push([segment.id, attempt]);
+      },
+    });
+    await queue.start();
+    await queue.drain();
+
+    // The interrupted upload counts as an attempt.
+    expect(attempts).toEqual([
+      [segments[1].id, 2],
+      [segments[2].id, 1],
+    ]);
+    expect(queue.getProgress().completed).toBe(3);
+  });
+
+  it("drops entries whose segment disappeared and refreshes the others on sync", async () => {
+    const segments = await recordSegments(2);
+    const storage = createMemoryStorage();
+    // Persisted before the app container moved: the uri is stale.
+    const stale = segments.map((segment) => ({ ...segment, uri: `old://${segment.id}` }));
+    storage.items.set(
+      STORAGE_KEY,
+      JSON.stringify({
+        version: 1,
+        completed: 0,
+        entries: [
+          { segment: stale[0], status: "pending", attempts: 0, lastError: null },
+          { segment: stale[1], status: "pending", attempts: 0, lastError: null },
+          {
+            segment: { ...stale[1], id: "evicted", uri: "old://evicted" },
+            status: "pending",
+            attempts: 0,
+            lastError: null,
+          },
+        ],
+      }),
+    );
+
+    const uris: string[] = [];
+    queue = createUploadQueue({
+      storage,
+      upload: async (segment) => {
+        uris.push(segment.uri);
+      },
+    });
+    await queue.start();
+    await queue.drain();
+
+    expect(uris).toEqual(segments.map((segment) => segment.uri));
+    expect(queue.getProgress().completed).toBe(2);
+  });
+
+  it("picks up the compressed copy of a queued segment on sync", async () => {
+    jest.useFakeTimers();
+    const [segment] = await recordSegments(1);
+    const upload = jest
+      .fn<Promise<void>, [BufferedAudioSegment, UploadContext]>()
+      .mockRejectedValueOnce(new Error("HTTP 503"))
+      .mockResolvedValue();
+    queue = createUploadQueue({ upload, retryPolicy: { initialDelayMs: 1000, jitter: 0 } });
+    await queue.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    const { compressed } = await compressBufferedSegment(segment.id);
+    await queue.sync();
+    expect(queue.getProgress().entries[0].segment.compressed).toEqual(compressed);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(upload.mock.calls[1][0].compressed).toEqual(compressed);
+  });
+
+  it("rejects drain when the queue stops first", async () => {
+    await recordSegments(1);
+    queue = createUploadQueue({
+      upload: (_segment, { signal }) =>
+        new Promise((_resolve, reject) => {
+          signal.addEventListener("abort", () => reject(new Error("aborted")));
+        }),
+    });
+    await queue.start();
+
+    const drained = queue.drain();
+    queue.stop();
+    await expect(drained).rejects.toThrow("Upload queue stopped before draining.");
+    await expect(queue.drain()).rejects.toThrow("Upload queue is not running.");
+  });
+
+  it("completes acknowledged uploads whose segment was deleted elsewhere", async () => {
+    const [segment] = await recordSegments(1);
+    jest
+      .spyOn(mockStreamAudio, "deleteBufferedSegments")
+      .mockRejectedValue(new Error("locked"));
+    queue = createUploadQueue({
+      upload: async () => {},
+      retryPolicy: { initialDelayMs: 60_000, jitter: 0 },
+    });
+
+    await queue.start();
+    await settle();
+    expect(queue.getProgress().entries[0]).toMatchObject({
+      status: "uploaded",
+      lastError: "locked",
+    });
+
+    jest.restoreAllMocks();
+    await mockStreamAudio.deleteBufferedSegments([segment.id]);
+    const drained = queue.drain();
+    await queue.sync();
+    await drained;
+    expect(queue.getProgress()).toEqual({ entries: [], completed: 1, remainingBytes: 0 });
+  });
+});
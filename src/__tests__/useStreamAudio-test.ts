@@ -0,0 +1,333 @@
+import { act, renderHook } from "@testing-library/react-native";
+import { PermissionsAndroid, Platform } from "react-native";
+
+import type {
+  AudioFrameEvent,
+  AudioLevel,
+  AudioLevelEvent,
+  StreamAudioError,
+} from "../ExpoStreamAudio.types";
+import streamAudioModule from "../ExpoStreamAudioModule";
+import { useStreamAudio, type UseStreamAudioOptions } from "../useStreamAudio";
+
+jest.mock("../ExpoStreamAudioModule", () => ({
+  __esModule: true,
+  default: {
+    requestPermission: jest.fn(),
+    start: jest.fn(),
+    stop: jest.fn(),
+    pause: jest.fn(),
+    resume: jest.fn(),
+    getStatus: jest.fn(),
+    addListener: jest.fn(() => ({ remove: jest.fn() })),
+  },
+}));
+
+const nativeModule = streamAudioModule as unknown as Record<string, jest.Mock>;
+
+function emit(eventName: string, event: unknown) {
+  const calls = nativeModule.addListener.mock.calls.filter(([name]) => name === eventName);
+  const [, listener] = calls[calls.length - 1];
+  act(() => listener(event));
+}
+
+const level: AudioLevel = { rms: 0.25, rmsDb: -12, peak: 0.5, peakDb: -6, clippedSamples: 0 };
+
+const frame: AudioFrameEvent = {
+  pcmBase64: "AAA=",
+  encoding: "pcm16",
+  sampleRate: 16000,
+  channels: 1,
+  timestamp: 0,
+  level,
+  channelLevels: [0.25],
+};
+
+async function renderStreamAudio(options?: UseStreamAudioOptions) {
+  const hook = renderHook(() => useStreamAudio(options));
+  // Let the mount effect's permission and status queries settle.
+  await act(async () => {});
+  return hook;
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  nativeModule.requestPermission.mockResolvedValue("granted");
+  nativeModule.start.mockResolvedValue({ sampleRate: 16000, inputDevice: null });
+  nativeModule.stop.mockResolvedValue(undefined);
+  nativeModule.pause.mockResolvedValue(undefined);
+  nativeModule.resume.mockResolvedValue(undefined);
+  nativeModule.getStatus.mockResolvedValue("idle");
+});
+
+describe("useStreamAudio", () => {
+  it("reports the permission on mount and records after start", async () => {
+    const onFrame = jest.fn();
+    const { result, unmount } = await renderStreamAudio({ sampleRate: 48000, onFrame });
+    expect(result.current.permission).toBe("granted");
+    expect(result.current.status).toBe("idle");
+
+    let started = false;
+    await act(async () => {
+      started = await result.current.start({ frameDurationMs: 40 });
+    });
+    expect(started).toBe(true);
+    expect(result.current.status).toBe("recording");
+    expect(result.current.session).toEqual({ sampleRate: 16000, inputDevice: null });
+    expect(nativeModule.start).toHaveBeenCalledWith({ sampleRate: 48000, frameDurationMs: 40 });
+
+    emit("onFrame", frame);
+    expect(onFrame).toHaveBeenCalledWith(frame);
+    expect(result.current.lastLevel).toBe(level);
+
+    await act(() => result.current.stop());
+    expect(nativeModule.stop).toHaveBeenCalledTimes(1);
+    expect(result.current.status).toBe("idle");
+    expect(result.current.lastLevel).toBeNull();
+    unmount();
+  });
+
+  it("takes the level from onLevel events too", async () => {
+    const { result, unmount } = await renderStreamAudio();
+    await act(() => result.current.start({ levelIntervalMs: 100 }));
+
+    const event: AudioLevelEvent = {
+      ...level,
+      channelLevels: [0.25],
+      timestamp: 0,
+      durationMs: 100,
+    };
+    emit("onLevel", event);
+    expect(result.current.lastLevel).toBe(event);
+    unmount();
+  });
+
+  it("reports native errors to onError while recording", async () => {
+    const onError = jest.fn();
+    const { result, unmount } = await renderStreamAudio({ onError });
+    await act(() => result.current.start());
+
+    const error: StreamAudioError = {
+      code: "device_unavailable",
+      message: "Microphone disconnected",
+      fatal: true,
+      platform: "ios",
+    };
+    emit("onError", error);
+    expect(onError).toHaveBeenCalledWith(error);
+    expect(result.current.error).toEqual(error);
+    unmount();
+  });
+
+  it("resolves false when permission is denied", async () => {
+    nativeModule.requestPermission.mockResolvedValue("denied");
+    if (Platform.OS === "android") {
+      jest
+        .spyOn(PermissionsAndroid, "request")
+        .mockResolvedValue(PermissionsAndroid.RESULTS.DENIED);
+    }
+    const { result, unmount } = await renderStreamAudio();
+
+    let started = true;
+    await act(async () => {
+      started = await result.current.start();
+    });
+    expect(started).toBe(false);
+    expect(nativeModule.start).not.toHaveBeenCalled();
+    expect(result.current.status).toBe("idle");
+    expect(result.current.permission).toBe("denied");
+    expect(result.current.error).toMatchObject({
+      code: "permission_denied",
+      message: "Microphone permission not granted.",
+      fatal: true,
+    });
+    unmount();
+  });
+
+  it("reports a failed permission request to onError", async () => {
+    const onError = jest.fn();
+    const { result, unmount } = await renderStreamAudio({ onError });
+    nativeModule.requestPermission.mockRejectedValue(new Error("Permissions unavailable"));
+
+    let started = true;
+    await act(async () => {
+      started = await result.current.start();
+    });
+    expect(started).toBe(false);
+    expect(nativeModule.start).not.toHaveBeenCalled();
+    expect(result.current.status).toBe("idle");
+    expect(result.current.statusReason).toBe("start_failed");
+    expect(result.current.error).toMatchObject({
+      code: "init_failed",
+      message: "Permissions unavailable",
+    });
+    expect(onError).toHaveBeenCalledWith(result.current.error);
+    unmount();
+  });
+
+  it("does not start once stopped while asking for permission", async () => {
+    const { result, unmount } = await renderStreamAudio();
+    let grant: (status: string) => void = () => {};
+    nativeModule.requestPermission.mockReturnValue(
+      new Promise((resolve) => {
+        grant = resolve;
+      }),
+    );
+
+    let starting: Promise<boolean> = Promise.resolve(true);
+    act(() => {
+      starting = result.current.start();
+    });
+    await act(() => result.current.stop());
+    let started = true;
+    await act(async () => {
+      grant("granted");
+      started = await starting;
+    });
+    expect(started).toBe(false);
+    expect(nativeModule.start).not.toHaveBeenCalled();
+    expect(result.current.status).toBe("idle");
+    expect(result.current.statusReason).toBe("user");
+    unmount();
+  });
+
+  it("resolves false when the native layer fails to start", async () => {
+    nativeModule.start.mockRejectedValue(
+      Object.assign(new Error("Audio session unavailable"), { code: "session_config_failed" }),
+    );
+    const { result, unmount } = await renderStreamAudio();
+
+    let started = true;
+    await act(async () => {
+      started = await result.current.start();
+    });
+    expect(started).toBe(false);
+    expect(result.current.status).toBe("idle");
+    expect(result.current.error).toMatchObject({
+      code: "session_config_failed",
+      message: "Audio session unavailable",
+      fatal: true,
+    });
+    unmount();
+  });
+
+  it("reports uncoded start failures as init_failed", async () => {
+    nativeModule.start.mockRejectedValue(new Error("Something broke"));
+    const { result, unmount } = await renderStreamAudio();
+
+    await act(() => result.current.start());
+    expect(result.current.error).toMatchObject({ code: "init_failed", message: "Something broke" });
+    unmount();
+  });
+
+  it("follows status changes and can start again after recording ended on its own", async () => {
+    const onStatusChange = jest.fn();
+    const { result, unmount } = await renderStreamAudio({ onStatusChange });
+    await act(() => result.current.start());
+    expect(result.current.statusReason).toBe("user");
+
+    const ended = { previousStatus: "stopping", reason: "read_error", timestamp: 0 };
+    emit("onStatusChange", { ...ended, status: "idle" });
+    expect(onStatusChange).toHaveBeenCalledWith({ ...ended, status: "idle" });
+    expect(result.current.status).toBe("idle");
+    expect(result.current.statusReason).toBe("read_error");
+
+    let started = false;
+    await act(async () => {
+      started = await result.current.start();
+    });
+    expect(started).toBe(true);
+    expect(nativeModule.start).toHaveBeenCalledTimes(2);
+    unmount();
+  });
+
+  it("pauses and resumes only the recording it owns", async () => {
+    const owner = await renderStreamAudio();
+    const other = await renderStreamAudio();
+    await act(() => other.result.current.pause());
+    expect(nativeModule.pause).not.toHaveBeenCalled();
+
+    await act(() => owner.result.current.start());
+    await act(() => other.result.current.pause());
+    expect(nativeModule.pause).not.toHaveBeenCalled();
+
+    await act(() => owner.result.current.pause());
+    await act(() => owner.result.current.resume());
+    expect(nativeModule.pause).toHaveBeenCalledTimes(1);
+    expect(nativeModule.resume).toHaveBeenCalledTimes(1);
+    other.unmount();
+    owner.unmount();
+  });
+
+  it("stops its recording on unmount", async () => {
+    const { result, unmount } = await renderStreamAudio();
+    await act(() => result.current.start());
+
+    unmount();
+    expect(nativeModule.stop).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets only one instance record at a time", async () => {
+    const first = await renderStreamAudio();
+    const second = await renderStreamAudio();
+    await act(() => first.result.current.start());
+
+    let started = true;
+    await act(async () => {
+      started = await second.result.current.start();
+    });
+    expect(started).toBe(false);
+    expect(second.result.current.error).toMatchObject({
+      code: "init_failed",
+      message: "Another useStreamAudio instance is already recording.",
+    });
+
+    // Stopping from the other instance leaves the owner's recording alone.
+    await act(() => second.result.current.stop());
+    expect(nativeModule.stop).not.toHaveBeenCalled();
+    second.unmount();
+    first.unmount();
+  });
+
+  it("shares an in-flight start between callers", async () => {
+    const { result, unmount } = await renderStreamAudio();
+    let results: boolean[] = [];
+    await act(async () => {
+      results = await Promise.all([result.current.start(), result.current.start()]);
+    });
+    expect(results).toEqual([true, true]);
+    expect(nativeModule.start).toHaveBeenCalledTimes(1);
+    unmount();
+  });
+
+  it("stops a recording it lost track of after a reload", async () => {
+    const previous = await renderStreamAudio();
+    await act(() => previous.result.current.start());
+
+    // A fast refresh re-runs the module while the native recording goes on.
+    // React itself stays loaded, so share it with the fresh modules.
+    let reloadedHook = useStreamAudio;
+    let reloadedModule = nativeModule;
+    const react = jest.requireActual("react");
+    jest.isolateModules(() => {
+      jest.doMock("react", () => react);
+      reloadedHook = require("../useStreamAudio").useStreamAudio;
+      reloadedModule = require("../ExpoStreamAudioModule").default;
+    });
+    reloadedModule.getStatus.mockResolvedValue("recording");
+    reloadedModule.stop.mockResolvedValue(undefined);
+    const { unmount } = renderHook(() => reloadedHook());
+    await act(async () => {});
+
+    expect(reloadedModule.stop).toHaveBeenCalledTimes(1);
+    unmount();
+    previous.unmount();
+  });
+
+  it("leaves recordings started by other means alone", async () => {
+    nativeModule.getStatus.mockResolvedValue("recording");
+    const { unmount } = await renderStreamAudio();
+    expect(nativeModule.stop).not.toHaveBeenCalled();
+    unmount();
+  });
+});
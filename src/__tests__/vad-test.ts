@@ -0,0 +1,155 @@
+import type { AudioFrameEvent } from "../ExpoStreamAudio.types";
+import { decodePcm16Base64, encodePcm16Base64, float32ToInt16 } from "../pcm";
+import { createVoiceActivityDetector, type VoiceActivityEvent } from "../vad";
+
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+
+// 20 ms frames of a 300 Hz tone (silence for amplitude 0) from `startMs`.
+// Stereo frames carry the tone on the first channel only.
+function tone(
+  startMs: number,
+  durationMs: number,
+  amplitude: number,
+  channels = 1,
+): AudioFrameEvent[] {
+  const frames: AudioFrameEvent[] = [];
+  const length = (SAMPLE_RATE * FRAME_MS) / 1000;
+  for (let timestamp = startMs; timestamp < startMs + durationMs; timestamp += FRAME_MS) {
+    const offset = (timestamp * SAMPLE_RATE) / 1000;
+    const samples = new Float32Array(length * channels);
+    for (let i = 0; i < length; i++) {
+      samples[i * channels] =
+        Math.sin((2 * Math.PI * 300 * (offset + i)) / SAMPLE_RATE) * amplitude;
+    }
+    frames.push({
+      pcmBase64: encodePcm16Base64(float32ToInt16(samples)),
+      encoding: "pcm16",
+      sampleRate: SAMPLE_RATE,
+      channels,
+      timestamp,
+    });
+  }
+  return frames;
+}
+
+function record(options?: Parameters<typeof createVoiceActivityDetector>[0]) {
+  const vad = createVoiceActivityDetector(options);
+  const events: VoiceActivityEvent[] = [];
+  vad.addListener((event) => events.push(event));
+  return { vad, events };
+}
+
+describe("createVoiceActivityDetector", () => {
+  it("reports speech start and, after the hangover, speech end", () => {
+    const { vad, events } = record({ hangoverMs: 400 });
+    tone(0, 500, 0.001).forEach(vad.process);
+    expect(events).toHaveLength(0);
+
+    tone(500, 500, 0.3).forEach(vad.process);
+    expect(vad.isSpeaking).toBe(true);
+    expect(events).toHaveLength(1);
+    const start = events[0];
+    expect(start.type).toBe("speechStart");
+    expect(start.timestamp).toBeGreaterThanOrEqual(500);
+    expect(start.timestamp).toBeLessThan(501);
+
+    // Still within the hangover.
+    tone(1000, 360, 0.001).forEach(vad.process);
+    expect(events).toHaveLength(1);
+    expect(vad.isSpeaking).toBe(true);
+
+    tone(1360, 100, 0.001).forEach(vad.process);
+    expect(vad.isSpeaking).toBe(false);
+    expect(events).toHaveLength(2);
+    expect(events[1]).toEqual({
+      type: "speechEnd",
+      timestamp: 1000,
+      durationMs: 1000 - start.timestamp,
+    });
+  });
+
+  it("hands back the frames before the onset as pre-roll", () => {
+    const { vad, events } = record({ preRollMs: 200 });
+    const frames = [...tone(0, 500, 0.001), ...tone(500, 200, 0.3)];
+    frames.forEach(vad.process);
+
+    const start = events[0];
+    if (start?.type !== "speechStart") throw new Error("expected speechStart");
+    expect(start.preRoll[0].timestamp).toBeLessThanOrEqual(start.timestamp - 200);
+    expect(start.preRoll[0].timestamp).toBeGreaterThan(start.timestamp - 200 - FRAME_MS);
+    // Consecutive frames up to the one that confirmed the start.
+    const first = frames.indexOf(start.preRoll[0]);
+    expect(start.preRoll).toEqual(frames.slice(first, first + start.preRoll.length));
+    expect(start.preRoll[start.preRoll.length - 1].timestamp).toBeGreaterThan(start.timestamp);
+  });
+
+  it("detects speech in either channel of stereo frames", () => {
+    const { vad, events } = record({ hangoverMs: 400 });
+    [...tone(0, 500, 0.001, 2), ...tone(500, 500, 0.3, 2), ...tone(1000, 500, 0.001, 2)].forEach(
+      vad.process,
+    );
+    expect(events.map((event) => [event.type, Math.floor(event.timestamp)])).toEqual([
+      ["speechStart", 500],
+      ["speechEnd", 1000],
+    ]);
+  });
+
+  it("does not join speech across a gap in the frames", () => {
+    const { vad, events } = record({ minSpeechMs: 200 });
+    tone(0, 500, 0.001).forEach(vad.process);
+    // 120 ms of speech, paused, then another 120 ms after resuming.
+    tone(500, 120, 0.3).forEach(vad.process);
+    tone(5000, 120, 0.3).forEach(vad.process);
+    expect(events).toHaveLength(0);
+
+    tone(5120, 100, 0.3).forEach(vad.process);
+    expect(events.map((event) => [event.type, Math.floor(event.timestamp)])).toEqual([
+      ["speechStart", 5000],
+    ]);
+  });
+
+  it("places the onset against the floor from before the onset", () => {
+    // The floor rises fast enough to move a lot within the onset window.
+    const { vad, events } = record({ noiseFloorRiseMs: 1 });
+    tone(0, 500, 0.001).forEach(vad.process);
+    // 5 ms just over the threshold, then loud: the onset is the quiet part.
+    const quiet = tone(500, 5, 0.003)[0];
+    const loud = tone(500, 20, 0.3)[0];
+    const samples = new Int16Array(320);
+    samples.set(decodePcm16Base64(quiet.pcmBase64).subarray(0, 80));
+    samples.set(decodePcm16Base64(loud.pcmBase64).subarray(80), 80);
+    vad.process({ ...loud, pcmBase64: encodePcm16Base64(samples) });
+    tone(520, 200, 0.3).forEach(vad.process);
+
+    expect(events[0]?.type).toBe("speechStart");
+    expect(events[0].timestamp).toBeGreaterThanOrEqual(500);
+    expect(events[0].timestamp).toBeLessThan(501);
+  });
+
+  it("ignores bursts shorter than minSpeechMs", () => {
+    const { vad, events } = record({ minSpeechMs: 60 });
+    [...tone(0, 500, 0.001), ...tone(500, 40, 0.3), ...tone(540, 500, 0.001)].forEach(
+      vad.process,
+    );
+    expect(events).toHaveLength(0);
+  });
+
+  it("ignores input below minEnergyDb", () => {
+    const { vad, events } = record({ minEnergyDb: -30 });
+    // -46 dBFS: well above the silent floor but under the absolute gate.
+    [...tone(0, 500, 0), ...tone(500, 500, 0.01)].forEach(vad.process);
+    expect(events).toHaveLength(0);
+  });
+
+  it("forgets ongoing speech on reset", () => {
+    const { vad, events } = record();
+    [...tone(0, 500, 0.001), ...tone(500, 200, 0.3)].forEach(vad.process);
+    expect(vad.isSpeaking).toBe(true);
+
+    vad.reset();
+    expect(vad.isSpeaking).toBe(false);
+    tone(700, 1000, 0.001).forEach(vad.process);
+    expect(events.map((event) => event.type)).toEqual(["speechStart"]);
+  });
+});
@@ -0,0 +1,101 @@
+import { concatWav, joinTimedPcm, parseWav, writeWav } from "../wav";
+
+const tone = (length: number, channels = 1) =>
+  Int16Array.from({ length: length * channels }, (_, i) => Math.round(Math.sin(i / 5) * 12000));
+
+describe("writeWav / parseWav", () => {
+  it("round-trips mono and stereo PCM16", () => {
+    for (const channels of [1, 2]) {
+      const samples = tone(1600, channels);
+      const parsed = parseWav(writeWav(samples, { sampleRate: 16000, channels }));
+      expect(parsed.samples).toEqual(samples);
+      expect(parsed).toMatchObject({
+        sampleRate: 16000,
+        channels,
+        bitsPerSample: 16,
+        frameCount: 1600,
+        durationMs: 100,
+        repaired: false,
+      });
+    }
+  });
+
+  it("repairs a header whose data size was never written", () => {
+    const wav = writeWav(tone(800), { sampleRate: 8000 });
+    new DataView(wav.buffer).setUint32(40, 0, true);
+    const parsed = parseWav(wav);
+    expect(parsed.repaired).toBe(true);
+    expect(parsed.frameCount).toBe(800);
+    expect(() => parseWav(wav, { truncatedHeader: "reject" })).toThrow();
+  });
+
+  it("rejects data that is not a WAV file", () => {
+    expect(() => parseWav(new Uint8Array(64))).toThrow();
+  });
+});
+
+describe("concatWav", () => {
+  it("joins segments and fills gaps with silence", () => {
+    const first = tone(1600);
+    const second = tone(800);
+    const result = concatWav([
+      // Out of order on purpose.
+      { data: writeWav(second, { sampleRate: 16000 }), startTimestamp: 1_000_200 },
+      { data: writeWav(first, { sampleRate: 16000 }), startTimestamp: 1_000_000 },
+    ]);
+    const parsed = parseWav(result.wav);
+    expect(result.startTimestamp).toBe(1_000_000);
+    expect(result.silenceMs).toBe(100);
+    expect(result.durationMs).toBe(250);
+    expect(parsed.samples.subarray(0, 1600)).toEqual(first);
+    expect(parsed.samples.subarray(1600, 3200).every((sample) => sample === 0)).toBe(true);
+    expect(parsed.samples.subarray(3200)).toEqual(second);
+  });
+
+  it("joins segments back to back within the tolerance", () => {
+    const result = concatWav([
+      { data: writeWav(tone(160), { sampleRate: 16000 }), startTimestamp: 0 },
+      { data: writeWav(tone(160), { sampleRate: 16000 }), startTimestamp: 15 },
+    ]);
+    expect(result.silenceMs).toBe(0);
+    expect(result.durationMs).toBe(20);
+  });
+});
+
+describe("joinTimedPcm", () => {
+  const at = (startTimestamp: number, samples: Int16Array) => ({
+    samples,
+    sampleRate: 16000,
+    channels: 1,
+    startTimestamp,
+  });
+
+  it("cuts the range across segments and fills gaps with silence", () => {
+    const first = tone(16000);
+    const second = tone(8000);
+    const joined = joinTimedPcm([at(1500, second), at(0, first)], { from: 500, to: 1800 })!;
+    expect(joined).toMatchObject({
+      startTimestamp: 500,
+      endTimestamp: 1800,
+      silenceFrames: 8000,
+    });
+    expect(joined.samples).toHaveLength(20800);
+    expect(joined.samples.subarray(0, 8000)).toEqual(first.subarray(8000));
+    expect(joined.samples.subarray(8000, 16000).every((sample) => sample === 0)).toBe(true);
+    expect(joined.samples.subarray(16000)).toEqual(second.subarray(0, 4800));
+  });
+
+  it("drops the overlapping start of a later segment", () => {
+    const first = tone(1600);
+    const second = Int16Array.from({ length: 1600 }, (_, i) => i);
+    const joined = joinTimedPcm([at(0, first), at(50, second)])!;
+    expect(joined.samples).toHaveLength(2400);
+    expect(joined.samples.subarray(1600)).toEqual(second.subarray(800));
+    expect(joined.endTimestamp).toBe(150);
+  });
+
+  it("returns null when no segment overlaps the range", () => {
+    expect(joinTimedPcm([at(0, tone(1600))], { from: 200, to: 300 })).toBeNull();
+    expect(joinTimedPcm([])).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import streamAudioModule from "../ExpoStreamAudioModule";
+import { encodeBase64 } from "../pcm";
+import { writeWav } from "../wav";
+import { loadSegmentPeaks, waveformPeaks, WaveformSlicer } from "../waveform";
+
+jest.mock("../ExpoStreamAudioModule", () => ({
+  __esModule: true,
+  default: { readBufferedSegment: jest.fn() },
+}));
+
+const readBufferedSegment = streamAudioModule.readBufferedSegment as jest.Mock;
+
+describe("waveformPeaks", () => {
+  it("reports the peak of each slice", () => {
+    const samples = new Int16Array([100, -32767, 0, 0, 16384, -8192, 0, 3277]);
+    const peaks = waveformPeaks(samples, 4);
+    expect(peaks[0]).toBe(1);
+    expect(peaks[1]).toBe(0);
+    expect(peaks[2]).toBeCloseTo(0.5, 3);
+    expect(peaks[3]).toBeCloseTo(0.1, 3);
+  });
+
+  it("leaves bars past the end of short input at 0", () => {
+    expect(waveformPeaks(new Int16Array([16384]), 3)).toEqual([16384 / 32767, 0, 0]);
+    expect(waveformPeaks(new Int16Array(0), 2)).toEqual([0, 0]);
+  });
+
+  it("clamps -32768 to full scale", () => {
+    expect(waveformPeaks(new Int16Array([-32768]), 1)).toEqual([1]);
+  });
+});
+
+describe("WaveformSlicer", () => {
+  it("carries slices over between frames", () => {
+    // 10 ms slices at 1 kHz are 10 sample frames.
+    const slicer = new WaveformSlicer(10);
+    const samples = Int16Array.from({ length: 30 }, (_, i) => (i === 14 ? 32767 : i * 100));
+
+    expect(slicer.add(samples.subarray(0, 7), 1, 1000)).toEqual([]);
+    const peaks = slicer.add(samples.subarray(7, 25), 1, 1000);
+    expect(peaks).toHaveLength(2);
+    expect(peaks[0]).toBeCloseTo(900 / 32767, 6);
+    expect(peaks[1]).toBe(1);
+    expect(slicer.add(samples.subarray(25), 1, 1000)).toEqual([2900 / 32767]);
+  });
+
+  it("does not depend on how the stream is cut", () => {
+    const samples = Int16Array.from({ length: 480 }, (_, i) => Math.round(Math.sin(i) * 20000));
+    const whole = new WaveformSlicer(20).add(samples, 1, 8000);
+    const pieces = new WaveformSlicer(20);
+    const cut = [0, 17, 160, 161, 333, 480];
+    const pieced = cut
+      .slice(1)
+      .flatMap((end, i) => pieces.add(samples.subarray(cut[i], end), 1, 8000));
+    expect(pieced).toEqual(whole);
+    expect(whole).toHaveLength(3);
+  });
+
+  it("counts interleaved sample frames and takes the louder channel", () => {
+    const slicer = new WaveformSlicer(2);
+    // 2 ms at 1 kHz is two sample frames of two channels.
+    const peaks = slicer.add(new Int16Array([0, 100, -200, 50, 300, 0, 0, 0]), 2, 1000);
+    expect(peaks).toEqual([200 / 32767, 300 / 32767]);
+  });
+});
+
+describe("loadSegmentPeaks", () => {
+  it("reads the segment's WAV file", async () => {
+    const samples = Int16Array.from({ length: 100 }, (_, i) => (i < 50 ? 16384 : -32767));
+    const wav = writeWav(samples, { sampleRate: 16000, channels: 1 });
+    readBufferedSegment.mockResolvedValue(encodeBase64(wav));
+
+    const peaks = await loadSegmentPeaks("segment-1", 2);
+    expect(readBufferedSegment).toHaveBeenCalledWith("segment-1");
+    expect(peaks[0]).toBeCloseTo(0.5, 3);
+    expect(peaks[1]).toBe(1);
+  });
+
+  it("scans long segments in chunks with the same result", async () => {
+    // Louder towards the end, so that every bar has its own peak.
+    const samples = Int16Array.from({ length: 200_000 }, (_, i) =>
+      Math.round(Math.sin(i) * (i / 200_000) * 32767),
+    );
+    readBufferedSegment.mockResolvedValue(
+      encodeBase64(writeWav(samples, { sampleRate: 16000, channels: 1 })),
+    );
+    expect(await loadSegmentPeaks("segment-1", 7)).toEqual(waveformPeaks(samples, 7));
+  });
+
+  it("passes read failures on", async () => {
+    readBufferedSegment.mockRejectedValue(new Error("gone"));
+    await expect(loadSegmentPeaks("segment-1", 2)).rejects.toThrow("gone");
+  });
+});
@@ -0,0 +1,46 @@
+export type BackoffPolicy = {
+  /**
+   * Delay before the first retry.
+   *
+   * Defaults to 500.
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for the delay between attempts.
+   *
+   * Defaults to 30000.
+   */
+  maxDelayMs?: number;
+  /**
+   * Factor applied to the delay after every failed attempt.
+   *
+   * Defaults to 2.
+   */
+  multiplier?: number;
+  /**
+   * Random spread applied to every delay, as a fraction of it (0–1), so
+   * many clients don't retry in lockstep after a server restart.
+   *
+   * Defaults to 0.2.
+   */
+  jitter?: number;
+  /**
+   * Give up after this many consecutive failed attempts.
+   *
+   * Defaults to Infinity.
+   */
+  maxAttempts?: number;
+};
+
+/**
+ * Exponential backoff delay before retry number `attempt` (1-based).
+ */
+export function getBackoffDelay(policy: BackoffPolicy, attempt: number): number {
+  const initialDelayMs = policy.initialDelayMs ?? 500;
+  const maxDelayMs = policy.maxDelayMs ?? 30_000;
+  const multiplier = policy.multiplier ?? 2;
+  const jitter = Math.min(1, Math.max(0, policy.jitter ?? 0.2));
+
+  const base = Math.min(maxDelayMs, initialDelayMs * multiplier ** (attempt - 1));
+  return Math.max(0, Math.round(base * (1 + jitter * (Math.random() * 2 - 1))));
+}
@@ -0,0 +1,519 @@
+import { parseWav } from "./wav";
+import { createYielder } from "./yielder";
+
+// Lossless FLAC encoding of PCM16 audio: fixed linear predictors (orders
+// 0–4) with Rice-coded residuals, and stereo decorrelation. Typically
+// 30–50% smaller than the WAV for speech; slower to encode than
+// libFLAC, so large files are best compressed off the UI's critical path.
+
+export type FlacEncodeOptions = {
+  /**
+   * Sample rate in Hz.
+   */
+  sampleRate: number;
+  /**
+   * Number of interleaved channels, 1–8.
+   *
+   * Defaults to 1.
+   */
+  channels?: number;
+  /**
+   * Samples per channel in each FLAC frame.
+   *
+   * Defaults to 4096.
+   */
+  blockSize?: number;
+};
+
+const DEFAULT_BLOCK_SIZE = 4096;
+const BITS_PER_SAMPLE = 16;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 8;
+// A 4-bit Rice parameter of 15 is the escape code, so 14 is the largest usable.
+const MAX_RICE_PARAMETER = 14;
+const STREAMINFO_SIZE = 34;
+
+const CHANNEL_INDEPENDENT = -1;
+const CHANNEL_LEFT_SIDE = 8;
+const CHANNEL_RIGHT_SIDE = 9;
+const CHANNEL_MID_SIDE = 10;
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  8000: 4,
+  16000: 5,
+  22050: 6,
+  24000: 7,
+  32000: 8,
+  44100: 9,
+  48000: 10,
+  96000: 11,
+};
+
+const CRC8_TABLE = new Uint8Array(256);
+const CRC16_TABLE = new Uint16Array(256);
+for (let i = 0; i < 256; i++) {
+  let crc8 = i;
+  let crc16 = i << 8;
+  for (let bit = 0; bit < 8; bit++) {
+    crc8 = crc8 & 0x80 ? (crc8 << 1) ^ 0x07 : crc8 << 1;
+    crc16 = crc16 & 0x8000 ? (crc16 << 1) ^ 0x8005 : crc16 << 1;
+  }
+  CRC8_TABLE[i] = crc8 & 0xff;
+  CRC16_TABLE[i] = crc16 & 0xffff;
+}
+
+type BitWriter = {
+  bytes: Uint8Array;
+  position: number;
+  pending: number;
+  pendingBits: number;
+};
+
+type SubframePlan = {
+  samples: Int32Array;
+  bitsPerSample: number;
+  kind: "constant" | "verbatim" | "fixed";
+  order: number;
+  partitionOrder: number;
+  riceParameters: number[];
+  residual: Int32Array;
+  bits: number;
+};
+
+/**
+ * Encode interleaved PCM16 samples as a FLAC file.
+ */
+export function encodeFlac(samples: Int16Array, options: FlacEncodeOptions): Uint8Array {
+  const encoder = writeFlac(samples, options);
+  let step = encoder.next();
+  while (!step.done) {
+    step = encoder.next();
+  }
+  return step.value;
+}
+
+/**
+ * Same bytes as `encodeFlac`, but lets the event loop run every few
+ * milliseconds of encoding so that a long recording does not freeze
+ * the UI.
+ */
+export async function encodeFlacAsync(
+  samples: Int16Array,
+  options: FlacEncodeOptions,
+): Promise<Uint8Array> {
+  const encoder = writeFlac(samples, options);
+  const pause = createYielder();
+  let step = encoder.next();
+  while (!step.done) {
+    await pause();
+    step = encoder.next();
+  }
+  return step.value;
+}
+
+// Yields after every FLAC frame and returns the file.
+function* writeFlac(samples: Int16Array, options: FlacEncodeOptions): Generator<void, Uint8Array> {
+  const { sampleRate } = options;
+  const channels = options.channels ?? 1;
+  const blockSize = options.blockSize ?? DEFAULT_BLOCK_SIZE;
+  if (!Number.isInteger(channels) || channels < 1 || channels > 8) {
+    throw new Error(`FLAC supports 1 to 8 channels, got ${channels}.`);
+  }
+  if (!Number.isInteger(sampleRate) || sampleRate < 1 || sampleRate > 0xfffff) {
+    throw new Error(`Unsupported FLAC sample rate: ${sampleRate}.`);
+  }
+  if (!Number.isInteger(blockSize) || blockSize < 16 || blockSize > 0xffff) {
+    throw new Error(`FLAC block size must be between 16 and 65535, got ${blockSize}.`);
+  }
+  if (samples.length % channels !== 0) {
+    throw new Error("Sample count is not a multiple of the channel count.");
+  }
+
+  const frameCount = samples.length / channels;
+  const blockCount = Math.ceil(frameCount / blockSize);
+  // No frame is ever larger than its verbatim encoding plus headers.
+  const writer: BitWriter = {
+    bytes: new Uint8Array(8 + STREAMINFO_SIZE + samples.length * 2 + blockCount * (channels + 24)),
+    position: 0,
+    pending: 0,
+    pendingBits: 0,
+  };
+
+  writeBits(writer, 0x664c6143, 32); // "fLaC"
+  // Last-metadata-block flag, block type 0 (STREAMINFO) and its length.
+  writeBits(writer, 0x80, 8);
+  writeBits(writer, STREAMINFO_SIZE, 24);
+  const streamInfoOffset = writer.position;
+  writer.position += STREAMINFO_SIZE;
+
+  let minFrameSize = 0;
+  let maxFrameSize = 0;
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * blockSize;
+    const length = Math.min(blockSize, frameCount - start);
+    const frameStart = writer.position;
+    writeFrame(writer, samples, channels, start, length, block, sampleRate);
+    const frameSize = writer.position - frameStart;
+    minFrameSize = minFrameSize === 0 ? frameSize : Math.min(minFrameSize, frameSize);
+    maxFrameSize = Math.max(maxFrameSize, frameSize);
+    yield;
+  }
+  const end = writer.position;
+
+  writer.position = streamInfoOffset;
+  writeBits(writer, blockSize, 16); // minimum block size
+  writeBits(writer, blockSize, 16); // maximum block size
+  writeBits(writer, minFrameSize, 24);
+  writeBits(writer, maxFrameSize, 24);
+  writeBits(writer, sampleRate, 20);
+  writeBits(writer, channels - 1, 3);
+  writeBits(writer, BITS_PER_SAMPLE - 1, 5);
+  writeBits(writer, Math.floor(frameCount / 2 ** 32), 4);
+  writeBits(writer, frameCount >>> 0, 32);
+  // An all-zero MD5 signature means "not computed".
+  for (let i = 0; i < 4; i++) {
+    writeBits(writer, 0, 32);
+  }
+
+  return writer.bytes.slice(0, end);
+}
+
+/**
+ * Re-encode a PCM16 WAV file, e.g. a buffered segment, as FLAC. See
+ * `encodeFlacAsync` for long files.
+ */
+export function wavToFlac(
+  input: Uint8Array | ArrayBuffer,
+  options: { blockSize?: number } = {},
+): Uint8Array {
+  const wav = parseWav(input);
+  return encodeFlac(wav.samples, {
+    sampleRate: wav.sampleRate,
+    channels: wav.channels,
+    blockSize: options.blockSize,
+  });
+}
+
+function writeFrame(
+  writer: BitWriter,
+  samples: Int16Array,
+  channels: number,
+  start: number,
+  length: number,
+  frameNumber: number,
+  sampleRate: number,
+) {
+  const channelSamples: Int32Array[] = [];
+  for (let channel = 0; channel < channels; channel++) {
+    const block = new Int32Array(length);
+    for (let i = 0; i < length; i++) {
+      block[i] = samples[(start + i) * channels + channel];
+    }
+    channelSamples.push(block);
+  }
+
+  let assignment = CHANNEL_INDEPENDENT;
+  let plans = channelSamples.map((block) => planSubframe(block, BITS_PER_SAMPLE));
+  if (channels === 2) {
+    const [left, right] = channelSamples;
+    const mid = new Int32Array(length);
+    const side = new Int32Array(length);
+    for (let i = 0; i < length; i++) {
+      mid[i] = (left[i] + right[i]) >> 1;
+      side[i] = left[i] - right[i];
+    }
+    // The side channel needs one extra bit.
+    const sidePlan = planSubframe(side, BITS_PER_SAMPLE + 1);
+    const midPlan = planSubframe(mid, BITS_PER_SAMPLE);
+    const candidates: [number, SubframePlan[]][] = [
+      [CHANNEL_INDEPENDENT, plans],
+      [CHANNEL_LEFT_SIDE, [plans[0], sidePlan]],
+      [CHANNEL_RIGHT_SIDE, [sidePlan, plans[1]]],
+      [CHANNEL_MID_SIDE, [midPlan, sidePlan]],
+    ];
+    const totalBits = (candidate: SubframePlan[]) => candidate[0].bits + candidate[1].bits;
+    [assignment, plans] = candidates.reduce((best, candidate) =>
+      totalBits(candidate[1]) < totalBits(best[1]) ? candidate : best,
+    );
+  }
+
+  const headerStart = writer.position;
+  writeBits(writer, 0xfff8, 16); // sync code, fixed block size
+  const blockSizeCode = getBlockSizeCode(length);
+  writeBits(writer, blockSizeCode, 4);
+  writeBits(writer, SAMPLE_RATE_CODES[sampleRate] ?? 0, 4);
+  writeBits(writer, assignment === CHANNEL_INDEPENDENT ? channels - 1 : assignment, 4);
+  writeBits(writer, 0b100, 3); // 16 bits per sample
+  writeBits(writer, 0, 1);
+  writeFrameNumber(writer, frameNumber);
+  if (blockSizeCode === 6) {
+    writeBits(writer, length - 1, 8);
+  } else if (blockSizeCode === 7) {
+    writeBits(writer, length - 1, 16);
+  }
+  writeBits(writer, crc8(writer.bytes, headerStart, writer.position), 8);
+
+  plans.forEach((plan) => writeSubframe(writer, plan));
+  alignToByte(writer);
+  writeBits(writer, crc16(writer.bytes, headerStart, writer.position), 16);
+}
+
+function getBlockSizeCode(length: number): number {
+  for (let code = 8; code < 16; code++) {
+    if (length === 256 << (code - 8)) {
+      return code;
+    }
+  }
+  return length <= 256 ? 6 : 7;
+}
+
+function writeFrameNumber(writer: BitWriter, value: number) {
+  // UTF-8 style variable-length coding.
+  if (value < 0x80) {
+    writeBits(writer, value, 8);
+    return;
+  }
+  let byteCount = 2;
+  while (value >= 2 ** (5 * byteCount + 1)) {
+    byteCount++;
+  }
+  const leading = (0xff << (8 - byteCount)) & 0xff;
+  writeBits(writer, leading | Math.floor(value / 2 ** (6 * (byteCount - 1))), 8);
+  for (let i = byteCount - 2; i >= 0; i--) {
+    writeBits(writer, 0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+function planSubframe(samples: Int32Array, bitsPerSample: number): SubframePlan {
+  const length = samples.length;
+  const plan: SubframePlan = {
+    samples,
+    bitsPerSample,
+    kind: "verbatim",
+    order: 0,
+    partitionOrder: 0,
+    riceParameters: [],
+    residual: samples,
+    bits: 8 + length * bitsPerSample,
+  };
+
+  if (samples.every((sample) => sample === samples[0])) {
+    return { ...plan, kind: "constant", bits: 8 + bitsPerSample };
+  }
+
+  // Pick the predictor order with the smallest residual magnitude.
+  const maxOrder = Math.min(MAX_FIXED_ORDER, length - 1);
+  let order = 0;
+  let bestSum = Number.POSITIVE_INFINITY;
+  for (let candidate = 0; candidate <= maxOrder; candidate++) {
+    let sum = 0;
+    for (let i = candidate; i < length; i++) {
+      sum += Math.abs(predictionError(samples, i, candidate));
+    }
+    if (sum < bestSum) {
+      bestSum = sum;
+      order = candidate;
+    }
+  }
+
+  const residual = new Int32Array(length - order);
+  for (let i = order; i < length; i++) {
+    residual[i - order] = predictionError(samples, i, order);
+  }
+
+  const rice = planRice(residual, length, order);
+  const bits = 8 + order * bitsPerSample + rice.bits;
+  if (bits >= plan.bits) {
+    return plan;
+  }
+  return {
+    ...plan,
+    kind: "fixed",
+    order,
+    partitionOrder: rice.partitionOrder,
+    riceParameters: rice.parameters,
+    residual,
+    bits,
+  };
+}
+
+function predictionError(samples: Int32Array, i: number, order: number): number {
+  switch (order) {
+    case 0:
+      return samples[i];
+    case 1:
+      return samples[i] - samples[i - 1];
+    case 2:
+      return samples[i] - 2 * samples[i - 1] + samples[i - 2];
+    case 3:
+      return samples[i] - 3 * samples[i - 1] + 3 * samples[i - 2] - samples[i - 3];
+    default:
+      return (
+        samples[i] - 4 * samples[i - 1] + 6 * samples[i - 2] - 4 * samples[i - 3] + samples[i - 4]
+      );
+  }
+}
+
+function planRice(
+  residual: Int32Array,
+  blockLength: number,
+  order: number,
+): { partitionOrder: number; parameters: number[]; bits: number } {
+  // Partitions split the block evenly; the first one loses the warm-up samples.
+  let maxPartitionOrder = 0;
+  while (
+    maxPartitionOrder < MAX_PARTITION_ORDER &&
+    blockLength % (1 << (maxPartitionOrder + 1)) === 0 &&
+    blockLength >> (maxPartitionOrder + 1) > order
+  ) {
+    maxPartitionOrder++;
+  }
+
+  // Sums of the folded residuals for the finest partitioning; coarser
+  // ones merge neighbours.
+  const finest = 1 << maxPartitionOrder;
+  const finestSize = blockLength >> maxPartitionOrder;
+  let sums: number[] = new Array(finest).fill(0);
+  let counts: number[] = new Array(finest).fill(0);
+  for (let i = 0; i < residual.length; i++) {
+    const partition = Math.floor((i + order) / finestSize);
+    sums[partition] += foldResidual(residual[i]);
+    counts[partition]++;
+  }
+
+  let best = { partitionOrder: 0, parameters: [] as number[], bits: Number.POSITIVE_INFINITY };
+  for (let partitionOrder = maxPartitionOrder; partitionOrder >= 0; partitionOrder--) {
+    const parameters = sums.map((sum, i) => bestRiceParameter(sum, counts[i]));
+    // Estimates are refined below once a partitioning is chosen.
+    const bits =
+      6 + sums.reduce((total, sum, i) => total + 4 + riceBits(sum, counts[i], parameters[i]), 0);
+    if (bits < best.bits) {
+      best = { partitionOrder, parameters, bits };
+    }
+    if (partitionOrder > 0) {
+      sums = pairwise(sums);
+      counts = pairwise(counts);
+    }
+  }
+
+  // Exact size, which may exceed the estimate by up to one bit per sample.
+  const partitionSize = blockLength >> best.partitionOrder;
+  let bits = 6 + 4 * best.parameters.length;
+  for (let i = 0; i < residual.length; i++) {
+    const parameter = best.parameters[Math.floor((i + order) / partitionSize)];
+    bits += (foldResidual(residual[i]) >>> parameter) + 1 + parameter;
+  }
+  return { ...best, bits };
+}
+
+function pairwise(values: number[]): number[] {
+  const merged: number[] = [];
+  for (let i = 0; i < values.length; i += 2) {
+    merged.push(values[i] + values[i + 1]);
+  }
+  return merged;
+}
+
+function foldResidual(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function bestRiceParameter(sum: number, count: number): number {
+  let best = 0;
+  for (let parameter = 1; parameter <= MAX_RICE_PARAMETER; parameter++) {
+    if (riceBits(sum, count, parameter) < riceBits(sum, count, best)) {
+      best = parameter;
+    }
+  }
+  return best;
+}
+
+function riceBits(sum: number, count: number, parameter: number): number {
+  return count * (parameter + 1) + Math.floor(sum / 2 ** parameter);
+}
+
+function writeSubframe(writer: BitWriter, plan: SubframePlan) {
+  const { samples, bitsPerSample } = plan;
+  const mask = 2 ** bitsPerSample - 1;
+  // Zero padding bit, 6-bit type and the wasted-bits flag.
+  switch (plan.kind) {
+    case "constant":
+      writeBits(writer, 0, 8);
+      writeBits(writer, samples[0] & mask, bitsPerSample);
+      return;
+    case "verbatim":
+      writeBits(writer, 0b00000010, 8);
+      for (let i = 0; i < samples.length; i++) {
+        writeBits(writer, samples[i] & mask, bitsPerSample);
+      }
+      return;
+    case "fixed":
+      writeBits(writer, (0b001000 | plan.order) << 1, 8);
+      for (let i = 0; i < plan.order; i++) {
+        writeBits(writer, samples[i] & mask, bitsPerSample);
+      }
+      break;
+  }
+
+  writeBits(writer, 0, 2); // Rice coding with 4-bit parameters
+  writeBits(writer, plan.partitionOrder, 4);
+  const partitionSize = samples.length >> plan.partitionOrder;
+  let index = 0;
+  plan.riceParameters.forEach((parameter, partition) => {
+    writeBits(writer, parameter, 4);
+    const end = (partition + 1) * partitionSize - plan.order;
+    for (; index < end; index++) {
+      const folded = foldResidual(plan.residual[index]);
+      writeUnary(writer, folded >>> parameter);
+      if (parameter > 0) {
+        writeBits(writer, folded & ((1 << parameter) - 1), parameter);
+      }
+    }
+  });
+}
+
+function writeUnary(writer: BitWriter, zeros: number) {
+  while (zeros >= 24) {
+    writeBits(writer, 0, 24);
+    zeros -= 24;
+  }
+  writeBits(writer, 1, zeros + 1);
+}
+
+function writeBits(writer: BitWriter, value: number, bits: number) {
+  if (bits > 24) {
+    writeBits(writer, Math.floor(value / 2 ** 24), bits - 24);
+    writeBits(writer, value & 0xffffff, 24);
+    return;
+  }
+  // At most 7 bits are pending, so the accumulator never exceeds 31 bits.
+  writer.pending = (writer.pending << bits) | (value & ((1 << bits) - 1));
+  writer.pendingBits += bits;
+  while (writer.pendingBits >= 8) {
+    writer.pendingBits -= 8;
+    writer.bytes[writer.position++] = (writer.pending >>> writer.pendingBits) & 0xff;
+  }
+  writer.pending &= (1 << writer.pendingBits) - 1;
+}
+
+function alignToByte(writer: BitWriter) {
+  if (writer.pendingBits > 0) {
+    writeBits(writer, 0, 8 - writer.pendingBits);
+  }
+}
+
+function crc8(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    crc = CRC8_TABLE[crc ^ bytes[i]];
+  }
+  return crc;
+}
+
+function crc16(bytes: Uint8Array, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  }
+  return crc;
+}
@@ -0,0 +1,124 @@
+import type {
+  AudioEncoding,
+  AudioFrameEvent,
+  StreamAudioOptions,
+  StreamSessionInfo,
+} from "./ExpoStreamAudio.types";
+import streamAudioModule from "./ExpoStreamAudioModule";
+import { decodeAudio, downmixToMono, encodeAudio, encodeBase64, getFrameBytes } from "./pcm";
+import { createResampler, type StreamingResampler } from "./resampler";
+
+type FrameListener = (event: AudioFrameEvent) => void;
+
+const DEFAULT_SAMPLE_RATE = 16000;
+
+// All JS frame listeners share a single native subscription so that
+// stateful post-processing (e.g. resampling) runs exactly once per frame.
+const listeners = new Set<FrameListener>();
+let nativeSubscription: { remove: () => void } | null = null;
+
+let targetSampleRate: number | null = null;
+let downmix = false;
+let encoding: AudioEncoding = "pcm16";
+let resampler: StreamingResampler | null = null;
+
+/**
+ * Apply the JS-side parts of `StreamAudioOptions` for the session that is
+ * about to start.
+ */
+export function configureFrameStream(options: StreamAudioOptions) {
+  targetSampleRate = options.strictSampleRate ? (options.sampleRate ?? DEFAULT_SAMPLE_RATE) : null;
+  downmix = options.downmixToMono ?? false;
+  encoding = options.encoding ?? "pcm16";
+  resampler = null;
+}
+
+/**
+ * Drop resampler state so audio from before a pause isn't blended into
+ * the first frame after it.
+ */
+export function resetFrameStream() {
+  resampler = null;
+}
+
+/**
+ * Start the native session with the frame stream configured for it. Used
+ * by `start()` and `useStreamAudio` so both post-process frames the same
+ * way.
+ */
+export function startFrameStream(options: StreamAudioOptions): Promise<StreamSessionInfo> {
+  configureFrameStream(options);
+  return streamAudioModule.start(options);
+}
+
+/**
+ * Resume the native session after a pause, without resampler state from
+ * before it. Used by `resume()` and `useStreamAudio`.
+ */
+export function resumeFrameStream(): Promise<void> {
+  resetFrameStream();
+  return streamAudioModule.resume();
+}
+
+export function addFrameStreamListener(listener: FrameListener): { remove: () => void } {
+  listeners.add(listener);
+  if (!nativeSubscription) {
+    nativeSubscription = streamAudioModule.addListener("onFrame", dispatchFrame);
+  }
+
+  return {
+    remove: () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && nativeSubscription) {
+        nativeSubscription.remove();
+        nativeSubscription = null;
+      }
+    },
+  };
+}
+
+function dispatchFrame(event: AudioFrameEvent) {
+  const frame = conformFrame(event);
+  if (!frame) return;
+  // Copy so listeners removed during dispatch don't affect iteration.
+  [...listeners].forEach((listener) => listener(frame));
+}
+
+function conformFrame(event: AudioFrameEvent): AudioFrameEvent | null {
+  const shouldDownmix = downmix && event.channels > 1;
+  const outputRate = targetSampleRate ?? event.sampleRate;
+  if (!shouldDownmix && outputRate === event.sampleRate && encoding === event.encoding) {
+    return event;
+  }
+
+  let samples = decodeAudio(getFrameBytes(event), event.encoding);
+  let channels = event.channels;
+  if (shouldDownmix) {
+    samples = downmixToMono(samples, channels);
+    channels = 1;
+  }
+
+  if (outputRate !== event.sampleRate) {
+    if (
+      !resampler ||
+      resampler.inputRate !== event.sampleRate ||
+      resampler.channels !== channels
+    ) {
+      resampler = createResampler({ inputRate: event.sampleRate, outputRate, channels });
+    }
+    samples = resampler.processInt16(samples);
+    if (samples.length === 0) {
+      return null;
+    }
+  }
+
+  // Keep the frame format the native layer delivered.
+  const bytes = encodeAudio(samples, encoding);
+  return {
+    ...event,
+    ...(event.data ? { pcmBase64: "", data: bytes } : { pcmBase64: encodeBase64(bytes) }),
+    encoding,
+    sampleRate: outputRate,
+    channels,
+  };
+}
@@ -0,0 +1,123 @@
+// G.711 companding as used by telephony media streams: one byte per
+// sample, 14-bit (μ-law) or 13-bit (A-law) dynamic range. Samples are
+// scaled to and from the full 16-bit range.
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 8159;
+const MULAW_SEGMENT_ENDS = [0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff, 0x1fff];
+const ALAW_SEGMENT_ENDS = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+const MULAW_DECODE_TABLE = new Int16Array(256);
+const ALAW_DECODE_TABLE = new Int16Array(256);
+for (let i = 0; i < 256; i++) {
+  MULAW_DECODE_TABLE[i] = mulawToLinear(i);
+  ALAW_DECODE_TABLE[i] = alawToLinear(i);
+}
+
+/**
+ * Encode PCM 16‑bit samples as G.711 μ-law bytes.
+ */
+export function encodeMulaw(samples: Int16Array): Uint8Array {
+  const bytes = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    bytes[i] = linearToMulaw(samples[i]);
+  }
+  return bytes;
+}
+
+/**
+ * Decode G.711 μ-law bytes into PCM 16‑bit samples.
+ */
+export function decodeMulaw(bytes: Uint8Array): Int16Array {
+  const samples = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    samples[i] = MULAW_DECODE_TABLE[bytes[i]];
+  }
+  return samples;
+}
+
+/**
+ * Encode PCM 16‑bit samples as G.711 A-law bytes.
+ */
+export function encodeAlaw(samples: Int16Array): Uint8Array {
+  const bytes = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    bytes[i] = linearToAlaw(samples[i]);
+  }
+  return bytes;
+}
+
+/**
+ * Decode G.711 A-law bytes into PCM 16‑bit samples.
+ */
+export function decodeAlaw(bytes: Uint8Array): Int16Array {
+  const samples = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    samples[i] = ALAW_DECODE_TABLE[bytes[i]];
+  }
+  return samples;
+}
+
+function linearToMulaw(sample: number): number {
+  // Works on 14-bit magnitudes like the ITU reference implementation.
+  let magnitude = sample >> 2;
+  let mask = 0xff;
+  if (magnitude < 0) {
+    magnitude = -magnitude;
+    mask = 0x7f;
+  }
+  magnitude = Math.min(magnitude, MULAW_CLIP) + (MULAW_BIAS >> 2);
+
+  const segment = findSegment(magnitude, MULAW_SEGMENT_ENDS);
+  if (segment >= 8) {
+    return 0x7f ^ mask;
+  }
+  // Bits are inverted on the wire.
+  return ((segment << 4) | ((magnitude >> (segment + 1)) & 0x0f)) ^ mask;
+}
+
+function mulawToLinear(value: number): number {
+  const inverted = ~value & 0xff;
+  const exponent = (inverted >> 4) & 0x07;
+  const mantissa = inverted & 0x0f;
+  const magnitude = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+  return inverted & 0x80 ? -magnitude : magnitude;
+}
+
+function linearToAlaw(sample: number): number {
+  // Works on 13-bit magnitudes like the ITU reference implementation.
+  let magnitude = sample >> 3;
+  let mask = 0xd5;
+  if (magnitude < 0) {
+    magnitude = -magnitude - 1;
+    mask = 0x55;
+  }
+
+  const segment = findSegment(magnitude, ALAW_SEGMENT_ENDS);
+  if (segment >= 8) {
+    return 0x7f ^ mask;
+  }
+  const mantissa = segment < 2 ? (magnitude >> 1) & 0x0f : (magnitude >> segment) & 0x0f;
+  // The sign and even bits are inverted on the wire.
+  return ((segment << 4) | mantissa) ^ mask;
+}
+
+function alawToLinear(value: number): number {
+  const toggled = value ^ 0x55;
+  const exponent = (toggled >> 4) & 0x07;
+  let magnitude = (toggled & 0x0f) << 4;
+  if (exponent === 0) {
+    magnitude += 8;
+  } else {
+    magnitude = (magnitude + 0x108) << (exponent - 1);
+  }
+  return toggled & 0x80 ? magnitude : -magnitude;
+}
+
+function findSegment(magnitude: number, segmentEnds: number[]): number {
+  let segment = 0;
+  while (segment < segmentEnds.length && magnitude > segmentEnds[segment]) {
+    segment++;
+  }
+  return segment;
+}
@@ -1,23 +1,159 @@
 import streamAudioModule, {
   type AudioFrameEvent,
+  type AudioLevel,
+  type AudioLevelEvent,
+  type AudioEncoding,
+  type FrameFormat,
   type ExpoStreamAudioModuleEvents,
   type PermissionStatus,
+  type Subscription,
   type StreamAudioOptions,
   type StreamStatus,
+  type StreamStatusChangeReason,
+  type StreamStatusChangeEvent,
+  type AudioInterruptionEvent,
+  type AudioInputRoute,
+  type AudioRouteChangeReason,
+  type AudioRouteChangeEvent,
+  type AudioInputDevice,
+  type AndroidAudioSource,
+  type IosAudioMode,
+  type StreamSessionInfo,
   type BufferedAudioSegment,
+  type CompressedSegmentFile,
+  type CompressBufferedSegmentErrorCode,
+  type StreamAudioError,
+  type StreamAudioErrorCode,
+  type ExportBufferedAudioOptions,
+  type ExportedBufferedAudio,
+  type ExportBufferedAudioErrorCode,
+  type RecentAudio,
+  type RecentAudioOptions,
+  type AudioLevelViewProps,
+  type WaveformViewProps,
 } from "./ExpoStreamAudioModule";
-
-export type Subscription = { remove: () => void };
+import { encodeFlacAsync } from "./flac";
+import {
+  addFrameStreamListener,
+  resetFrameStream,
+  resumeFrameStream,
+  startFrameStream,
+} from "./frameStream";
+import { bytesToInt16, decodeBase64, encodeBase64 } from "./pcm";
+import { parseWav, writeWav } from "./wav";
 
 export type {
   AudioFrameEvent,
+  AudioLevel,
+  AudioLevelEvent,
+  AudioEncoding,
+  FrameFormat,
   PermissionStatus,
+  Subscription,
   StreamAudioOptions,
   StreamStatus,
+  StreamStatusChangeReason,
+  StreamStatusChangeEvent,
+  AudioInterruptionEvent,
+  AudioInputRoute,
+  AudioRouteChangeReason,
+  AudioRouteChangeEvent,
+  AudioInputDevice,
+  AndroidAudioSource,
+  IosAudioMode,
+  StreamSessionInfo,
   BufferedAudioSegment,
+  CompressedSegmentFile,
+  CompressBufferedSegmentErrorCode,
   ExpoStreamAudioModuleEvents,
+  StreamAudioError,
+  StreamAudioErrorCode,
+  ExportBufferedAudioOptions,
+  ExportedBufferedAudio,
+  ExportBufferedAudioErrorCode,
+  RecentAudio,
+  RecentAudioOptions,
+  AudioLevelViewProps,
+  WaveformViewProps,
 };
 
+export {
+  decodeFrame,
+  getFrameBytes,
+  decodeBase64,
+  encodeBase64,
+  decodePcm16Base64,
+  encodePcm16Base64,
+  bytesToInt16,
+  int16ToBytes,
+  int16ToFloat32,
+  float32ToInt16,
+  float32ToBytes,
+  bytesToFloat32,
+  downmixToMono,
+  bytesPerSample,
+  encodeAudio,
+  decodeAudio,
+} from "./pcm";
+export { encodeMulaw, decodeMulaw, encodeAlaw, decodeAlaw } from "./g711";
+export { encodeFlac, encodeFlacAsync, wavToFlac } from "./flac";
+export type { FlacEncodeOptions } from "./flac";
+export type { DecodedAudioFrame } from "./pcm";
+export { createResampler } from "./resampler";
+export type { ResamplerOptions, ResamplerQuality, StreamingResampler } from "./resampler";
+export { parseWav, writeWav, concatWav } from "./wav";
+export type {
+  WavFormat,
+  ParsedWav,
+  ParseWavOptions,
+  WavSegmentInput,
+  ConcatWavOptions,
+  ConcatenatedWav,
+} from "./wav";
+export { createVoiceActivityDetector } from "./vad";
+export type {
+  VoiceActivityDetector,
+  VoiceActivityDetectorOptions,
+  VoiceActivityEvent,
+} from "./vad";
+export { createSpectrumAnalyzer, logBandEdges, toLogBands } from "./spectrum";
+export type {
+  LogBandOptions,
+  SpectrumAnalyzer,
+  SpectrumAnalyzerOptions,
+  SpectrumWindowing,
+} from "./spectrum";
+export { useStreamAudio } from "./useStreamAudio";
+export { default as AudioLevelView } from "./AudioLevelView";
+export { default as WaveformView } from "./WaveformView";
+export type { BackoffPolicy } from "./backoff";
+export { createRealtimeStreamer } from "./realtimeStreamer";
+export type {
+  RealtimeMessage,
+  ReconnectPolicy,
+  RealtimeCloseInfo,
+  RealtimeOutage,
+  RealtimeConnectionStatus,
+  RealtimeStreamerState,
+  RealtimeStreamerOptions,
+  RealtimeStreamer,
+} from "./realtimeStreamer";
+export { createUploadQueue } from "./uploadQueue";
+export type {
+  UploadQueueStorage,
+  UploadEntryStatus,
+  UploadQueueEntry,
+  UploadQueueProgress,
+  UploadContext,
+  UploadQueueOptions,
+  UploadQueue,
+} from "./uploadQueue";
+export type {
+  StreamAudioHookStatus,
+  UseStreamAudioOptions,
+  UseStreamAudioResult,
+} from "./useStreamAudio";
+
 /**
  * Request microphone permission on the current platform.
  * Note: On Android this currently reports the status and expects
@@ -29,9 +165,22 @@ export function requestPermission(): Promise<PermissionStatus> {
 
 /**
  * Start streaming microphone audio from the native layer.
+ * Resolves with the sample rate, input and source actually used, and
+ * rejects with an error whose `code` is a `StreamAudioErrorCode`.
+ * With `strictSampleRate`, frames delivered to `addFrameListener`
+ * are resampled in JS whenever the hardware runs at another rate.
  */
-export function start(options?: StreamAudioOptions): Promise<void> {
-  return streamAudioModule.start(options ?? {});
+export function start(options?: StreamAudioOptions): Promise<StreamSessionInfo> {
+  return startFrameStream(options ?? {});
+}
+
+/**
+ * List the available audio inputs, e.g. the built-in microphone and a
+ * wired or Bluetooth headset. Pass an `id` as `inputDeviceId` to `start`.
+ * On web, names are empty until microphone permission was granted.
+ */
+export function getInputDevices(): Promise<AudioInputDevice[]> {
+  return streamAudioModule.getInputDevices();
 }
 
 /**
@@ -42,7 +191,27 @@ export function stop(): Promise<void> {
 }
 
 /**
- * Get the current streaming status.
+ * Stop emitting frames and writing buffered audio while keeping the input
+ * open (audio session, `AudioRecord` and the Android foreground service),
+ * so `resume()` is instant and keeps the sample rate. The current buffered
+ * segment is finalized; audio is not captured while paused, and frame
+ * timestamps after `resume()` reflect the gap. Does nothing unless
+ * recording.
+ */
+export function pause(): Promise<void> {
+  return streamAudioModule.pause();
+}
+
+/**
+ * Resume emitting frames after `pause()`. Does nothing unless paused.
+ */
+export function resume(): Promise<void> {
+  return resumeFrameStream();
+}
+
+/**
+ * Get the current streaming status. Prefer `addStatusListener` to keep UI
+ * in sync instead of polling.
  */
 export function getStatus(): Promise<StreamStatus> {
   return streamAudioModule.getStatus();
@@ -59,7 +228,8 @@ export function setBufferingEnabled(enabled: boolean): Promise<void> {
 
 /**
  * Retrieve metadata for all buffered audio segments currently
- * stored on disk by the native layer.
+ * stored on disk by the native layer. On iOS and Android the list is
+ * persisted, so segments finalized before an app restart are included.
  */
 export function getBufferedSegments(): Promise<BufferedAudioSegment[]> {
   return streamAudioModule.getBufferedSegments();
@@ -73,17 +243,139 @@ export function clearBufferedSegments(): Promise<void> {
   return streamAudioModule.clearBufferedSegments();
 }
 
+/**
+ * Delete specific buffered segments and their files, e.g. once each one
+ * has been uploaded. Unknown ids are ignored, and the segment that is
+ * still being written is never deleted.
+ */
+export function deleteBufferedSegments(ids: string[]): Promise<void> {
+  return streamAudioModule.deleteBufferedSegments(ids);
+}
+
+/**
+ * Rescan the buffer directory and return every segment that can still be
+ * used, including ones left behind when the app was killed mid-segment:
+ * their WAV headers are repaired from the file length, and empty files are
+ * deleted. Call it on launch before uploading or exporting; the segment
+ * that is still being written is not included.
+ *
+ * Web keeps segments in memory, so this returns the current list.
+ */
+export function recoverBufferedSegments(): Promise<BufferedAudioSegment[]> {
+  return streamAudioModule.recoverBufferedSegments();
+}
+
+/**
+ * Losslessly compress a finalized buffered segment to FLAC, typically
+ * 30–50% smaller than the WAV for speech. The FLAC file is written next
+ * to the WAV and reported in the returned segment's `compressed` field
+ * (and by `getBufferedSegments()` from then on); upload it with its
+ * `mimeType`. Encoding runs on the JS thread (seconds for a five-minute
+ * segment) in slices that leave room for rendering and input.
+ *
+ * Rejects with `segment_not_found` for unknown ids, including the segment
+ * that is still being written.
+ */
+export async function compressBufferedSegment(id: string): Promise<BufferedAudioSegment> {
+  const wav = parseWav(decodeBase64(await streamAudioModule.readBufferedSegment(id)));
+  const flac = await encodeFlacAsync(wav.samples, {
+    sampleRate: wav.sampleRate,
+    channels: wav.channels,
+  });
+  return streamAudioModule.writeCompressedSegment(id, encodeBase64(flac));
+}
+
+/**
+ * Write the buffered audio between `from` and `to` (epoch milliseconds)
+ * into a single file, cut to the range across segment boundaries. Gaps
+ * in buffering are filled with silence; the segment currently being
+ * written is included. The result reports the range actually covered.
+ */
+export function exportBufferedAudio(
+  options: ExportBufferedAudioOptions,
+): Promise<ExportedBufferedAudio> {
+  return streamAudioModule.exportBufferedAudio(options);
+}
+
+/**
+ * Get the last `ms` milliseconds of audio from the pre-roll ring (all of
+ * it when omitted), e.g. to keep the first syllable when the user taps
+ * record or a voice activity detector fires. Requires `preRollMs`; returns
+ * less audio than asked for when the ring holds less. The audio is at the
+ * capture rate and channel count, before `strictSampleRate`, `encoding`
+ * and `downmixToMono` are applied.
+ */
+export async function getRecentAudio(
+  ms?: number,
+  options: RecentAudioOptions = {},
+): Promise<RecentAudio> {
+  const audio = await streamAudioModule.getRecentAudio(ms);
+  if (options.format !== "wav") {
+    return audio;
+  }
+  const wav = writeWav(bytesToInt16(decodeBase64(audio.base64)), audio);
+  return { ...audio, format: "wav", base64: encodeBase64(wav) };
+}
+
+/**
+ * Deliver the last `ms` milliseconds of the pre-roll ring (all of it when
+ * omitted) to frame listeners, ahead of the next live frame, when a session
+ * is promoted, e.g. subscribe a streamer and then call this so it starts
+ * with the audio from before the trigger. Replayed frames have `preRoll`
+ * set and keep their capture timestamps; listeners that were already
+ * subscribed receive that audio a second time.
+ */
+export function emitRecentAudio(ms?: number): Promise<void> {
+  resetFrameStream();
+  return streamAudioModule.emitRecentAudio(ms);
+}
+
 /**
  * Subscribe to audio frame events.
  * Returns an Expo Subscription that can be removed when no longer needed.
  */
 export function addFrameListener(listener: (event: AudioFrameEvent) => void): Subscription {
-  return streamAudioModule.addListener("onFrame", listener);
+  return addFrameStreamListener(listener);
+}
+
+/**
+ * Subscribe to level updates, emitted every `levelIntervalMs` while
+ * recording. Cheaper than a frame listener for driving a level meter.
+ */
+export function addLevelListener(listener: (event: AudioLevelEvent) => void): Subscription {
+  return streamAudioModule.addListener("onLevel", listener);
 }
 
 /**
  * Subscribe to error events emitted by the native layer.
+ * Match on `event.code` rather than the message text.
  */
-export function addErrorListener(listener: (event: { message: string }) => void): Subscription {
+export function addErrorListener(listener: (event: StreamAudioError) => void): Subscription {
   return streamAudioModule.addListener("onError", listener);
 }
+
+/**
+ * Subscribe to status changes, e.g. `recording` → `stopping` → `idle`
+ * with `reason: "read_error"` when the input fails mid-recording.
+ */
+export function addStatusListener(listener: (event: StreamStatusChangeEvent) => void): Subscription {
+  return streamAudioModule.addListener("onStatusChange", listener);
+}
+
+/**
+ * Subscribe to interruptions (`began` / `ended`). While interrupted the
+ * status is `interrupted` and no frames are emitted.
+ */
+export function addInterruptionListener(
+  listener: (event: AudioInterruptionEvent) => void,
+): Subscription {
+  return streamAudioModule.addListener("onInterruption", listener);
+}
+
+/**
+ * Subscribe to input route changes, e.g. a headset being plugged in or
+ * removed. Recording continues on the new input.
+ */
+export function addRouteChangeListener(listener: (event: AudioRouteChangeEvent) => void): Subscription {
+  return streamAudioModule.addListener("onRouteChange", listener);
+}
@@ -0,0 +1,88 @@
+import type { AudioLevel, AudioLevelEvent } from "./ExpoStreamAudio.types";
+
+const MIN_DB = -160;
+
+export function toDb(linear: number): number {
+  return linear > 0 ? Math.max(MIN_DB, 20 * Math.log10(linear)) : MIN_DB;
+}
+
+/**
+ * Accumulates interleaved PCM16 for `AudioLevel` measurements. Backs the
+ * web module and the mock; the native modules measure on their own.
+ */
+export class LevelMeter {
+  private channelSums: number[];
+  private peakSample = 0;
+  private clippedSamples = 0;
+  private sampleCount = 0;
+  // Timestamp of the first sample since the last reset.
+  private timestamp: number | null = null;
+
+  constructor(
+    private readonly channels: number,
+    private readonly sampleRate: number,
+  ) {
+    this.channelSums = new Array<number>(channels).fill(0);
+  }
+
+  get durationMs(): number {
+    return (this.sampleCount / this.channels / this.sampleRate) * 1000;
+  }
+
+  add(samples: Int16Array, timestamp: number) {
+    if (this.timestamp === null) {
+      this.timestamp = timestamp;
+    }
+    for (let i = 0; i < samples.length; i++) {
+      const sample = samples[i];
+      const magnitude = Math.abs(sample);
+      this.channelSums[i % this.channels] += (sample / 32767) * (sample / 32767);
+      this.peakSample = Math.max(this.peakSample, magnitude);
+      if (magnitude >= 32767) {
+        this.clippedSamples++;
+      }
+    }
+    this.sampleCount += samples.length;
+  }
+
+  level(): AudioLevel {
+    const sum = this.channelSums.reduce((total, channelSum) => total + channelSum, 0);
+    const rms = this.sampleCount > 0 ? Math.sqrt(sum / this.sampleCount) : 0;
+    const peak = Math.min(1, this.peakSample / 32767);
+    return { rms, rmsDb: toDb(rms), peak, peakDb: toDb(peak), clippedSamples: this.clippedSamples };
+  }
+
+  channelLevels(): number[] {
+    const frames = this.sampleCount / this.channels;
+    return this.channelSums.map((sum) => (frames > 0 ? Math.sqrt(sum / frames) : 0));
+  }
+
+  event(): AudioLevelEvent {
+    return {
+      ...this.level(),
+      channelLevels: this.channelLevels(),
+      timestamp: this.timestamp ?? 0,
+      durationMs: this.durationMs,
+    };
+  }
+
+  reset() {
+    this.channelSums.fill(0);
+    this.peakSample = 0;
+    this.clippedSamples = 0;
+    this.sampleCount = 0;
+    this.timestamp = null;
+  }
+}
+
+/**
+ * Level and per-channel RMS of one block of interleaved PCM16.
+ */
+export function measureLevel(
+  samples: Int16Array,
+  channels: number,
+): { level: AudioLevel; channelLevels: number[] } {
+  const meter = new LevelMeter(channels, 1);
+  meter.add(samples, 0);
+  return { level: meter.level(), channelLevels: meter.channelLevels() };
+}
@@ -0,0 +1,938 @@
+import type {
+  AudioFrameEvent,
+  AudioInputDevice,
+  AudioRouteChangeEvent,
+  BufferedAudioSegment,
+  CompressBufferedSegmentErrorCode,
+  ExportBufferedAudioErrorCode,
+  ExportBufferedAudioOptions,
+  ExportedBufferedAudio,
+  ExpoStreamAudioModuleEvents,
+  PermissionStatus,
+  RecentAudio,
+  StreamAudioError,
+  StreamAudioOptions,
+  StreamSessionInfo,
+  StreamStatus,
+  StreamStatusChangeReason,
+} from "../ExpoStreamAudio.types";
+import { LevelMeter, measureLevel } from "../level";
+import {
+  decodeBase64,
+  downmixToMono,
+  encodeBase64,
+  float32ToInt16,
+  int16ToBytes,
+} from "../pcm";
+import { PreRollRing } from "../preRoll";
+import { joinTimedPcm, parseWav, writeWav } from "../wav";
+
+export type MockAudioSource =
+  | { type: "silence" }
+  | {
+      type: "sine";
+      /**
+       * Tone frequency in Hz. Defaults to 440.
+       */
+      frequency?: number;
+      /**
+       * Peak amplitude in the range 0–1. Defaults to 0.5.
+       */
+      amplitude?: number;
+    }
+  | {
+      type: "noise";
+      /**
+       * Peak amplitude in the range 0–1. Defaults to 0.1.
+       */
+      amplitude?: number;
+      /**
+       * Seed for the deterministic noise generator. Defaults to 1.
+       */
+      seed?: number;
+    }
+  | {
+      type: "pcm";
+      /**
+       * Samples played sample-for-sample at the stream's sample rate.
+       * Float samples are expected in the range [-1, 1].
+       */
+      samples: Int16Array | Float32Array;
+      /**
+       * Number of interleaved channels in `samples`. Defaults to 1.
+       */
+      channels?: number;
+      /**
+       * Restart from the beginning when the samples run out instead of
+       * continuing with silence. Defaults to false.
+       */
+      loop?: boolean;
+    }
+  | {
+      type: "wav";
+      /**
+       * Bytes of a PCM 16‑bit WAV file. Multichannel files keep their
+       * channels, like `pcm` sources with `channels`.
+       */
+      data: Uint8Array;
+      loop?: boolean;
+    };
+
+export type MockStreamAudioConfig = {
+  /**
+   * Value returned by `requestPermission`. When "denied", `start` rejects
+   * with `permission_denied`. Defaults to "granted".
+   */
+  permission?: PermissionStatus;
+  /**
+   * Audio produced by the fake microphone. Defaults to silence.
+   *
+   * Generated sources play the same signal on every channel. Multichannel
+   * `pcm` and `wav` sources are averaged into mono streams; in stereo
+   * streams a mono source is copied to both channels.
+   */
+  source?: MockAudioSource;
+  /**
+   * Channels the fake microphone can deliver. With 1, `channels: 2`
+   * falls back to mono like a single-microphone device. Defaults to 2.
+   */
+  inputChannels?: 1 | 2;
+  /**
+   * Rate the fake hardware runs at, to simulate a native fallback. When
+   * unset, the requested `sampleRate` (or 16000) is used.
+   */
+  hardwareSampleRate?: number;
+  /**
+   * Epoch milliseconds the fake clock starts at. Defaults to
+   * 2024-01-01T00:00:00Z.
+   */
+  startTime?: number;
+  /**
+   * Platform reported in simulated errors. Defaults to "ios".
+   */
+  platform?: StreamAudioError["platform"];
+  /**
+   * Devices returned by `getInputDevices`. The first one is used unless
+   * `inputDeviceId` selects another; an unknown id makes `start` reject with
+   * `device_unavailable`. Defaults to a single built-in microphone.
+   */
+  inputDevices?: AudioInputDevice[];
+};
+
+// Listeners of different events share a set; `emit` passes each the
+// arguments of its own event.
+type Listener = (event: never) => void;
+
+type MockHardware = Required<
+  Pick<MockStreamAudioConfig, "permission" | "source" | "platform" | "inputDevices" | "inputChannels">
+> &
+  Pick<MockStreamAudioConfig, "hardwareSampleRate">;
+
+const DEFAULT_START_TIME = Date.UTC(2024, 0, 1);
+const DEFAULT_SAMPLE_RATE = 16000;
+const DEFAULT_FRAME_DURATION_MS = 20;
+const DEFAULT_BUFFER_CHUNK_SECONDS = 300;
+const DEFAULT_MAX_BUFFERED_MINUTES = 60;
+
+type GeneratedSource = Exclude<MockAudioSource, { type: "pcm" | "wav" }>;
+
+// Interleaved samples of a `pcm` or `wav` source.
+type DecodedSource = {
+  samples: Int16Array;
+  channels: number;
+};
+
+type MockSegment = {
+  info: BufferedAudioSegment;
+  chunks: Int16Array[];
+  compressed?: Uint8Array;
+};
+
+type FrameBatch = {
+  // Timestamp of the first frame.
+  timestamp: number;
+  chunks: Int16Array[];
+  length: number;
+  subframeLevels: number[];
+};
+
+/**
+ * In-memory implementation of the `ExpoStreamAudio` native module contract.
+ * Frames are only produced when the fake clock is advanced, so tests are
+ * fully deterministic:
+ *
+ * ```ts
+ * mockStreamAudio.configure({ source: { type: "sine", frequency: 440 } });
+ * await start({ frameDurationMs: 20 });
+ * mockStreamAudio.advance(100); // emits 5 frames
+ * ```
+ */
+export class MockStreamAudioModule {
+  private listeners = new Map<keyof ExpoStreamAudioModuleEvents, Set<Listener>>();
+  private config: MockHardware = createDefaultHardware();
+
+  private currentTime = DEFAULT_START_TIME;
+  private status: StreamStatus = "idle";
+  private pendingStartError: StreamAudioError | null = null;
+  private sessionInfo: StreamSessionInfo | null = null;
+
+  private sampleRate = DEFAULT_SAMPLE_RATE;
+  private frameSamples = 0;
+  private channels = 1;
+  private enableLevelMeter = false;
+  private binaryFrames = false;
+  private eventBatchMs = 0;
+  private pendingBatch: FrameBatch | null = null;
+  private preRoll = new PreRollRing(0);
+  private levelIntervalMs = 0;
+  private levelMeter: LevelMeter | null = null;
+  private autoResumeAfterInterruption = false;
+  // Status to return to when an interruption ends.
+  private interruptedFrom: StreamStatus = "recording";
+  private nextFrameTime = 0;
+  private sampleCursor = 0;
+  private noiseState = 1;
+  private sourceAudio: DecodedSource | null = null;
+
+  private bufferingEnabled = false;
+  private bufferChunkSeconds = DEFAULT_BUFFER_CHUNK_SECONDS;
+  private maxBufferedMinutes = DEFAULT_MAX_BUFFERED_MINUTES;
+  private currentSegment: MockSegment | null = null;
+  private segments: MockSegment[] = [];
+  // Segments "on disk" but missing from the index, see `simulateProcessDeath`.
+  private orphanedSegments: MockSegment[] = [];
+  private segmentCounter = 0;
+  private exports = new Map<string, Uint8Array>();
+
+  // Native module contract
+
+  async requestPermission(): Promise<PermissionStatus> {
+    return this.config.permission;
+  }
+
+  async start(options: StreamAudioOptions = {}): Promise<StreamSessionInfo> {
+    if (this.status !== "idle" && this.sessionInfo) {
+      return this.sessionInfo;
+    }
+
+    this.changeStatus("starting", "user");
+    if (this.pendingStartError) {
+      const error = this.pendingStartError;
+      this.pendingStartError = null;
+      this.fail(error);
+    }
+    if (this.config.permission === "denied") {
+      this.fail(this.createError("permission_denied", "Microphone permission denied."));
+    }
+    const inputDevice = options.inputDeviceId
+      ? this.config.inputDevices.find((device) => device.id === options.inputDeviceId)
+      : this.config.inputDevices[0];
+    if (options.inputDeviceId && !inputDevice) {
+      this.fail(
+        this.createError(
+          "device_unavailable",
+          `Input device ${options.inputDeviceId} is not connected.`,
+        ),
+      );
+    }
+
+    this.sampleRate = this.config.hardwareSampleRate ?? options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+    const frameDurationMs = options.frameDurationMs ?? DEFAULT_FRAME_DURATION_MS;
+    this.frameSamples = Math.max(1, Math.round((this.sampleRate * frameDurationMs) / 1000));
+    this.channels = Math.min(options.channels === 2 ? 2 : 1, this.config.inputChannels);
+    this.enableLevelMeter = options.enableLevelMeter ?? false;
+    this.binaryFrames = options.frameFormat === "arraybuffer";
+    this.eventBatchMs = options.eventBatchMs && options.eventBatchMs > 0 ? options.eventBatchMs : 0;
+    this.pendingBatch = null;
+    this.preRoll = new PreRollRing(options.preRollMs ?? 0);
+    this.levelIntervalMs =
+      options.levelIntervalMs && options.levelIntervalMs > 0 ? options.levelIntervalMs : 0;
+    this.levelMeter =
+      this.levelIntervalMs > 0 ? new LevelMeter(this.channels, this.sampleRate) : null;
+    this.autoResumeAfterInterruption = options.autoResumeAfterInterruption ?? false;
+
+    this.bufferingEnabled = options.enableBuffering ?? false;
+    this.bufferChunkSeconds =
+      options.bufferChunkSeconds && options.bufferChunkSeconds > 0
+        ? options.bufferChunkSeconds
+        : DEFAULT_BUFFER_CHUNK_SECONDS;
+    this.maxBufferedMinutes =
+      options.maxBufferedMinutes && options.maxBufferedMinutes > 0
+        ? options.maxBufferedMinutes
+        : DEFAULT_MAX_BUFFERED_MINUTES;
+
+    this.nextFrameTime = this.currentTime;
+    this.sessionInfo = {
+      sampleRate: this.sampleRate,
+      channels: this.channels,
+      inputDevice: inputDevice
+        ? { id: inputDevice.id, name: inputDevice.name, type: inputDevice.type }
+        : null,
+      ...(this.config.platform === "android"
+        ? { androidAudioSource: options.androidAudioSource ?? "voice_recognition" }
+        : {}),
+      ...(this.config.platform === "ios" ? { iosMode: options.iosMode ?? "voiceChat" } : {}),
+    };
+    this.changeStatus("recording", "user");
+    return this.sessionInfo;
+  }
+
+  async getInputDevices(): Promise<AudioInputDevice[]> {
+    return this.config.inputDevices.map((device) => ({
+      ...device,
+      sampleRates: [...device.sampleRates],
+    }));
+  }
+
+  async stop(): Promise<void> {
+    this.stopRecordingInternal();
+  }
+
+  async pause(): Promise<void> {
+    if (this.status !== "recording") return;
+    this.flushFrameBatch();
+    this.finalizeCurrentSegmentIfNeeded();
+    this.changeStatus("paused", "user");
+  }
+
+  async resume(): Promise<void> {
+    if (this.status !== "paused" && this.status !== "interrupted") return;
+    this.preRoll.clear();
+    this.levelMeter?.reset();
+    this.changeStatus("recording", "user");
+  }
+
+  async getStatus(): Promise<StreamStatus> {
+    return this.status;
+  }
+
+  async setBufferingEnabled(enabled: boolean): Promise<void> {
+    this.bufferingEnabled = enabled;
+    if (!enabled) {
+      this.finalizeCurrentSegmentIfNeeded();
+    }
+  }
+
+  async getBufferedSegments(): Promise<BufferedAudioSegment[]> {
+    return this.segments.map((segment) => ({ ...segment.info }));
+  }
+
+  async clearBufferedSegments(): Promise<void> {
+    this.currentSegment = null;
+    this.segments = [];
+    this.orphanedSegments = [];
+  }
+
+  async deleteBufferedSegments(ids: string[]): Promise<void> {
+    const idSet = new Set(ids);
+    this.segments = this.segments.filter((segment) => !idSet.has(segment.info.id));
+    this.orphanedSegments = this.orphanedSegments.filter((segment) => !idSet.has(segment.info.id));
+  }
+
+  async recoverBufferedSegments(): Promise<BufferedAudioSegment[]> {
+    // Empty files are deleted by the native implementations.
+    const recovered = this.orphanedSegments.filter((segment) => segment.info.sizeBytes > 0);
+    this.orphanedSegments = [];
+    this.segments = [...this.segments, ...recovered].sort(
+      (a, b) => a.info.startTimestamp - b.info.startTimestamp,
+    );
+    return this.getBufferedSegments();
+  }
+
+  async readBufferedSegment(id: string): Promise<string> {
+    const segment = this.findSegment(id);
+    return encodeBase64(writeWav(concatChunks(segment.chunks), segment.info));
+  }
+
+  async writeCompressedSegment(id: string, base64: string): Promise<BufferedAudioSegment> {
+    const segment = this.findSegment(id);
+    segment.compressed = decodeBase64(base64);
+    segment.info.compressed = {
+      uri: segment.info.uri.replace(/\.wav$/, ".flac"),
+      mimeType: "audio/flac",
+      sizeBytes: segment.compressed.byteLength,
+    };
+    return { ...segment.info };
+  }
+
+  async getRecentAudio(ms?: number): Promise<RecentAudio> {
+    return this.preRoll.read(ms, {
+      sampleRate: this.sampleRate,
+      channels: this.channels,
+      startTimestamp: this.currentTime,
+    });
+  }
+
+  async emitRecentAudio(ms?: number): Promise<void> {
+    this.flushFrameBatch();
+    this.preRoll.recent(ms).forEach((frame) => {
+      this.sendFrameEvent(frame.samples, frame.startTimestamp, undefined, true);
+    });
+  }
+
+  async exportBufferedAudio(options: ExportBufferedAudioOptions): Promise<ExportedBufferedAudio> {
+    const { from, to, format = "wav" } = options;
+    if (!(to > from)) {
+      throw codedError("invalid_range", `Invalid export range: ${from} - ${to}.`);
+    }
+    if (format !== "wav") {
+      throw codedError("unsupported", `Unsupported export format: ${format}.`);
+    }
+
+    const sources = [...this.segments, ...(this.currentSegment ? [this.currentSegment] : [])].map(
+      (segment) => ({
+        samples: concatChunks(segment.chunks),
+        sampleRate: segment.info.sampleRate,
+        channels: segment.info.channels,
+        startTimestamp: segment.info.startTimestamp,
+      }),
+    );
+
+    let joined: ReturnType<typeof joinTimedPcm>;
+    try {
+      joined = joinTimedPcm(sources, { from, to });
+    } catch (error) {
+      throw codedError("export_failed", (error as Error).message);
+    }
+    if (!joined) {
+      throw codedError("no_buffered_audio", `No buffered audio between ${from} and ${to}.`);
+    }
+
+    const wav = writeWav(joined.samples, joined);
+    const uri = `mock://expo_stream_audio_exports/export_${Math.round(joined.startTimestamp)}_${this.exports.size + 1}.wav`;
+    this.exports.set(uri, wav);
+    return {
+      uri,
+      format: "wav",
+      sampleRate: joined.sampleRate,
+      channels: joined.channels,
+      startTimestamp: joined.startTimestamp,
+      endTimestamp: joined.endTimestamp,
+      durationMs: joined.endTimestamp - joined.startTimestamp,
+      sizeBytes: wav.byteLength,
+    };
+  }
+
+  // Event emitter contract
+
+  addListener<EventName extends keyof ExpoStreamAudioModuleEvents>(
+    eventName: EventName,
+    listener: ExpoStreamAudioModuleEvents[EventName],
+  ): { remove: () => void } {
+    let set = this.listeners.get(eventName);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(eventName, set);
+    }
+    set.add(listener);
+    return { remove: () => this.removeListener(eventName, listener) };
+  }
+
+  removeListener<EventName extends keyof ExpoStreamAudioModuleEvents>(
+    eventName: EventName,
+    listener: ExpoStreamAudioModuleEvents[EventName],
+  ): void {
+    this.listeners.get(eventName)?.delete(listener);
+  }
+
+  removeAllListeners(eventName: keyof ExpoStreamAudioModuleEvents): void {
+    this.listeners.delete(eventName);
+  }
+
+  listenerCount(eventName: keyof ExpoStreamAudioModuleEvents): number {
+    return this.listeners.get(eventName)?.size ?? 0;
+  }
+
+  emit<EventName extends keyof ExpoStreamAudioModuleEvents>(
+    eventName: EventName,
+    ...args: Parameters<ExpoStreamAudioModuleEvents[EventName]>
+  ): void {
+    [...(this.listeners.get(eventName) ?? [])].forEach((listener) =>
+      (listener as (...eventArgs: unknown[]) => void)(...args),
+    );
+  }
+
+  // Test controls
+
+  /**
+   * Change the fake hardware. Takes effect for values read at `start`
+   * (permission, hardware rate) on the next session; a new `source`
+   * applies immediately.
+   */
+  configure(config: MockStreamAudioConfig) {
+    const { startTime, ...rest } = config;
+    this.config = { ...this.config, ...rest };
+    if (startTime !== undefined) {
+      this.currentTime = startTime;
+      this.nextFrameTime = startTime;
+    }
+    if (config.source) {
+      this.sampleCursor = 0;
+      this.noiseState = config.source.type === "noise" ? (config.source.seed ?? 1) : 1;
+      this.sourceAudio = decodeSourceSamples(config.source);
+    }
+  }
+
+  /**
+   * Current time of the fake clock in epoch milliseconds.
+   */
+  get now(): number {
+    return this.currentTime;
+  }
+
+  /**
+   * Move the fake clock forward, emitting every frame that completes
+   * within the interval. Returns the emitted frames; with `eventBatchMs`,
+   * the emitted batches.
+   */
+  advance(ms: number): AudioFrameEvent[] {
+    const target = this.currentTime + ms;
+    const frameDurationMs = (this.frameSamples / this.sampleRate) * 1000;
+    const emitted: AudioFrameEvent[] = [];
+
+    while (this.status === "recording" && this.nextFrameTime + frameDurationMs <= target) {
+      this.currentTime = this.nextFrameTime + frameDurationMs;
+      const event = this.emitFrame(this.nextFrameTime);
+      if (event) {
+        emitted.push(event);
+      }
+      this.nextFrameTime += frameDurationMs;
+    }
+
+    this.currentTime = target;
+    if (this.status !== "recording") {
+      this.nextFrameTime = target;
+    }
+    return emitted;
+  }
+
+  /**
+   * Emit an `onError` event. Fatal errors end the recording the way a
+   * native failure would.
+   */
+  simulateError(error: Partial<StreamAudioError> & Pick<StreamAudioError, "code">) {
+    const event = {
+      message: `Simulated ${error.code}`,
+      fatal: false,
+      platform: this.config.platform,
+      ...error,
+    } as StreamAudioError;
+    this.emit("onError", event);
+    if (event.fatal) {
+      this.stopRecordingInternal(event.code === "permission_denied" ? "permission_revoked" : "read_error");
+    }
+  }
+
+  /**
+   * Make the next `start` call reject with the given error (and emit it
+   * through `onError`).
+   */
+  failNextStart(error: Partial<StreamAudioError> & Pick<StreamAudioError, "code">) {
+    this.pendingStartError = {
+      message: `Simulated ${error.code}`,
+      platform: this.config.platform,
+      ...error,
+      fatal: true,
+    } as StreamAudioError;
+  }
+
+  /**
+   * Force a status change and emit `onStatusChange`, e.g. to simulate an
+   * OS interruption. Frames are only emitted while "recording"; moving to
+   * "idle" ends the recording and finalizes the current segment.
+   */
+  setStatus(status: StreamStatus, reason: StreamStatusChangeReason = "interruption") {
+    if (status === "idle") {
+      this.stopRecordingInternal(reason);
+    }
+    this.changeStatus(status, reason);
+  }
+
+  /**
+   * Simulate the OS interrupting the recording (`began`) and handing the
+   * input back (`ended`). With `autoResumeAfterInterruption` and
+   * `shouldResume`, recording resumes on `ended`.
+   */
+  simulateInterruption(type: "began" | "ended", options: { shouldResume?: boolean } = {}) {
+    if (type === "began") {
+      if (this.status !== "recording" && this.status !== "paused") return;
+      this.interruptedFrom = this.status;
+      this.flushFrameBatch();
+      this.finalizeCurrentSegmentIfNeeded();
+      this.emit("onInterruption", {
+        type,
+        shouldResume: false,
+        resumed: false,
+        timestamp: this.currentTime,
+      });
+      this.changeStatus("interrupted", "interruption");
+      return;
+    }
+
+    if (this.status !== "interrupted") return;
+    const shouldResume = options.shouldResume ?? true;
+    const resumed = this.autoResumeAfterInterruption && shouldResume;
+    if (resumed) {
+      this.preRoll.clear();
+      this.levelMeter?.reset();
+      this.changeStatus(this.interruptedFrom, "interruption");
+    }
+    this.emit("onInterruption", { type, shouldResume, resumed, timestamp: this.currentTime });
+  }
+
+  /**
+   * Emit an `onRouteChange` event, e.g. to simulate unplugging a headset.
+   */
+  simulateRouteChange(event: Partial<AudioRouteChangeEvent> = {}) {
+    this.emit("onRouteChange", {
+      reason: "unknown",
+      previousInput: null,
+      currentInput: { id: "mock-mic", name: "Mock Microphone", type: "MicrophoneBuiltIn" },
+      timestamp: this.currentTime,
+      ...event,
+    });
+  }
+
+  /**
+   * Simulate the OS killing the app mid-recording: recording ends without
+   * finalizing the current segment, which stays "on disk" but is not
+   * listed until `recoverBufferedSegments` is called.
+   */
+  simulateProcessDeath() {
+    if (this.currentSegment) {
+      this.orphanedSegments.push(this.currentSegment);
+      this.currentSegment = null;
+    }
+    this.status = "idle";
+    this.nextFrameTime = this.currentTime;
+  }
+
+  /**
+   * WAV bytes of a buffered segment, as the native layer would have
+   * written them to `uri`.
+   */
+  getSegmentData(id: string): Uint8Array | null {
+    const segment = [...this.segments, ...this.orphanedSegments].find((item) => item.info.id === id);
+    return segment ? writeWav(concatChunks(segment.chunks), segment.info) : null;
+  }
+
+  /**
+   * FLAC bytes written by `compressBufferedSegment`, or null when the
+   * segment has not been compressed.
+   */
+  getCompressedSegmentData(id: string): Uint8Array | null {
+    return this.segments.find((item) => item.info.id === id)?.compressed ?? null;
+  }
+
+  /**
+   * WAV bytes of a file returned by `exportBufferedAudio`.
+   */
+  getExportData(uri: string): Uint8Array | null {
+    return this.exports.get(uri) ?? null;
+  }
+
+  /**
+   * Restore the initial state: default config, empty buffer and the clock
+   * back at its start time. Listeners are kept, since the package shares a
+   * single frame subscription between all `addFrameListener` callers;
+   * remove your own subscriptions in test cleanup.
+   */
+  reset() {
+    this.config = createDefaultHardware();
+    this.currentTime = DEFAULT_START_TIME;
+    this.nextFrameTime = DEFAULT_START_TIME;
+    this.status = "idle";
+    this.pendingStartError = null;
+    this.sampleCursor = 0;
+    this.noiseState = 1;
+    this.sourceAudio = null;
+    this.sessionInfo = null;
+    this.sampleRate = DEFAULT_SAMPLE_RATE;
+    this.channels = 1;
+    this.pendingBatch = null;
+    this.preRoll = new PreRollRing(0);
+    this.levelIntervalMs = 0;
+    this.levelMeter = null;
+    this.bufferingEnabled = false;
+    this.currentSegment = null;
+    this.segments = [];
+    this.orphanedSegments = [];
+    this.segmentCounter = 0;
+    this.exports.clear();
+  }
+
+  // Internal helpers
+
+  // Returns the event sent, or null while the frame waits in a batch.
+  private emitFrame(timestamp: number): AudioFrameEvent | null {
+    const channels = this.channels;
+    const pcm = this.nextSourceFrame();
+
+    if (this.bufferingEnabled) {
+      this.appendToBuffer(pcm, timestamp);
+    }
+    this.preRoll.push({ samples: pcm, sampleRate: this.sampleRate, channels, startTimestamp: timestamp });
+    if (this.levelMeter) {
+      this.levelMeter.add(pcm, timestamp);
+      if (this.levelMeter.durationMs >= this.levelIntervalMs) {
+        this.emit("onLevel", this.levelMeter.event());
+        this.levelMeter.reset();
+      }
+    }
+
+    if (this.eventBatchMs <= 0) {
+      return this.sendFrameEvent(pcm, timestamp);
+    }
+    const batch = this.pendingBatch ?? { timestamp, chunks: [], length: 0, subframeLevels: [] };
+    this.pendingBatch = batch;
+    batch.chunks.push(pcm);
+    batch.length += pcm.length;
+    if (this.enableLevelMeter) {
+      batch.subframeLevels.push(measureLevel(pcm, channels).level.rms);
+    }
+    if ((batch.length / channels / this.sampleRate) * 1000 < this.eventBatchMs) {
+      return null;
+    }
+    return this.flushFrameBatch();
+  }
+
+  private flushFrameBatch(): AudioFrameEvent | null {
+    const batch = this.pendingBatch;
+    if (!batch) return null;
+    this.pendingBatch = null;
+    const pcm = new Int16Array(batch.length);
+    let offset = 0;
+    batch.chunks.forEach((chunk) => {
+      pcm.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return this.sendFrameEvent(
+      pcm,
+      batch.timestamp,
+      this.enableLevelMeter ? batch.subframeLevels : undefined,
+    );
+  }
+
+  private sendFrameEvent(
+    pcm: Int16Array,
+    timestamp: number,
+    subframeLevels?: number[],
+    preRoll = false,
+  ): AudioFrameEvent {
+    const channels = this.channels;
+    const measured = this.enableLevelMeter ? measureLevel(pcm, channels) : undefined;
+    const bytes = int16ToBytes(pcm);
+    const event: AudioFrameEvent = {
+      ...(this.binaryFrames ? { pcmBase64: "", data: bytes } : { pcmBase64: encodeBase64(bytes) }),
+      encoding: "pcm16",
+      sampleRate: this.sampleRate,
+      channels,
+      timestamp,
+      level: measured?.level,
+      channelLevels: measured?.channelLevels,
+      subframeLevels,
+      preRoll: preRoll || undefined,
+    };
+    this.emit("onFrame", event);
+    return event;
+  }
+
+  // Interleaved samples of the next frame, one per stream channel.
+  private nextSourceFrame(): Int16Array {
+    const source = this.config.source;
+    const channels = this.channels;
+    if (source.type !== "pcm" && source.type !== "wav") {
+      const samples = new Float32Array(this.frameSamples * channels);
+      for (let i = 0; i < this.frameSamples; i++) {
+        samples.fill(this.nextSample(source), i * channels, (i + 1) * channels);
+      }
+      return float32ToInt16(samples);
+    }
+
+    // Source samples are copied rather than converted, so that audio in the
+    // stream's layout comes out bit-exact.
+    const pcm = new Int16Array(this.frameSamples * channels);
+    const audio = this.sourceAudio;
+    const frameCount = audio ? Math.floor(audio.samples.length / audio.channels) : 0;
+    let written = 0;
+    while (written < this.frameSamples) {
+      const index = this.sampleCursor;
+      const frame =
+        index < frameCount ? index : source.loop && frameCount > 0 ? index % frameCount : -1;
+      if (!audio || frame < 0) {
+        // Silence for the rest of the frame.
+        this.sampleCursor += this.frameSamples - written;
+        break;
+      }
+
+      const count = Math.min(this.frameSamples - written, frameCount - frame);
+      const run = audio.samples.subarray(frame * audio.channels, (frame + count) * audio.channels);
+      if (audio.channels === channels) {
+        pcm.set(run, written * channels);
+      } else if (channels === 1) {
+        pcm.set(downmixToMono(run, audio.channels), written);
+      } else {
+        for (let i = 0; i < count; i++) {
+          for (let c = 0; c < channels; c++) {
+            pcm[(written + i) * channels + c] =
+              run[i * audio.channels + Math.min(c, audio.channels - 1)];
+          }
+        }
+      }
+      written += count;
+      this.sampleCursor += count;
+    }
+    return pcm;
+  }
+
+  private nextSample(source: GeneratedSource): number {
+    const index = this.sampleCursor++;
+
+    switch (source.type) {
+      case "silence":
+        return 0;
+      case "sine":
+        return (
+          (source.amplitude ?? 0.5) *
+          Math.sin((2 * Math.PI * (source.frequency ?? 440) * index) / this.sampleRate)
+        );
+      case "noise": {
+        // mulberry32
+        this.noiseState = (this.noiseState + 0x6d2b79f5) | 0;
+        let t = this.noiseState;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        const random = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        return (source.amplitude ?? 0.1) * (random * 2 - 1);
+      }
+    }
+  }
+
+  private createError(code: StreamAudioError["code"], message: string): StreamAudioError {
+    return { code, message, fatal: true, platform: this.config.platform } as StreamAudioError;
+  }
+
+  private fail(error: StreamAudioError): never {
+    this.emit("onError", error);
+    this.changeStatus("idle", "start_failed");
+    throw Object.assign(new Error(error.message), { code: error.code });
+  }
+
+  private stopRecordingInternal(reason: StreamStatusChangeReason = "user") {
+    if (this.status === "idle" || this.status === "starting") return;
+    this.flushFrameBatch();
+    this.changeStatus("stopping", reason);
+    this.finalizeCurrentSegmentIfNeeded();
+    this.changeStatus("idle", reason);
+  }
+
+  private changeStatus(status: StreamStatus, reason: StreamStatusChangeReason) {
+    if (status === this.status) return;
+    const previousStatus = this.status;
+    this.status = status;
+    this.emit("onStatusChange", { status, previousStatus, reason, timestamp: this.currentTime });
+  }
+
+  private appendToBuffer(pcm: Int16Array, timestamp: number) {
+    if (!this.currentSegment) {
+      const id = `mock-segment-${++this.segmentCounter}`;
+      this.currentSegment = {
+        info: {
+          id,
+          uri: `mock://expo_stream_audio/segment_${timestamp}_${id}.wav`,
+          sampleRate: this.sampleRate,
+          channels: this.channels,
+          startTimestamp: timestamp,
+          durationMs: 0,
+          sizeBytes: 0,
+        },
+        chunks: [],
+      };
+    }
+
+    const segment = this.currentSegment;
+    segment.chunks.push(pcm);
+    segment.info.sizeBytes += pcm.byteLength;
+    segment.info.durationMs = Math.floor(
+      (segment.info.sizeBytes / (this.sampleRate * 2 * segment.info.channels)) * 1000,
+    );
+
+    if (segment.info.durationMs >= this.bufferChunkSeconds * 1000) {
+      this.finalizeCurrentSegmentIfNeeded();
+    }
+  }
+
+  private findSegment(id: string): MockSegment {
+    // Like the native index, only finalized segments are known.
+    const segment = this.segments.find((item) => item.info.id === id);
+    if (!segment) {
+      throw codedError("segment_not_found", `No buffered segment with id ${id}.`);
+    }
+    return segment;
+  }
+
+  private finalizeCurrentSegmentIfNeeded() {
+    const segment = this.currentSegment;
+    if (!segment) return;
+    this.currentSegment = null;
+    if (segment.info.sizeBytes <= 0) return;
+
+    this.segments.push(segment);
+    const maxMs = this.maxBufferedMinutes * 60_000;
+    let totalMs = this.segments.reduce((acc, item) => acc + item.info.durationMs, 0);
+    while (totalMs > maxMs && this.segments.length > 0) {
+      totalMs -= this.segments.shift()!.info.durationMs;
+    }
+  }
+}
+
+function createDefaultHardware(): MockHardware {
+  return {
+    permission: "granted",
+    source: { type: "silence" },
+    platform: "ios",
+    inputChannels: 2,
+    inputDevices: [
+      {
+        id: "mock-mic",
+        name: "Mock Microphone",
+        type: "MicrophoneBuiltIn",
+        sampleRates: [16000, 44100, 48000],
+      },
+    ],
+  };
+}
+
+function decodeSourceSamples(source: MockAudioSource): DecodedSource | null {
+  switch (source.type) {
+    case "pcm":
+      return {
+        samples:
+          source.samples instanceof Float32Array ? float32ToInt16(source.samples) : source.samples,
+        channels: Math.max(1, source.channels ?? 1),
+      };
+    case "wav": {
+      const { samples, channels } = parseWav(source.data);
+      return { samples, channels };
+    }
+    default:
+      return null;
+  }
+}
+
+function concatChunks(chunks: Int16Array[]): Int16Array {
+  const samples = new Int16Array(chunks.reduce((acc, chunk) => acc + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    samples.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return samples;
+}
+
+function codedError(
+  code: ExportBufferedAudioErrorCode | CompressBufferedSegmentErrorCode,
+  message: string,
+): Error {
+  return Object.assign(new Error(message), { code });
+}
@@ -0,0 +1,8 @@
+// Must stay the first import: the mock has to be registered before the
+// package entry below requires the native module.
+import { mockStreamAudio } from "./install";
+
+export * from "../index";
+export { mockStreamAudio };
+export { MockStreamAudioModule } from "./MockStreamAudioModule";
+export type { MockAudioSource, MockStreamAudioConfig } from "./MockStreamAudioModule";
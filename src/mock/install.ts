@@ -0,0 +1,35 @@
+// Installs `globalThis.expo` (and with it `NativeModule`) on web, where the
+// `jest-expo` setup leaves it to `expo` itself.
+import "expo";
+
+import { MockStreamAudioModule } from "./MockStreamAudioModule";
+
+/**
+ * Shared mock instance backing the `expo-stream-audio` API in tests.
+ */
+export const mockStreamAudio = new MockStreamAudioModule();
+
+// The native `jest-expo` presets hand out a copy of a registered module built
+// from its own enumerable properties, so the methods are exposed as functions
+// that forward to the instance (and to any `jest.spyOn` on it).
+const moduleFacade: Record<string, unknown> = {};
+const methods = mockStreamAudio as unknown as Record<string, (...args: unknown[]) => unknown>;
+for (const name of Object.getOwnPropertyNames(MockStreamAudioModule.prototype)) {
+  const descriptor = Object.getOwnPropertyDescriptor(MockStreamAudioModule.prototype, name);
+  if (name !== "constructor" && typeof descriptor?.value === "function") {
+    moduleFacade[name] = (...args: unknown[]) => methods[name](...args);
+  }
+}
+
+// `requireNativeModule` and `registerWebModule` both look the module up on
+// `globalThis.expo.modules` first, so registering the mock there before the
+// package entry is evaluated makes every public function use it.
+const globalObject = globalThis as { expo?: { modules?: Record<string, unknown> } };
+if (!globalObject.expo) {
+  globalObject.expo = {};
+}
+if (!globalObject.expo.modules) {
+  globalObject.expo.modules = {};
+}
+globalObject.expo.modules.ExpoStreamAudio = moduleFacade;
+globalObject.expo.modules.ExpoStreamAudioModule = moduleFacade;
@@ -0,0 +1,358 @@
+import type { AudioEncoding, AudioFrameEvent } from "./ExpoStreamAudio.types";
+import { decodeAlaw, decodeMulaw, encodeAlaw, encodeMulaw } from "./g711";
+
+export type DecodedAudioFrame = {
+  /**
+   * Payload bytes in the frame's `encoding`. A trailing partial sample,
+   * if any, is dropped so that `bytes.length` is a multiple of the
+   * sample size.
+   */
+  bytes: Uint8Array;
+  encoding: AudioEncoding;
+  /**
+   * Samples as signed 16‑bit integers in host byte order.
+   */
+  int16: Int16Array;
+  /**
+   * Samples normalized to the range [-1, 1).
+   */
+  float32: Float32Array;
+  /**
+   * Number of samples in the frame, across all channels.
+   */
+  sampleCount: number;
+  /**
+   * Number of interleaved channels.
+   */
+  channels: number;
+  /**
+   * Sample rate of the frame in Hz.
+   */
+  sampleRate: number;
+  /**
+   * Duration of the frame in milliseconds, derived from `sampleCount`,
+   * `channels` and `sampleRate`.
+   */
+  durationMs: number;
+};
+
+const BASE64_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+const ENCODE_TABLE = new Uint8Array(64);
+const DECODE_TABLE = new Uint8Array(256).fill(255);
+for (let i = 0; i < BASE64_ALPHABET.length; i++) {
+  ENCODE_TABLE[i] = BASE64_ALPHABET.charCodeAt(i);
+  DECODE_TABLE[BASE64_ALPHABET.charCodeAt(i)] = i;
+}
+// Accept the URL-safe alphabet as well.
+DECODE_TABLE["-".charCodeAt(0)] = 62;
+DECODE_TABLE["_".charCodeAt(0)] = 63;
+
+const IS_LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+// String.fromCharCode.apply has an argument count limit on some engines.
+const STRING_CHUNK_SIZE = 0x8000;
+
+/**
+ * Decode a base64 string into bytes. Padding, whitespace and the
+ * URL-safe alphabet are tolerated.
+ */
+export function decodeBase64(base64: string): Uint8Array {
+  let length = base64.length;
+  while (length > 0) {
+    const code = base64.charCodeAt(length - 1);
+    // Trailing `=` padding and whitespace carry no data.
+    if (code !== 61 && code > 32) break;
+    length--;
+  }
+
+  const output = new Uint8Array(Math.floor((length * 3) / 4));
+  let outIndex = 0;
+  let buffer = 0;
+  let bits = 0;
+
+  for (let i = 0; i < length; i++) {
+    const value = DECODE_TABLE[base64.charCodeAt(i) & 0xff];
+    if (value === 255) {
+      // Skip whitespace and any other characters outside the alphabet.
+      continue;
+    }
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      output[outIndex++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return outIndex === output.length ? output : output.subarray(0, outIndex);
+}
+
+/**
+ * Encode bytes as a padded, standard-alphabet base64 string.
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  const length = bytes.length;
+  const encoded = new Uint8Array(Math.ceil(length / 3) * 4);
+  let outIndex = 0;
+  let i = 0;
+
+  for (; i + 2 < length; i += 3) {
+    const triple = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    encoded[outIndex++] = ENCODE_TABLE[(triple >> 18) & 0x3f];
+    encoded[outIndex++] = ENCODE_TABLE[(triple >> 12) & 0x3f];
+    encoded[outIndex++] = ENCODE_TABLE[(triple >> 6) & 0x3f];
+    encoded[outIndex++] = ENCODE_TABLE[triple & 0x3f];
+  }
+
+  const remaining = length - i;
+  if (remaining > 0) {
+    const triple = (bytes[i] << 16) | (remaining === 2 ? bytes[i + 1] << 8 : 0);
+    encoded[outIndex++] = ENCODE_TABLE[(triple >> 18) & 0x3f];
+    encoded[outIndex++] = ENCODE_TABLE[(triple >> 12) & 0x3f];
+    encoded[outIndex++] = remaining === 2 ? ENCODE_TABLE[(triple >> 6) & 0x3f] : 61;
+    encoded[outIndex++] = 61;
+  }
+
+  let result = "";
+  for (let offset = 0; offset < encoded.length; offset += STRING_CHUNK_SIZE) {
+    result += String.fromCharCode.apply(
+      null,
+      encoded.subarray(offset, offset + STRING_CHUNK_SIZE) as unknown as number[],
+    );
+  }
+  return result;
+}
+
+/**
+ * Interpret PCM 16‑bit little‑endian bytes as an `Int16Array`.
+ *
+ * When the host is little‑endian and the bytes are 2‑byte aligned the
+ * result is a zero-copy view over the same memory; otherwise the samples
+ * are copied. A trailing odd byte is ignored.
+ */
+export function bytesToInt16(bytes: Uint8Array): Int16Array {
+  const sampleCount = bytes.length >> 1;
+  if (IS_LITTLE_ENDIAN && bytes.byteOffset % 2 === 0) {
+    return new Int16Array(bytes.buffer, bytes.byteOffset, sampleCount);
+  }
+
+  const samples = new Int16Array(sampleCount);
+  for (let i = 0, j = 0; i < sampleCount; i++, j += 2) {
+    samples[i] = ((bytes[j + 1] << 24) >> 16) | bytes[j];
+  }
+  return samples;
+}
+
+/**
+ * Serialize samples as PCM 16‑bit little‑endian bytes, regardless of
+ * host byte order.
+ */
+export function int16ToBytes(samples: Int16Array): Uint8Array {
+  if (IS_LITTLE_ENDIAN) {
+    return new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength);
+  }
+
+  const bytes = new Uint8Array(samples.length * 2);
+  for (let i = 0, j = 0; i < samples.length; i++, j += 2) {
+    const sample = samples[i];
+    bytes[j] = sample & 0xff;
+    bytes[j + 1] = (sample >> 8) & 0xff;
+  }
+  return bytes;
+}
+
+/**
+ * Convert 16‑bit samples to floats in the range [-1, 1).
+ */
+export function int16ToFloat32(samples: Int16Array, output?: Float32Array): Float32Array {
+  const result = output ?? new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    result[i] = samples[i] / 32768;
+  }
+  return result;
+}
+
+/**
+ * Convert float samples to 16‑bit integers, clamping to [-1, 1].
+ */
+export function float32ToInt16(samples: Float32Array, output?: Int16Array): Int16Array {
+  const result = output ?? new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = samples[i];
+    const clamped = sample >= 1 ? 1 : sample <= -1 ? -1 : sample;
+    result[i] = clamped < 0 ? Math.round(clamped * 32768) : Math.round(clamped * 32767);
+  }
+  return result;
+}
+
+/**
+ * Serialize float samples as 32‑bit float little‑endian bytes, regardless
+ * of host byte order.
+ */
+export function float32ToBytes(samples: Float32Array): Uint8Array {
+  if (IS_LITTLE_ENDIAN) {
+    return new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength);
+  }
+
+  const bytes = new Uint8Array(samples.length * 4);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    view.setFloat32(i * 4, samples[i], true);
+  }
+  return bytes;
+}
+
+/**
+ * Interpret 32‑bit float little‑endian bytes as a `Float32Array`. Like
+ * `bytesToInt16`, zero-copy where the host allows it; trailing bytes that
+ * don't fill a sample are ignored.
+ */
+export function bytesToFloat32(bytes: Uint8Array): Float32Array {
+  const sampleCount = bytes.length >> 2;
+  if (IS_LITTLE_ENDIAN && bytes.byteOffset % 4 === 0) {
+    return new Float32Array(bytes.buffer, bytes.byteOffset, sampleCount);
+  }
+
+  const samples = new Float32Array(sampleCount);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = 0; i < sampleCount; i++) {
+    samples[i] = view.getFloat32(i * 4, true);
+  }
+  return samples;
+}
+
+/**
+ * Size of one sample in `encoding`, in bytes.
+ */
+export function bytesPerSample(encoding: AudioEncoding): number {
+  switch (encoding) {
+    case "pcm16":
+      return 2;
+    case "pcm_f32":
+      return 4;
+    case "mulaw":
+    case "alaw":
+      return 1;
+  }
+}
+
+/**
+ * Encode PCM 16‑bit samples in `encoding`, e.g. to convert buffered WAV
+ * data the same way `StreamAudioOptions.encoding` converts frames.
+ */
+export function encodeAudio(samples: Int16Array, encoding: AudioEncoding): Uint8Array {
+  switch (encoding) {
+    case "pcm16":
+      return int16ToBytes(samples);
+    case "pcm_f32":
+      return float32ToBytes(int16ToFloat32(samples));
+    case "mulaw":
+      return encodeMulaw(samples);
+    case "alaw":
+      return encodeAlaw(samples);
+  }
+}
+
+/**
+ * Decode bytes in `encoding` into PCM 16‑bit samples. Float samples are
+ * clamped to [-1, 1].
+ */
+export function decodeAudio(bytes: Uint8Array, encoding: AudioEncoding): Int16Array {
+  switch (encoding) {
+    case "pcm16":
+      return bytesToInt16(bytes);
+    case "pcm_f32":
+      return float32ToInt16(bytesToFloat32(bytes));
+    case "mulaw":
+      return decodeMulaw(bytes);
+    case "alaw":
+      return decodeAlaw(bytes);
+  }
+}
+
+/**
+ * Average interleaved channels into mono. Mono input is returned as is.
+ */
+export function downmixToMono(samples: Int16Array, channels: number): Int16Array;
+export function downmixToMono(samples: Float32Array, channels: number): Float32Array;
+export function downmixToMono(
+  samples: Int16Array | Float32Array,
+  channels: number,
+): Int16Array | Float32Array {
+  if (channels <= 1) {
+    return samples;
+  }
+
+  const frameCount = Math.floor(samples.length / channels);
+  const isInt16 = samples instanceof Int16Array;
+  const result = isInt16 ? new Int16Array(frameCount) : new Float32Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) {
+      sum += samples[i * channels + c];
+    }
+    result[i] = isInt16 ? Math.round(sum / channels) : sum / channels;
+  }
+  return result;
+}
+
+/**
+ * Decode base64 PCM 16‑bit little‑endian audio into `Int16Array` samples.
+ */
+export function decodePcm16Base64(base64: string): Int16Array {
+  return bytesToInt16(decodeBase64(base64));
+}
+
+/**
+ * Encode samples as base64 PCM 16‑bit little‑endian audio, the same
+ * representation used by `AudioFrameEvent.pcmBase64`. Float input is
+ * expected in the range [-1, 1] and is clamped.
+ */
+export function encodePcm16Base64(samples: Int16Array | Float32Array): string {
+  const int16 = samples instanceof Float32Array ? float32ToInt16(samples) : samples;
+  return encodeBase64(int16ToBytes(int16));
+}
+
+/**
+ * Audio bytes of an `AudioFrameEvent` in either `frameFormat`: `data` as
+ * is, or `pcmBase64` decoded.
+ */
+export function getFrameBytes(event: AudioFrameEvent): Uint8Array {
+  return event.data ?? decodeBase64(event.pcmBase64);
+}
+
+/**
+ * Decode an `AudioFrameEvent` in any `encoding` into typed sample views
+ * plus its sample count and duration.
+ */
+export function decodeFrame(event: AudioFrameEvent): DecodedAudioFrame {
+  const encoding = event.encoding;
+  const decoded = getFrameBytes(event);
+  const sampleSize = bytesPerSample(encoding);
+  const sampleCount = Math.floor(decoded.length / sampleSize);
+  const byteLength = sampleCount * sampleSize;
+  const bytes = decoded.length === byteLength ? decoded : decoded.subarray(0, byteLength);
+  const channels = Math.max(1, event.channels);
+
+  let int16: Int16Array;
+  let float32: Float32Array;
+  if (encoding === "pcm_f32") {
+    float32 = bytesToFloat32(bytes);
+    int16 = float32ToInt16(float32);
+  } else {
+    int16 = decodeAudio(bytes, encoding);
+    float32 = int16ToFloat32(int16);
+  }
+
+  return {
+    bytes,
+    encoding,
+    int16,
+    float32,
+    sampleCount,
+    channels,
+    sampleRate: event.sampleRate,
+    durationMs: event.sampleRate > 0 ? (sampleCount / channels / event.sampleRate) * 1000 : 0,
+  };
+}
@@ -0,0 +1,92 @@
+import type { RecentAudio } from "./ExpoStreamAudio.types";
+import { encodeBase64, int16ToBytes } from "./pcm";
+import type { TimedPcm } from "./wav";
+
+function durationMs(frame: TimedPcm): number {
+  return (frame.samples.length / frame.channels / frame.sampleRate) * 1000;
+}
+
+/**
+ * The most recently captured frames, up to `capacityMs` of contiguous
+ * audio (see `preRollMs`). Backs the web module and the mock; the native
+ * modules keep their own ring.
+ */
+export class PreRollRing {
+  private frames: TimedPcm[] = [];
+  private totalMs = 0;
+
+  constructor(private readonly capacityMs: number) {}
+
+  push(frame: TimedPcm) {
+    if (this.capacityMs <= 0) return;
+    const last = this.frames[this.frames.length - 1];
+    if (last && (last.sampleRate !== frame.sampleRate || last.channels !== frame.channels)) {
+      this.clear();
+    }
+    this.frames.push(frame);
+    this.totalMs += durationMs(frame);
+    // Drop whole frames, keeping at least `capacityMs`.
+    while (this.frames.length > 1 && this.totalMs - durationMs(this.frames[0]) >= this.capacityMs) {
+      this.totalMs -= durationMs(this.frames.shift()!);
+    }
+  }
+
+  clear() {
+    this.frames = [];
+    this.totalMs = 0;
+  }
+
+  /**
+   * The frames covering the last `ms` milliseconds (all of them when
+   * omitted), the first one cut at a sample boundary.
+   */
+  recent(ms?: number): TimedPcm[] {
+    const result: TimedPcm[] = [];
+    let remaining = ms === undefined ? Infinity : Math.max(0, ms);
+    for (let i = this.frames.length - 1; i >= 0 && remaining > 0; i--) {
+      const frame = this.frames[i];
+      const frameMs = durationMs(frame);
+      if (frameMs <= remaining) {
+        result.unshift(frame);
+        remaining -= frameMs;
+        continue;
+      }
+      const keptFrames = Math.round((remaining / 1000) * frame.sampleRate);
+      const skippedFrames = frame.samples.length / frame.channels - keptFrames;
+      if (keptFrames > 0) {
+        result.unshift({
+          ...frame,
+          samples: frame.samples.subarray(skippedFrames * frame.channels),
+          startTimestamp: frame.startTimestamp + (skippedFrames / frame.sampleRate) * 1000,
+        });
+      }
+      break;
+    }
+    return result;
+  }
+
+  /**
+   * `recent(ms)` joined into the `pcm` result of `getRecentAudio()`.
+   * `empty` describes the stream when the ring is.
+   */
+  read(ms: number | undefined, empty: Omit<TimedPcm, "samples">): RecentAudio {
+    const frames = this.recent(ms);
+    const first = frames[0];
+    const samples = new Int16Array(frames.reduce((total, frame) => total + frame.samples.length, 0));
+    let offset = 0;
+    frames.forEach((frame) => {
+      samples.set(frame.samples, offset);
+      offset += frame.samples.length;
+    });
+    const sampleRate = first?.sampleRate ?? empty.sampleRate;
+    const channels = first?.channels ?? empty.channels;
+    return {
+      base64: encodeBase64(int16ToBytes(samples)),
+      format: "pcm",
+      sampleRate,
+      channels,
+      startTimestamp: first?.startTimestamp ?? empty.startTimestamp,
+      durationMs: (samples.length / channels / sampleRate) * 1000,
+    };
+  }
+}
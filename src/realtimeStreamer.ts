@@ -0,0 +1,402 @@
+import { AppState } from "react-native";
+
+import type { AudioFrameEvent, Subscription } from "./ExpoStreamAudio.types";
+import streamAudioModule from "./ExpoStreamAudioModule";
+import { getBackoffDelay, type BackoffPolicy } from "./backoff";
+import { addFrameStreamListener } from "./frameStream";
+
+export type RealtimeMessage = string | ArrayBufferLike | ArrayBufferView | Blob;
+
+/**
+ * Backoff between reconnect attempts. After `maxAttempts` the streamer
+ * stays in buffered mode until `reconnect()` is called.
+ */
+export type ReconnectPolicy = BackoffPolicy;
+
+export type RealtimeCloseInfo = {
+  code: number;
+  reason: string;
+};
+
+export type RealtimeOutage = {
+  /**
+   * Epoch milliseconds at which realtime delivery stopped. Pass `from` and
+   * `to` to `exportBufferedAudio` to get the audio that was not streamed.
+   * Frames still queued when the outage began are not part of the range;
+   * they are sent over the new connection before live frames.
+   */
+  from: number;
+  to: number;
+  /**
+   * True when the connection came back; false when the streamer was
+   * stopped during the outage.
+   */
+  recovered: boolean;
+};
+
+/**
+ * - `idle`: not started, or stopped.
+ * - `connecting`: a connection attempt is in progress.
+ * - `open`: frames are being sent.
+ * - `reconnecting`: waiting for the backoff delay before the next attempt.
+ * - `closed`: gave up reconnecting (see `maxAttempts` and `shouldReconnect`).
+ */
+export type RealtimeConnectionStatus = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+export type RealtimeStreamerState = {
+  status: RealtimeConnectionStatus;
+  /**
+   * `realtime` while frames go to the socket; `buffered` during an outage,
+   * when frames are left to native buffering instead.
+   */
+  mode: "realtime" | "buffered";
+  /**
+   * Start of the current outage in epoch milliseconds, or null.
+   */
+  outageStartedAt: number | null;
+  /**
+   * Number of consecutive failed connection attempts.
+   */
+  reconnectAttempt: number;
+  /**
+   * When the next attempt is scheduled, while `status` is `reconnecting`.
+   */
+  nextReconnectAt: number | null;
+  /**
+   * Messages discarded because the send queue was full.
+   */
+  droppedMessages: number;
+  lastClose: RealtimeCloseInfo | null;
+};
+
+export type RealtimeStreamerOptions = {
+  /**
+   * WebSocket URL, or a function resolving it before every attempt (e.g.
+   * to fetch a short-lived token).
+   */
+  url: string | (() => string | Promise<string>);
+  protocols?: string | string[];
+  /**
+   * Turn a frame into the message to send. Return null to skip the frame.
+   */
+  encodeMessage: (frame: AudioFrameEvent) => RealtimeMessage | null;
+  /**
+   * Backoff between reconnect attempts, or false to never reconnect
+   * automatically.
+   */
+  reconnectPolicy?: ReconnectPolicy | false;
+  /**
+   * Decide whether a close should be retried. Defaults to retrying every
+   * close that was not caused by `stop()`.
+   */
+  shouldReconnect?: (close: RealtimeCloseInfo) => boolean;
+  /**
+   * Maximum number of messages held while the socket is connecting or its
+   * `bufferedAmount` is above `maxBufferedAmount`. Messages still queued
+   * when an outage begins are kept and sent after reconnecting. The oldest
+   * message is dropped when the queue is full.
+   *
+   * Defaults to 50 (one second of 20 ms frames).
+   */
+  sendQueueSize?: number;
+  /**
+   * Stop writing to the socket while more than this many bytes are
+   * waiting to be transmitted.
+   *
+   * Defaults to 262144.
+   */
+  maxBufferedAmount?: number;
+  /**
+   * Enable native buffering when an outage begins and disable it once
+   * the outage ends. Turn off if buffering is managed elsewhere.
+   *
+   * Defaults to true.
+   */
+  manageBuffering?: boolean;
+  /**
+   * Reconnect immediately (skipping the backoff delay) when the app
+   * returns to the foreground during an outage.
+   *
+   * Defaults to true.
+   */
+  reconnectOnForeground?: boolean;
+  /**
+   * Called for every new socket once it is open, before queued messages
+   * are flushed, e.g. to send a session configuration message.
+   */
+  onOpen?: (socket: WebSocket) => void;
+  onMessage?: (event: MessageEvent) => void;
+  /**
+   * Called when an outage ends, with the range to recover from the
+   * native buffer.
+   */
+  onOutageEnd?: (outage: RealtimeOutage) => void;
+  /**
+   * Called when resolving the URL, creating the socket or toggling native
+   * buffering fails, and when `onOutageEnd` throws or rejects. The first
+   * two are retried like a closed socket. Socket failures are reported
+   * through `state.lastClose` instead.
+   */
+  onError?: (error: unknown) => void;
+  /**
+   * Factory for the socket. Defaults to the global `WebSocket`.
+   */
+  createWebSocket?: (url: string, protocols?: string | string[]) => WebSocket;
+};
+
+export type RealtimeStreamer = {
+  /**
+   * Subscribe to frames and connect. Does not start recording.
+   */
+  start: () => void;
+  /**
+   * Close the socket and unsubscribe. An ongoing outage is reported
+   * through `onOutageEnd` with `recovered: false`.
+   */
+  stop: () => void;
+  /**
+   * Connect now, skipping any pending backoff delay. Does nothing while
+   * connecting or connected.
+   */
+  reconnect: () => void;
+  /**
+   * Send a message outside the frame stream (e.g. a commit or end-of-stream
+   * message). Queued like frames while the socket is not writable.
+   */
+  send: (message: RealtimeMessage) => void;
+  readonly state: RealtimeStreamerState;
+  /**
+   * Number of messages currently waiting in the send queue.
+   */
+  readonly queuedMessages: number;
+  addStateListener: (listener: (state: RealtimeStreamerState) => void) => Subscription;
+};
+
+const SOCKET_OPEN = 1;
+const NORMAL_CLOSURE = 1000;
+
+const INITIAL_STATE: RealtimeStreamerState = {
+  status: "idle",
+  mode: "realtime",
+  outageStartedAt: null,
+  reconnectAttempt: 0,
+  nextReconnectAt: null,
+  droppedMessages: 0,
+  lastClose: null,
+};
+
+/**
+ * Stream frames to a WebSocket, falling back to native buffering while
+ * the connection is down:
+ *
+ * ```ts
+ * const streamer = createRealtimeStreamer({
+ *   url: "wss://example.com/stt",
+ *   encodeMessage: frame => JSON.stringify({ audio: frame.pcmBase64 }),
+ *   onOutageEnd: async ({ from, to }) => upload(await exportBufferedAudio({ from, to })),
+ * });
+ * streamer.start();
+ * ```
+ */
+export function createRealtimeStreamer(options: RealtimeStreamerOptions): RealtimeStreamer {
+  const sendQueueSize = Math.max(1, options.sendQueueSize ?? 50);
+  const maxBufferedAmount = options.maxBufferedAmount ?? 256 * 1024;
+  const manageBuffering = options.manageBuffering ?? true;
+  const createWebSocket =
+    options.createWebSocket ?? ((url: string, protocols?: string | string[]) => new WebSocket(url, protocols));
+
+  const listeners = new Set<(state: RealtimeStreamerState) => void>();
+  let state = INITIAL_STATE;
+
+  let started = false;
+  let socket: WebSocket | null = null;
+  // Incremented for every attempt so handlers of superseded sockets and
+  // stale URL resolutions are ignored.
+  let connectionId = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let queue: RealtimeMessage[] = [];
+  let subscriptions: Subscription[] = [];
+
+  const setState = (patch: Partial<RealtimeStreamerState>) => {
+    state = { ...state, ...patch };
+    [...listeners].forEach((listener) => listener(state));
+  };
+
+  const toggleBuffering = (enabled: boolean): Promise<void> => {
+    if (!manageBuffering) return Promise.resolve();
+    return streamAudioModule
+      .setBufferingEnabled(enabled)
+      .catch((error) => options.onError?.(error));
+  };
+
+  const flushQueue = () => {
+    while (
+      queue.length > 0 &&
+      socket?.readyState === SOCKET_OPEN &&
+      socket.bufferedAmount <= maxBufferedAmount
+    ) {
+      socket.send(queue.shift()!);
+    }
+  };
+
+  const enqueue = (message: RealtimeMessage) => {
+    queue.push(message);
+    if (queue.length > sendQueueSize) {
+      queue.shift();
+      setState({ droppedMessages: state.droppedMessages + 1 });
+    }
+    flushQueue();
+  };
+
+  const beginOutage = () => {
+    if (state.mode === "buffered") return;
+    // Messages still queued cover audio from before `outageStartedAt`,
+    // which native buffering does not have; they are kept and sent first
+    // once the connection is back.
+    setState({ mode: "buffered", outageStartedAt: Date.now() });
+    toggleBuffering(true);
+  };
+
+  const endOutage = (recovered: boolean) => {
+    if (state.mode !== "buffered" || state.outageStartedAt === null) return;
+    const outage = { from: state.outageStartedAt, to: Date.now(), recovered };
+    setState({ mode: "realtime", outageStartedAt: null });
+    // Wait for the current segment to be finalized before handing out
+    // the range.
+    toggleBuffering(false)
+      .then(() => options.onOutageEnd?.(outage))
+      .catch((error) => options.onError?.(error));
+  };
+
+  const clearReconnectTimer = () => {
+    if (reconnectTimer !== null) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+  };
+
+  const scheduleReconnect = (close: RealtimeCloseInfo | null) => {
+    beginOutage();
+
+    const policy = options.reconnectPolicy;
+    const attempt = state.reconnectAttempt + 1;
+    const retry =
+      policy !== false &&
+      attempt <= (policy?.maxAttempts ?? Number.POSITIVE_INFINITY) &&
+      (!close || !options.shouldReconnect || options.shouldReconnect(close));
+    if (!retry) {
+      setState({ status: "closed", reconnectAttempt: attempt, nextReconnectAt: null });
+      return;
+    }
+
+    const delay = getBackoffDelay(policy ?? {}, attempt);
+    setState({ status: "reconnecting", reconnectAttempt: attempt, nextReconnectAt: Date.now() + delay });
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = async () => {
+    clearReconnectTimer();
+    const id = ++connectionId;
+    setState({ status: "connecting", nextReconnectAt: null });
+
+    let ws: WebSocket;
+    try {
+      const url = typeof options.url === "function" ? await options.url() : options.url;
+      if (id !== connectionId) return;
+      // Throws synchronously for a malformed URL.
+      ws = createWebSocket(url, options.protocols);
+      ws.binaryType = "arraybuffer";
+    } catch (error) {
+      if (id !== connectionId) return;
+      options.onError?.(error);
+      scheduleReconnect(null);
+      return;
+    }
+    socket = ws;
+
+    ws.onopen = () => {
+      if (id !== connectionId) return;
+      setState({ status: "open", reconnectAttempt: 0, lastClose: null });
+      options.onOpen?.(ws);
+      flushQueue();
+      endOutage(true);
+    };
+    ws.onmessage = (event) => {
+      if (id !== connectionId) return;
+      options.onMessage?.(event);
+    };
+    ws.onclose = (event) => {
+      if (id !== connectionId) return;
+      socket = null;
+      const close = { code: event.code, reason: event.reason };
+      setState({ lastClose: close });
+      scheduleReconnect(close);
+    };
+    // `onclose` always follows `onerror`, so failures are handled there.
+    ws.onerror = null;
+  };
+
+  const reconnect = () => {
+    if (!started || state.status === "open" || state.status === "connecting") return;
+    setState({ reconnectAttempt: 0 });
+    connect();
+  };
+
+  const handleFrame = (frame: AudioFrameEvent) => {
+    // During an outage the frames are covered by native buffering.
+    if (state.mode === "buffered") return;
+    const message = options.encodeMessage(frame);
+    if (message !== null) {
+      enqueue(message);
+    }
+  };
+
+  return {
+    start() {
+      if (started) return;
+      started = true;
+      setState({ ...INITIAL_STATE, droppedMessages: state.droppedMessages });
+      subscriptions = [addFrameStreamListener(handleFrame)];
+      if (options.reconnectOnForeground ?? true) {
+        subscriptions.push(
+          AppState.addEventListener("change", (next) => {
+            if (next === "active" && (state.status === "reconnecting" || state.status === "closed")) {
+              reconnect();
+            }
+          }),
+        );
+      }
+      connect();
+    },
+    stop() {
+      if (!started) return;
+      started = false;
+      connectionId++;
+      clearReconnectTimer();
+      subscriptions.forEach((subscription) => subscription.remove());
+      subscriptions = [];
+      socket?.close(NORMAL_CLOSURE);
+      socket = null;
+      queue = [];
+      endOutage(false);
+      setState({ status: "idle", reconnectAttempt: 0, nextReconnectAt: null });
+    },
+    reconnect,
+    send(message) {
+      enqueue(message);
+    },
+    get state() {
+      return state;
+    },
+    get queuedMessages() {
+      return queue.length;
+    },
+    addStateListener(listener) {
+      listeners.add(listener);
+      return { remove: () => listeners.delete(listener) };
+    },
+  };
+}
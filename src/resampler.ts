@@ -0,0 +1,243 @@
+import { float32ToInt16, int16ToFloat32 } from "./pcm";
+
+export type ResamplerQuality = "low" | "medium" | "high";
+
+export type ResamplerOptions = {
+  /**
+   * Sample rate of the incoming audio in Hz.
+   */
+  inputRate: number;
+  /**
+   * Sample rate of the produced audio in Hz.
+   */
+  outputRate: number;
+  /**
+   * Trade-off between CPU cost and stop-band attenuation.
+   * `low` uses 16 taps, `medium` 32 and `high` 64.
+   *
+   * Defaults to `high`.
+   */
+  quality?: ResamplerQuality;
+  /**
+   * Number of interleaved channels in the audio. Each channel is filtered
+   * separately and the output is interleaved the same way.
+   *
+   * Defaults to 1.
+   */
+  channels?: number;
+};
+
+export type StreamingResampler = {
+  readonly inputRate: number;
+  readonly outputRate: number;
+  readonly channels: number;
+  /**
+   * Resample the next chunk of a continuous stream. Filter state is
+   * carried over between calls, so chunks may have any length.
+   */
+  process(input: Float32Array): Float32Array;
+  /**
+   * Same as `process`, for PCM 16‑bit samples.
+   */
+  processInt16(input: Int16Array): Int16Array;
+  /**
+   * Drain the samples still held in the filter history at the end of a
+   * stream. The resampler is reset afterwards.
+   */
+  flush(): Float32Array;
+  /**
+   * Drop all carried-over state, e.g. after a gap in the stream.
+   */
+  reset(): void;
+};
+
+const HALF_TAPS: Record<ResamplerQuality, number> = {
+  low: 8,
+  medium: 16,
+  high: 32,
+};
+
+const KAISER_BETA: Record<ResamplerQuality, number> = {
+  low: 6,
+  medium: 8,
+  high: 10,
+};
+
+// Number of precomputed filter phases per input sample. Intermediate
+// phases are linearly interpolated between neighbouring table rows.
+const PHASES = 256;
+
+// Keep the transition band just below the output Nyquist frequency.
+const ROLLOFF = 0.94;
+
+/**
+ * Create a streaming windowed-sinc (Kaiser) resampler for arbitrary
+ * rate ratios.
+ */
+export function createResampler(options: ResamplerOptions): StreamingResampler {
+  const { inputRate, outputRate } = options;
+  if (!(inputRate > 0) || !(outputRate > 0)) {
+    throw new Error(`Invalid resampler rates: ${inputRate} -> ${outputRate}`);
+  }
+  const channels = options.channels ?? 1;
+  if (channels > 1) {
+    return createInterleavedResampler(options, channels);
+  }
+
+  const quality = options.quality ?? "high";
+  const halfTaps = HALF_TAPS[quality];
+  const taps = halfTaps * 2;
+  const step = inputRate / outputRate;
+  const table = buildFilterTable(halfTaps, Math.min(1, outputRate / inputRate) * ROLLOFF, KAISER_BETA[quality]);
+
+  // `history` holds the input samples that are still needed by future
+  // outputs; `position` is the input time of the next output, relative to
+  // the start of `history`.
+  let history = new Float32Array(halfTaps);
+  let position = halfTaps;
+
+  const run = (input: Float32Array): Float32Array => {
+    const buffer = new Float32Array(history.length + input.length);
+    buffer.set(history);
+    buffer.set(input, history.length);
+
+    const available = Math.max(0, Math.ceil((buffer.length - halfTaps - position) / step));
+    const output = new Float32Array(available);
+    let count = 0;
+
+    while (count < available) {
+      const base = Math.floor(position);
+      if (base + halfTaps >= buffer.length) break;
+
+      const phase = (position - base) * PHASES;
+      const row = Math.floor(phase);
+      const blend = phase - row;
+      const rowA = row * taps;
+      const rowB = rowA + taps;
+      const start = base - halfTaps + 1;
+
+      let sum = 0;
+      for (let j = 0; j < taps; j++) {
+        const coefficient = table[rowA + j] + (table[rowB + j] - table[rowA + j]) * blend;
+        sum += buffer[start + j] * coefficient;
+      }
+      output[count++] = sum;
+      position += step;
+    }
+
+    const drop = Math.max(0, Math.min(Math.floor(position) - halfTaps + 1, buffer.length));
+    history = buffer.slice(drop);
+    position -= drop;
+
+    return count === available ? output : output.subarray(0, count);
+  };
+
+  const reset = () => {
+    history = new Float32Array(halfTaps);
+    position = halfTaps;
+  };
+
+  return {
+    inputRate,
+    outputRate,
+    channels: 1,
+    process: run,
+    processInt16(input: Int16Array): Int16Array {
+      return float32ToInt16(run(int16ToFloat32(input)));
+    },
+    flush(): Float32Array {
+      const output = run(new Float32Array(halfTaps));
+      reset();
+      return output;
+    },
+    reset,
+  };
+}
+
+/**
+ * Run one mono resampler per channel over interleaved audio.
+ */
+function createInterleavedResampler(options: ResamplerOptions, channels: number): StreamingResampler {
+  const resamplers = Array.from({ length: channels }, () => createResampler({ ...options, channels: 1 }));
+
+  const interleave = (outputs: Float32Array[]): Float32Array => {
+    const frames = Math.min(...outputs.map((output) => output.length));
+    const output = new Float32Array(frames * channels);
+    outputs.forEach((channelOutput, channel) => {
+      for (let i = 0; i < frames; i++) {
+        output[i * channels + channel] = channelOutput[i];
+      }
+    });
+    return output;
+  };
+
+  const run = (input: Float32Array): Float32Array => {
+    const frames = Math.floor(input.length / channels);
+    return interleave(
+      resamplers.map((resampler, channel) => {
+        const channelInput = new Float32Array(frames);
+        for (let i = 0; i < frames; i++) {
+          channelInput[i] = input[i * channels + channel];
+        }
+        return resampler.process(channelInput);
+      }),
+    );
+  };
+
+  return {
+    inputRate: options.inputRate,
+    outputRate: options.outputRate,
+    channels,
+    process: run,
+    processInt16(input: Int16Array): Int16Array {
+      return float32ToInt16(run(int16ToFloat32(input)));
+    },
+    flush(): Float32Array {
+      return interleave(resamplers.map((resampler) => resampler.flush()));
+    },
+    reset() {
+      resamplers.forEach((resampler) => resampler.reset());
+    },
+  };
+}
+
+/**
+ * Build a `(PHASES + 1) × taps` table of Kaiser-windowed sinc
+ * coefficients, one row per fractional offset.
+ */
+function buildFilterTable(halfTaps: number, cutoff: number, beta: number): Float32Array {
+  const taps = halfTaps * 2;
+  const table = new Float32Array((PHASES + 1) * taps);
+  const i0Beta = besselI0(beta);
+
+  for (let p = 0; p <= PHASES; p++) {
+    const frac = p / PHASES;
+    for (let j = 0; j < taps; j++) {
+      // Distance between tap j and the output instant, in input samples.
+      const x = j - halfTaps + 1 - frac;
+      const ratio = x / halfTaps;
+      const window = Math.abs(ratio) >= 1 ? 0 : besselI0(beta * Math.sqrt(1 - ratio * ratio)) / i0Beta;
+      table[p * taps + j] = cutoff * sinc(cutoff * x) * window;
+    }
+  }
+
+  return table;
+}
+
+function sinc(x: number): number {
+  if (x === 0) return 1;
+  const px = Math.PI * x;
+  return Math.sin(px) / px;
+}
+
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const halfX = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k);
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
@@ -0,0 +1,382 @@
+import type { AudioFrameEvent } from "./ExpoStreamAudio.types";
+import { decodeFrame, downmixToMono } from "./pcm";
+
+export type SpectrumWindowing = "blackman" | "hann" | "hamming" | "none";
+
+export type SpectrumAnalyzerOptions = {
+  /**
+   * Number of samples per FFT; a power of two between 32 and 32768. The
+   * analyzer reports `fftSize / 2` frequency bins.
+   *
+   * Defaults to 2048.
+   */
+  fftSize?: number;
+  /**
+   * Averaging between successive spectra, 0 (none) to just below 1, like
+   * `AnalyserNode.smoothingTimeConstant`.
+   *
+   * Defaults to 0.8.
+   */
+  smoothing?: number;
+  /**
+   * Window applied before the FFT. `blackman` matches `AnalyserNode`.
+   *
+   * Defaults to `blackman`.
+   */
+  windowing?: SpectrumWindowing;
+  /**
+   * dB value mapped to 0 by `getByteFrequencyData`.
+   *
+   * Defaults to -100.
+   */
+  minDecibels?: number;
+  /**
+   * dB value mapped to 255 by `getByteFrequencyData`.
+   *
+   * Defaults to -30.
+   */
+  maxDecibels?: number;
+};
+
+/**
+ * Mirrors the read side of Web Audio's `AnalyserNode`, fed with
+ * `AudioFrameEvent`s instead of an audio graph.
+ */
+export type SpectrumAnalyzer = {
+  /**
+   * Feed the next frame. Can be passed straight to `addFrameListener`.
+   * Stereo frames are mixed to mono; frames may have any length.
+   */
+  process: (frame: AudioFrameEvent) => void;
+  readonly fftSize: number;
+  /**
+   * Number of frequency bins, `fftSize / 2`.
+   */
+  readonly frequencyBinCount: number;
+  /**
+   * Sample rate of the analyzed frames, 0 before the first one.
+   */
+  readonly sampleRate: number;
+  smoothing: number;
+  minDecibels: number;
+  maxDecibels: number;
+  /**
+   * Write the spectrum of the latest `fftSize` samples in dB (-Infinity
+   * for silent bins) into `array`, or into a new array when omitted. Bin
+   * `i` is centered on `i * sampleRate / fftSize` Hz. Smoothing advances
+   * once per call that follows new audio.
+   */
+  getFloatFrequencyData: (array?: Float32Array) => Float32Array;
+  /**
+   * Same as `getFloatFrequencyData`, scaled from `minDecibels` –
+   * `maxDecibels` to 0–255.
+   */
+  getByteFrequencyData: (array?: Uint8Array) => Uint8Array;
+  /**
+   * Write the latest `fftSize` samples (-1 to 1) into `array`.
+   */
+  getFloatTimeDomainData: (array?: Float32Array) => Float32Array;
+  /**
+   * Same as `getFloatTimeDomainData`, scaled to 0–255 with silence at 128.
+   */
+  getByteTimeDomainData: (array?: Uint8Array) => Uint8Array;
+  /**
+   * Drop the buffered audio and the smoothing history, e.g. between
+   * recording sessions.
+   */
+  reset: () => void;
+};
+
+export type LogBandOptions = {
+  /**
+   * Number of bands.
+   */
+  bandCount: number;
+  /**
+   * Sample rate the bins were computed at, e.g. `analyzer.sampleRate`.
+   */
+  sampleRate: number;
+  /**
+   * Lower edge of the first band in Hz.
+   *
+   * Defaults to 20.
+   */
+  minFrequency?: number;
+  /**
+   * Upper edge of the last band in Hz.
+   *
+   * Defaults to half the sample rate.
+   */
+  maxFrequency?: number;
+};
+
+const MIN_FFT_SIZE = 32;
+const MAX_FFT_SIZE = 32768;
+
+/**
+ * Create an FFT spectrum analyzer driven by `AudioFrameEvent`s, with the
+ * same getters as Web Audio's `AnalyserNode` so drawing code can be
+ * shared with the web:
+ *
+ * ```ts
+ * const analyzer = createSpectrumAnalyzer({ fftSize: 1024 });
+ * const sub = addFrameListener(analyzer.process);
+ * const bins = new Float32Array(analyzer.frequencyBinCount);
+ * // On each animation frame:
+ * analyzer.getFloatFrequencyData(bins);
+ * const bands = toLogBands(bins, { bandCount: 32, sampleRate: analyzer.sampleRate });
+ * ```
+ */
+export function createSpectrumAnalyzer(options: SpectrumAnalyzerOptions = {}): SpectrumAnalyzer {
+  const fftSize = options.fftSize ?? 2048;
+  if (
+    !Number.isInteger(fftSize) ||
+    fftSize < MIN_FFT_SIZE ||
+    fftSize > MAX_FFT_SIZE ||
+    (fftSize & (fftSize - 1)) !== 0
+  ) {
+    throw new Error(`Invalid fftSize: ${fftSize}. Use a power of two from 32 to 32768.`);
+  }
+  const binCount = fftSize / 2;
+  const window = createWindow(options.windowing ?? "blackman", fftSize);
+  const fft = createFft(fftSize);
+
+  let smoothing = options.smoothing ?? 0.8;
+  let minDecibels = options.minDecibels ?? -100;
+  let maxDecibels = options.maxDecibels ?? -30;
+
+  // The latest `fftSize` samples, oldest first once `history` has wrapped.
+  const history = new Float32Array(fftSize);
+  let writeIndex = 0;
+  let sampleRate = 0;
+
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+  const smoothed = new Float32Array(binCount);
+  const decibels = new Float32Array(binCount);
+  // Set when audio arrived after the spectrum was last computed.
+  let stale = true;
+
+  const reset = () => {
+    history.fill(0);
+    writeIndex = 0;
+    smoothed.fill(0);
+    stale = true;
+  };
+
+  const copyHistory = (output: Float32Array) => {
+    output.set(history.subarray(writeIndex));
+    output.set(history.subarray(0, writeIndex), fftSize - writeIndex);
+  };
+
+  const updateSpectrum = () => {
+    if (!stale) return;
+    stale = false;
+    copyHistory(real);
+    for (let i = 0; i < fftSize; i++) {
+      real[i] *= window[i];
+    }
+    imag.fill(0);
+    fft(real, imag);
+    for (let i = 0; i < binCount; i++) {
+      const magnitude = Math.hypot(real[i], imag[i]) / fftSize;
+      smoothed[i] = smoothing * smoothed[i] + (1 - smoothing) * magnitude;
+      decibels[i] = 20 * Math.log10(smoothed[i]);
+    }
+  };
+
+  return {
+    process(frame) {
+      const decoded = decodeFrame(frame);
+      if (decoded.sampleRate <= 0) return;
+      if (decoded.sampleRate !== sampleRate) {
+        reset();
+        sampleRate = decoded.sampleRate;
+      }
+      let samples = downmixToMono(decoded.float32, decoded.channels);
+      if (samples.length === 0) return;
+      if (samples.length > fftSize) {
+        samples = samples.subarray(samples.length - fftSize);
+      }
+      const head = Math.min(samples.length, fftSize - writeIndex);
+      history.set(samples.subarray(0, head), writeIndex);
+      history.set(samples.subarray(head), 0);
+      writeIndex = (writeIndex + samples.length) % fftSize;
+      stale = true;
+    },
+    fftSize,
+    frequencyBinCount: binCount,
+    get sampleRate() {
+      return sampleRate;
+    },
+    get smoothing() {
+      return smoothing;
+    },
+    set smoothing(value) {
+      smoothing = Math.min(Math.max(value, 0), 1);
+    },
+    get minDecibels() {
+      return minDecibels;
+    },
+    set minDecibels(value) {
+      minDecibels = value;
+    },
+    get maxDecibels() {
+      return maxDecibels;
+    },
+    set maxDecibels(value) {
+      maxDecibels = value;
+    },
+    getFloatFrequencyData(array = new Float32Array(binCount)) {
+      updateSpectrum();
+      array.set(decibels.subarray(0, Math.min(array.length, binCount)));
+      return array;
+    },
+    getByteFrequencyData(array = new Uint8Array(binCount)) {
+      updateSpectrum();
+      const range = maxDecibels - minDecibels;
+      const length = Math.min(array.length, binCount);
+      for (let i = 0; i < length; i++) {
+        const scaled = (255 * (decibels[i] - minDecibels)) / range;
+        array[i] = Math.min(255, Math.max(0, Math.floor(scaled)));
+      }
+      return array;
+    },
+    getFloatTimeDomainData(array = new Float32Array(fftSize)) {
+      const samples = new Float32Array(fftSize);
+      copyHistory(samples);
+      array.set(samples.subarray(0, Math.min(array.length, fftSize)));
+      return array;
+    },
+    getByteTimeDomainData(array = new Uint8Array(fftSize)) {
+      const samples = new Float32Array(fftSize);
+      copyHistory(samples);
+      const length = Math.min(array.length, fftSize);
+      for (let i = 0; i < length; i++) {
+        array[i] = Math.min(255, Math.max(0, Math.floor(128 * (samples[i] + 1))));
+      }
+      return array;
+    },
+    reset,
+  };
+}
+
+/**
+ * Edges in Hz of `bandCount` log-spaced bands, `bandCount + 1` values
+ * from `minFrequency` to `maxFrequency`. Useful for axis labels next to
+ * `toLogBands`.
+ */
+export function logBandEdges(options: LogBandOptions): number[] {
+  const { bandCount, sampleRate } = options;
+  const minFrequency = options.minFrequency ?? 20;
+  const maxFrequency = options.maxFrequency ?? sampleRate / 2;
+  if (bandCount < 1 || !(minFrequency > 0) || !(maxFrequency > minFrequency)) {
+    throw new Error(`Invalid bands: ${bandCount} from ${minFrequency} to ${maxFrequency} Hz.`);
+  }
+  const ratio = maxFrequency / minFrequency;
+  return Array.from({ length: bandCount + 1 }, (_, i) => minFrequency * ratio ** (i / bandCount));
+}
+
+/**
+ * Group frequency bins in dB, as written by `getFloatFrequencyData`, into
+ * `bandCount` log-spaced bands, e.g. for a bar visualizer. Each band is
+ * the mean power of the bins centered inside it, in dB; bands narrower
+ * than a bin take the bin they fall in.
+ */
+export function toLogBands(frequencyData: Float32Array, options: LogBandOptions): Float32Array {
+  const edges = logBandEdges(options);
+  const binWidth = options.sampleRate / (frequencyData.length * 2);
+  const bands = new Float32Array(options.bandCount);
+  const lastBin = frequencyData.length - 1;
+  for (let band = 0; band < bands.length; band++) {
+    const first = Math.min(lastBin, Math.ceil(edges[band] / binWidth));
+    const last = Math.min(lastBin, Math.ceil(edges[band + 1] / binWidth) - 1);
+    if (last < first) {
+      const center = Math.sqrt(edges[band] * edges[band + 1]);
+      bands[band] = frequencyData[Math.min(lastBin, Math.round(center / binWidth))];
+      continue;
+    }
+    let power = 0;
+    for (let i = first; i <= last; i++) {
+      power += 10 ** (frequencyData[i] / 10);
+    }
+    bands[band] = 10 * Math.log10(power / (last - first + 1));
+  }
+  return bands;
+}
+
+function createWindow(windowing: SpectrumWindowing, size: number): Float32Array {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const phase = (2 * Math.PI * i) / size;
+    switch (windowing) {
+      case "blackman":
+        // alpha = 0.16, as specified for AnalyserNode.
+        window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        break;
+      case "hann":
+        window[i] = 0.5 - 0.5 * Math.cos(phase);
+        break;
+      case "hamming":
+        window[i] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      default:
+        window[i] = 1;
+    }
+  }
+  return window;
+}
+
+/**
+ * In-place iterative radix-2 FFT for one size, with the bit-reversal
+ * table and twiddle factors computed once.
+ */
+function createFft(size: number): (real: Float32Array, imag: Float32Array) => void {
+  const bits = Math.log2(size);
+  const reversed = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let value = 0;
+    for (let bit = 0; bit < bits; bit++) {
+      value = (value << 1) | ((i >> bit) & 1);
+    }
+    reversed[i] = value;
+  }
+  const cos = new Float32Array(size / 2);
+  const sin = new Float32Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size);
+    sin[i] = -Math.sin((2 * Math.PI * i) / size);
+  }
+
+  return (real, imag) => {
+    for (let i = 0; i < size; i++) {
+      const j = reversed[i];
+      if (j > i) {
+        const r = real[i];
+        real[i] = real[j];
+        real[j] = r;
+        const m = imag[i];
+        imag[i] = imag[j];
+        imag[j] = m;
+      }
+    }
+    for (let length = 2; length <= size; length *= 2) {
+      const half = length / 2;
+      const step = size / length;
+      for (let start = 0; start < size; start += length) {
+        for (let k = 0; k < half; k++) {
+          const wr = cos[k * step];
+          const wi = sin[k * step];
+          const a = start + k;
+          const b = a + half;
+          const tr = real[b] * wr - imag[b] * wi;
+          const ti = real[b] * wi + imag[b] * wr;
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+  };
+}
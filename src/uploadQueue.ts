@@ -0,0 +1,423 @@
+import type { BufferedAudioSegment, Subscription } from "./ExpoStreamAudio.types";
+import streamAudioModule from "./ExpoStreamAudioModule";
+import { getBackoffDelay, type BackoffPolicy } from "./backoff";
+
+/**
+ * Minimal key-value storage used to persist queue progress. Compatible
+ * with `@react-native-async-storage/async-storage` and similar stores.
+ */
+export type UploadQueueStorage = {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+};
+
+/**
+ * - `pending`: waiting for its (next) upload attempt.
+ * - `uploading`: an attempt is in progress.
+ * - `uploaded`: the upload was acknowledged; deleting the segment is
+ *   still outstanding and will be retried without uploading again.
+ * - `failed`: gave up after `retryPolicy.maxAttempts`; see `retryFailed()`.
+ */
+export type UploadEntryStatus = "pending" | "uploading" | "uploaded" | "failed";
+
+export type UploadQueueEntry = {
+  segment: BufferedAudioSegment;
+  status: UploadEntryStatus;
+  /**
+   * Upload attempts made so far, including ones before an app restart.
+   */
+  attempts: number;
+  /**
+   * Epoch milliseconds of the next attempt while backing off, or null.
+   */
+  nextAttemptAt: number | null;
+  lastError: string | null;
+};
+
+export type UploadQueueProgress = {
+  /**
+   * Segments still tracked by the queue, in upload order.
+   */
+  entries: readonly UploadQueueEntry[];
+  /**
+   * Segments uploaded and deleted since the queue was first created,
+   * persisted along with the entries.
+   */
+  completed: number;
+  /**
+   * Bytes of the segments that are not yet uploaded.
+   */
+  remainingBytes: number;
+};
+
+export type UploadContext = {
+  /**
+   * 1-based attempt number for this segment.
+   */
+  attempt: number;
+  /**
+   * Aborted when the queue is stopped.
+   */
+  signal: AbortSignal;
+};
+
+export type UploadQueueOptions = {
+  /**
+   * Upload one segment. Resolving acknowledges the upload, after which
+   * the segment is deleted; rejecting schedules a retry.
+   */
+  upload: (segment: BufferedAudioSegment, context: UploadContext) => Promise<void>;
+  /**
+   * Maximum number of uploads in flight at once.
+   *
+   * Defaults to 2.
+   */
+  concurrency?: number;
+  /**
+   * Backoff between attempts for the same segment.
+   */
+  retryPolicy?: BackoffPolicy;
+  /**
+   * Where progress is persisted so uploads resume after an app restart.
+   * Without storage, progress only lives as long as the queue.
+   */
+  storage?: UploadQueueStorage;
+  /**
+   * Storage key for the persisted progress.
+   *
+   * Defaults to "expo-stream-audio/upload-queue".
+   */
+  storageKey?: string;
+};
+
+export type UploadQueue = {
+  /**
+   * Restore persisted progress, pick up the current buffered segments and
+   * start uploading.
+   */
+  start: () => Promise<void>;
+  /**
+   * Stop scheduling uploads and abort the ones in flight. Progress is kept.
+   */
+  stop: () => void;
+  /**
+   * Add buffered segments that are not tracked yet, e.g. after an outage
+   * ended, drop entries whose segment no longer exists and refresh the
+   * others from the current segment list. Called by `start`.
+   */
+  sync: () => Promise<void>;
+  /**
+   * Resolves once no segment is pending, uploading or waiting for
+   * deletion. Failed segments don't keep it waiting. Rejects when the
+   * queue is stopped, or is not running, before that.
+   */
+  drain: () => Promise<void>;
+  /**
+   * Move failed segments back to pending with a fresh attempt budget.
+   */
+  retryFailed: () => void;
+  getProgress: () => UploadQueueProgress;
+  addProgressListener: (listener: (progress: UploadQueueProgress) => void) => Subscription;
+};
+
+type PersistedQueue = {
+  version: 1;
+  entries: Pick<UploadQueueEntry, "segment" | "status" | "attempts" | "lastError">[];
+  completed: number;
+};
+
+const DEFAULT_STORAGE_KEY = "expo-stream-audio/upload-queue";
+
+const DEFAULT_RETRY_POLICY: BackoffPolicy = {
+  initialDelayMs: 1000,
+  maxDelayMs: 60_000,
+};
+
+/**
+ * Create a resumable upload queue for buffered segments. Each segment is
+ * deleted with `deleteBufferedSegments` as soon as its own upload has been
+ * acknowledged, so a failed upload never loses audio:
+ *
+ * ```ts
+ * const queue = createUploadQueue({
+ *   upload: (segment, { signal }) => uploadWav(segment.uri, { signal }),
+ *   storage: AsyncStorage,
+ * });
+ * await queue.start();
+ * await queue.drain();
+ * ```
+ */
+export function createUploadQueue(options: UploadQueueOptions): UploadQueue {
+  const concurrency = Math.max(1, options.concurrency ?? 2);
+  const retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retryPolicy };
+  const maxAttempts = retryPolicy.maxAttempts ?? Number.POSITIVE_INFINITY;
+  const storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+
+  const listeners = new Set<(progress: UploadQueueProgress) => void>();
+  const drainWaiters = new Set<{ resolve: () => void; reject: (error: Error) => void }>();
+
+  let entries: UploadQueueEntry[] = [];
+  const deleting = new Set<UploadQueueEntry>();
+  let completed = 0;
+  let running = false;
+  let restored: Promise<void> | null = null;
+  let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  let abortController = new AbortController();
+  // Writes are chained so an older snapshot never overwrites a newer one.
+  let persistChain: Promise<void> = Promise.resolve();
+
+  const getProgress = (): UploadQueueProgress => ({
+    entries: entries.map((entry) => ({ ...entry })),
+    completed,
+    remainingBytes: entries
+      .filter((entry) => entry.status !== "uploaded")
+      .reduce((acc, entry) => acc + entry.segment.sizeBytes, 0),
+  });
+
+  const isIdle = () => entries.every((entry) => entry.status === "failed");
+
+  const changed = () => {
+    const storage = options.storage;
+    if (storage) {
+      const snapshot: PersistedQueue = {
+        version: 1,
+        entries: entries.map(({ segment, status, attempts, lastError }) => ({
+          segment,
+          status,
+          attempts,
+          lastError,
+        })),
+        completed,
+      };
+      persistChain = persistChain
+        .then(() => storage.setItem(storageKey, JSON.stringify(snapshot)))
+        .catch(() => {
+          // Best effort; the next change writes the full state again.
+        });
+    }
+
+    const progress = getProgress();
+    [...listeners].forEach((listener) => listener(progress));
+    if (isIdle()) {
+      [...drainWaiters].forEach((waiter) => waiter.resolve());
+      drainWaiters.clear();
+    }
+  };
+
+  const restore = async () => {
+    const raw = await options.storage?.getItem(storageKey);
+    if (!raw) return;
+    try {
+      const persisted = JSON.parse(raw) as PersistedQueue;
+      if (persisted.version !== 1) return;
+      completed = persisted.completed;
+      entries = persisted.entries.map((entry) => ({
+        ...entry,
+        // An upload that was in flight when the app died is retried.
+        status: entry.status === "uploading" ? "pending" : entry.status,
+        nextAttemptAt: null,
+      }));
+    } catch {
+      // Corrupt state; start over from the native segment list.
+    }
+  };
+
+  const scheduleWake = () => {
+    if (wakeTimer !== null) {
+      clearTimeout(wakeTimer);
+      wakeTimer = null;
+    }
+    const next = entries
+      .filter((entry) => entry.status !== "uploading" && entry.status !== "failed" && entry.nextAttemptAt !== null)
+      .reduce((min, entry) => Math.min(min, entry.nextAttemptAt!), Number.POSITIVE_INFINITY);
+    if (running && Number.isFinite(next)) {
+      wakeTimer = setTimeout(pump, Math.max(0, next - Date.now()));
+    }
+  };
+
+  const remove = async (entry: UploadQueueEntry) => {
+    if (deleting.has(entry)) return;
+    deleting.add(entry);
+    try {
+      await streamAudioModule.deleteBufferedSegments([entry.segment.id]);
+    } catch (error) {
+      entry.lastError = describeError(error);
+      entry.nextAttemptAt = Date.now() + getBackoffDelay(retryPolicy, 1);
+      changed();
+      scheduleWake();
+      return;
+    } finally {
+      deleting.delete(entry);
+    }
+    entries = entries.filter((item) => item !== entry);
+    completed += 1;
+    changed();
+  };
+
+  const run = async (entry: UploadQueueEntry) => {
+    const signal = abortController.signal;
+    entry.status = "uploading";
+    entry.attempts += 1;
+    entry.nextAttemptAt = null;
+    changed();
+
+    try {
+      await options.upload(entry.segment, { attempt: entry.attempts, signal });
+    } catch (error) {
+      if (!entries.includes(entry)) return;
+      entry.lastError = describeError(error);
+      if (signal.aborted) {
+        // Stopped, not failed: don't count the attempt.
+        entry.status = "pending";
+        entry.attempts -= 1;
+      } else if (entry.attempts >= maxAttempts) {
+        entry.status = "failed";
+      } else {
+        entry.status = "pending";
+        entry.nextAttemptAt = Date.now() + getBackoffDelay(retryPolicy, entry.attempts);
+      }
+      changed();
+      pump();
+      return;
+    }
+
+    if (!entries.includes(entry)) return;
+    entry.status = "uploaded";
+    entry.lastError = null;
+    entry.nextAttemptAt = null;
+    changed();
+    await remove(entry);
+    pump();
+  };
+
+  function pump() {
+    if (!running) return;
+    const now = Date.now();
+
+    // Acknowledged uploads only need their deletion retried.
+    entries
+      .filter((entry) => entry.status === "uploaded" && (entry.nextAttemptAt ?? 0) <= now)
+      .forEach((entry) => remove(entry));
+
+    let active = entries.filter((entry) => entry.status === "uploading").length;
+    for (const entry of entries) {
+      if (active >= concurrency) break;
+      if (entry.status === "pending" && (entry.nextAttemptAt ?? 0) <= now) {
+        active += 1;
+        run(entry);
+      }
+    }
+    scheduleWake();
+  }
+
+  // Match tracked entries against the native segment list. Segments that
+  // are gone (evicted by `maxBufferedMinutes`, cleared or deleted
+  // elsewhere) would otherwise be retried forever; the ones still there get
+  // their current `uri`, which changes when the app container moves.
+  // Returns whether anything changed.
+  const reconcile = (segments: BufferedAudioSegment[]): boolean => {
+    const live = new Map(segments.map((segment) => [segment.id, segment]));
+    let modified = false;
+    entries = entries.filter((entry) => {
+      if (entry.status === "uploading" || deleting.has(entry)) return true;
+      const segment = live.get(entry.segment.id);
+      if (!segment) {
+        // An acknowledged upload only lacked its deletion.
+        if (entry.status === "uploaded") completed += 1;
+        modified = true;
+        return false;
+      }
+      if (!isSameSegment(segment, entry.segment)) {
+        entry.segment = segment;
+        modified = true;
+      }
+      return true;
+    });
+    return modified;
+  };
+
+  const sync = async () => {
+    restored ??= restore();
+    await restored;
+    const segments = await streamAudioModule.getBufferedSegments();
+    const reconciled = reconcile(segments);
+    const known = new Set(entries.map((entry) => entry.segment.id));
+    const added = segments
+      .filter((segment) => !known.has(segment.id))
+      .sort((a, b) => a.startTimestamp - b.startTimestamp)
+      .map(
+        (segment): UploadQueueEntry => ({
+          segment,
+          status: "pending",
+          attempts: 0,
+          nextAttemptAt: null,
+          lastError: null,
+        }),
+      );
+    if (added.length > 0) {
+      entries = [...entries, ...added];
+    }
+    if (reconciled || added.length > 0) {
+      changed();
+    }
+    pump();
+  };
+
+  return {
+    async start() {
+      if (running) return;
+      running = true;
+      abortController = new AbortController();
+      await sync();
+    },
+    stop() {
+      running = false;
+      abortController.abort();
+      if (wakeTimer !== null) {
+        clearTimeout(wakeTimer);
+        wakeTimer = null;
+      }
+      const error = new Error("Upload queue stopped before draining.");
+      [...drainWaiters].forEach((waiter) => waiter.reject(error));
+      drainWaiters.clear();
+    },
+    sync,
+    drain() {
+      if (isIdle()) return Promise.resolve();
+      if (!running) return Promise.reject(new Error("Upload queue is not running."));
+      return new Promise((resolve, reject) => drainWaiters.add({ resolve, reject }));
+    },
+    retryFailed() {
+      entries.forEach((entry) => {
+        if (entry.status === "failed") {
+          entry.status = "pending";
+          entry.attempts = 0;
+          entry.nextAttemptAt = null;
+        }
+      });
+      changed();
+      pump();
+    },
+    getProgress,
+    addProgressListener(listener) {
+      listeners.add(listener);
+      return { remove: () => listeners.delete(listener) };
+    },
+  };
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Fields of a segment that change while it sits in the buffer; the rest
+// is fixed when the segment is finalized.
+function isSameSegment(a: BufferedAudioSegment, b: BufferedAudioSegment): boolean {
+  return (
+    a.uri === b.uri &&
+    a.sizeBytes === b.sizeBytes &&
+    a.durationMs === b.durationMs &&
+    a.compressed?.uri === b.compressed?.uri &&
+    a.compressed?.sizeBytes === b.compressed?.sizeBytes
+  );
+}
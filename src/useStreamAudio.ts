@@ -0,0 +1,391 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { PermissionsAndroid, Platform } from "react-native";
+
+import type {
+  AudioFrameEvent,
+  AudioLevel,
+  PermissionStatus,
+  StreamAudioError,
+  StreamAudioErrorCode,
+  StreamAudioOptions,
+  StreamSessionInfo,
+  StreamStatus,
+  StreamStatusChangeEvent,
+  StreamStatusChangeReason,
+  Subscription,
+} from "./ExpoStreamAudio.types";
+import streamAudioModule from "./ExpoStreamAudioModule";
+import { addFrameStreamListener, resumeFrameStream, startFrameStream } from "./frameStream";
+
+/**
+ * Same states as `getStatus()`, following `onStatusChange` while this
+ * hook owns the recording.
+ */
+export type StreamAudioHookStatus = StreamStatus;
+
+export type UseStreamAudioOptions = StreamAudioOptions & {
+  /**
+   * Called for every audio frame while this hook owns the recording.
+   * The latest callback is always used; changing it does not re-subscribe.
+   */
+  onFrame?: (event: AudioFrameEvent) => void;
+  /**
+   * Called for every error event while this hook owns the recording, and
+   * when requesting microphone permission fails.
+   */
+  onError?: (event: StreamAudioError) => void;
+  /**
+   * Called for every status change while this hook owns the recording.
+   */
+  onStatusChange?: (event: StreamStatusChangeEvent) => void;
+};
+
+export type UseStreamAudioResult = {
+  status: StreamAudioHookStatus;
+  /**
+   * Reason of the last status change, e.g. `read_error` when recording
+   * ended on its own. Null before the first change.
+   */
+  statusReason: StreamStatusChangeReason | null;
+  permission: PermissionStatus;
+  /**
+   * What `start` resolved with: the rate, input device and source or mode
+   * in use. Null until this hook has started recording.
+   */
+  session: StreamSessionInfo | null;
+  /**
+   * Latest level from a frame (with `enableLevelMeter`) or an `onLevel`
+   * event (with `levelIntervalMs`), or null before the first one.
+   */
+  lastLevel: AudioLevel | null;
+  /**
+   * Last error reported by the native layer, or the reason `start`
+   * resolved to false.
+   */
+  error: StreamAudioError | null;
+  /**
+   * Request permission if needed and start recording. Options passed here
+   * are merged over the hook options. Resolves to false when permission was
+   * denied or the native layer failed to start.
+   */
+  start: (overrides?: StreamAudioOptions) => Promise<boolean>;
+  stop: () => Promise<void>;
+  /**
+   * Pause or resume the recording this hook owns without releasing the
+   * input; see `pause()`. Do nothing when another owner is recording.
+   */
+  pause: () => Promise<void>;
+  resume: () => Promise<void>;
+};
+
+// Native capture is a process-wide singleton; remember which hook
+// instance started it so that only the owner tears it down.
+let activeOwner: symbol | null = null;
+
+// Set while a recording started by this hook is live. Kept on `globalThis`
+// so that it survives a fast refresh re-running this module, which leaves
+// the recording without an owner; recordings started with `start()` or by
+// `createRealtimeStreamer` never set it.
+const HOOK_RECORDING = Symbol.for("expo-stream-audio.useStreamAudio.recording");
+
+function setHookRecording(recording: boolean) {
+  (globalThis as { [HOOK_RECORDING]?: boolean })[HOOK_RECORDING] = recording;
+}
+
+function isHookRecording(): boolean {
+  return (globalThis as { [HOOK_RECORDING]?: boolean })[HOOK_RECORDING] === true;
+}
+
+/**
+ * React hook that owns microphone permission, the recording lifecycle and
+ * the frame / error subscriptions. Recording is stopped when the component
+ * unmounts, and a recording this hook started but lost track of (e.g.
+ * after a fast refresh reloaded this module) is stopped on mount.
+ * Recordings started by other means are left alone.
+ */
+export function useStreamAudio(options: UseStreamAudioOptions = {}): UseStreamAudioResult {
+  const [status, setStatus] = useState<StreamAudioHookStatus>("idle");
+  const [statusReason, setStatusReason] = useState<StreamStatusChangeReason | null>(null);
+  const [permission, setPermission] = useState<PermissionStatus>("undetermined");
+  const [session, setSession] = useState<StreamSessionInfo | null>(null);
+  const [lastLevel, setLastLevel] = useState<AudioLevel | null>(null);
+  const [error, setError] = useState<StreamAudioError | null>(null);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const mountedRef = useRef(false);
+  const ownerRef = useRef<symbol | null>(null);
+  const subscriptionsRef = useRef<Subscription[]>([]);
+  const startingRef = useRef<Promise<boolean> | null>(null);
+
+  const removeSubscriptions = useCallback(() => {
+    subscriptionsRef.current.forEach((subscription) => subscription.remove());
+    subscriptionsRef.current = [];
+  }, []);
+
+  const releaseOwnership = useCallback(() => {
+    const owner = ownerRef.current;
+    ownerRef.current = null;
+    if (owner && activeOwner === owner) {
+      activeOwner = null;
+      setHookRecording(false);
+      return true;
+    }
+    return false;
+  }, []);
+
+  useEffect(() => {
+    mountedRef.current = true;
+
+    streamAudioModule
+      .requestPermission()
+      .then((current) => {
+        if (mountedRef.current) setPermission(current);
+      })
+      .catch(() => {});
+
+    streamAudioModule
+      .getStatus()
+      .then((current) => {
+        if (current !== "idle" && activeOwner === null && isHookRecording()) {
+          setHookRecording(false);
+          streamAudioModule.stop().catch(() => {});
+        }
+      })
+      .catch(() => {});
+
+    return () => {
+      mountedRef.current = false;
+      removeSubscriptions();
+      if (releaseOwnership()) {
+        streamAudioModule.stop().catch(() => {});
+      }
+    };
+  }, [releaseOwnership, removeSubscriptions]);
+
+  const startRecording = useCallback(
+    async (overrides?: StreamAudioOptions): Promise<boolean> => {
+      if (activeOwner !== null) {
+        setError(
+          createError("init_failed", "Another useStreamAudio instance is already recording."),
+        );
+        return false;
+      }
+
+      // Claimed before the permission request so that a second instance
+      // cannot start meanwhile; `stop()` or unmounting releases it, which
+      // cancels this start.
+      const owner = Symbol("useStreamAudio");
+      ownerRef.current = owner;
+      activeOwner = owner;
+
+      setError(null);
+      setStatus("starting");
+      setStatusReason("user");
+
+      const failStart = (startError: StreamAudioError) => {
+        releaseOwnership();
+        if (mountedRef.current) {
+          setError(startError);
+          setStatus("idle");
+          setStatusReason("start_failed");
+        }
+      };
+
+      let granted: PermissionStatus;
+      try {
+        granted = await ensurePermission();
+      } catch (permissionError) {
+        if (ownerRef.current !== owner) return false;
+        const startError = toStreamAudioError(permissionError);
+        failStart(startError);
+        optionsRef.current.onError?.(startError);
+        return false;
+      }
+      if (ownerRef.current !== owner) return false;
+      if (mountedRef.current) setPermission(granted);
+      if (granted === "denied") {
+        failStart(createError("permission_denied", "Microphone permission not granted."));
+        return false;
+      }
+
+      removeSubscriptions();
+      subscriptionsRef.current = [
+        addFrameStreamListener((event) => {
+          if (event.level && mountedRef.current) {
+            setLastLevel(event.level);
+          }
+          optionsRef.current.onFrame?.(event);
+        }),
+        streamAudioModule.addListener("onLevel", (event) => {
+          if (mountedRef.current) setLastLevel(event);
+        }),
+        streamAudioModule.addListener("onError", (event) => {
+          if (mountedRef.current) setError(event);
+          optionsRef.current.onError?.(event);
+        }),
+        streamAudioModule.addListener("onStatusChange", (event) => {
+          if (mountedRef.current) {
+            setStatus(event.status);
+            setStatusReason(event.reason);
+          }
+          // Recording ended without `stop()` (read failure, revoked
+          // permission, ...); let `start` be called again.
+          if (event.status === "idle" && event.reason !== "start_failed" && ownerRef.current) {
+            releaseOwnership();
+            removeSubscriptions();
+            if (mountedRef.current) setLastLevel(null);
+          }
+          optionsRef.current.onStatusChange?.(event);
+        }),
+      ];
+
+      const {
+        onFrame: _onFrame,
+        onError: _onError,
+        onStatusChange: _onStatusChange,
+        ...streamOptions
+      } = optionsRef.current;
+      setHookRecording(true);
+
+      let sessionInfo: StreamSessionInfo;
+      try {
+        sessionInfo = await startFrameStream({ ...streamOptions, ...overrides });
+      } catch (startError) {
+        removeSubscriptions();
+        failStart(toStreamAudioError(startError));
+        return false;
+      }
+
+      if (!mountedRef.current) {
+        // Unmounted while native was starting; the cleanup could not stop
+        // a recording that didn't exist yet.
+        releaseOwnership();
+        await streamAudioModule.stop().catch(() => {});
+        return false;
+      }
+
+      // On iOS and web the system prompt is shown by `start`.
+      setPermission("granted");
+      if (ownerRef.current === owner) {
+        setStatus("recording");
+        setSession(sessionInfo);
+      }
+      return true;
+    },
+    [releaseOwnership, removeSubscriptions],
+  );
+
+  // A call made while a start is in flight shares its outcome.
+  const start = useCallback(
+    (overrides?: StreamAudioOptions): Promise<boolean> => {
+      if (startingRef.current) {
+        return startingRef.current;
+      }
+      if (ownerRef.current) {
+        return Promise.resolve(true);
+      }
+      const starting = startRecording(overrides).finally(() => {
+        startingRef.current = null;
+      });
+      startingRef.current = starting;
+      return starting;
+    },
+    [startRecording],
+  );
+
+  const stop = useCallback(async () => {
+    removeSubscriptions();
+    if (!releaseOwnership()) {
+      return;
+    }
+    try {
+      await streamAudioModule.stop();
+    } finally {
+      if (mountedRef.current) {
+        setStatus("idle");
+        setStatusReason("user");
+        setLastLevel(null);
+      }
+    }
+  }, [releaseOwnership, removeSubscriptions]);
+
+  const pause = useCallback(async () => {
+    if (ownerRef.current) {
+      await streamAudioModule.pause();
+    }
+  }, []);
+
+  const resume = useCallback(async () => {
+    if (ownerRef.current) {
+      await resumeFrameStream();
+    }
+  }, []);
+
+  return {
+    status,
+    statusReason,
+    permission,
+    session,
+    lastLevel,
+    error,
+    start,
+    stop,
+    pause,
+    resume,
+  };
+}
+
+type StartErrorCode = Exclude<StreamAudioErrorCode, "read_error">;
+
+// Codes `start()` can reject with; `read_error` only occurs mid-recording.
+const START_ERROR_CODES: readonly StartErrorCode[] = [
+  "permission_denied",
+  "init_failed",
+  "session_config_failed",
+  "engine_start_failed",
+  "foreground_service_failed",
+  "buffer_write_failed",
+  "stop_failed",
+  "device_unavailable",
+  "unsupported",
+];
+
+function createError(code: StartErrorCode, message: string): StreamAudioError {
+  return {
+    code,
+    message,
+    fatal: true,
+    platform: Platform.OS === "ios" || Platform.OS === "android" ? Platform.OS : "web",
+  };
+}
+
+/**
+ * Convert a `start()` rejection into the same shape as `onError` events.
+ * Native rejections carry one of the documented codes; anything else is
+ * reported as `init_failed`.
+ */
+function toStreamAudioError(error: unknown): StreamAudioError {
+  const code = (error as { code?: unknown })?.code;
+  const message = (error as Error)?.message ?? "Failed to start recording.";
+  if (START_ERROR_CODES.includes(code as StartErrorCode)) {
+    return createError(code as StartErrorCode, message);
+  }
+  return createError("init_failed", message);
+}
+
+/**
+ * Resolve the permission status to use for `start`. Android needs an
+ * explicit runtime request; iOS and web show their prompt when capture
+ * starts, so "undetermined" is passed through.
+ */
+async function ensurePermission(): Promise<PermissionStatus> {
+  const current = await streamAudioModule.requestPermission();
+  if (current === "granted" || Platform.OS !== "android") {
+    return current;
+  }
+
+  const result = await PermissionsAndroid.request(PermissionsAndroid.PERMISSIONS.RECORD_AUDIO);
+  return result === PermissionsAndroid.RESULTS.GRANTED ? "granted" : "denied";
+}
@@ -0,0 +1,328 @@
+import type { AudioFrameEvent } from "./ExpoStreamAudio.types";
+import { decodeFrame, downmixToMono } from "./pcm";
+
+export type VoiceActivityDetectorOptions = {
+  /**
+   * How far above the adaptive noise floor (in dB) a window's energy must
+   * be to count as speech.
+   *
+   * Defaults to 10.
+   */
+  thresholdDb?: number;
+  /**
+   * Absolute energy gate in dBFS. Windows quieter than this are never
+   * treated as speech, whatever the noise floor.
+   *
+   * Defaults to -55.
+   */
+  minEnergyDb?: number;
+  /**
+   * Zero-crossing rate (crossings per sample, 0–1) above which a window
+   * close to the threshold is treated as broadband noise rather than voice.
+   *
+   * Defaults to 0.35.
+   */
+  maxZeroCrossingRate?: number;
+  /**
+   * Length of each analysis window in milliseconds. Frames are split into
+   * windows of this size; windows may straddle frame boundaries.
+   *
+   * Defaults to 10.
+   */
+  windowMs?: number;
+  /**
+   * Speech must persist for this long before `speechStart` fires.
+   *
+   * Defaults to 60.
+   */
+  minSpeechMs?: number;
+  /**
+   * Silence must persist for this long after speech before `speechEnd`
+   * fires.
+   *
+   * Defaults to 400.
+   */
+  hangoverMs?: number;
+  /**
+   * Amount of audio before the detected start that is handed back in the
+   * `speechStart` event, so the first syllable is not lost.
+   *
+   * Defaults to 300.
+   */
+  preRollMs?: number;
+  /**
+   * Time constant (ms) with which the noise floor rises towards louder
+   * background noise. The floor always falls immediately to quieter input.
+   *
+   * Defaults to 2000.
+   */
+  noiseFloorRiseMs?: number;
+};
+
+export type VoiceActivityEvent =
+  | {
+      type: "speechStart";
+      /**
+       * Timestamp in milliseconds since the Unix epoch of the first sample
+       * detected as speech.
+       */
+      timestamp: number;
+      /**
+       * Frames covering up to `preRollMs` before `timestamp`, plus the
+       * frames that confirmed the start, in order.
+       */
+      preRoll: AudioFrameEvent[];
+    }
+  | {
+      type: "speechEnd";
+      /**
+       * Timestamp in milliseconds since the Unix epoch just after the last
+       * sample detected as speech.
+       */
+      timestamp: number;
+      /**
+       * Time between the matching `speechStart` and this event's `timestamp`.
+       */
+      durationMs: number;
+    };
+
+export type VoiceActivityDetector = {
+  /**
+   * Feed the next frame. Can be passed straight to `addFrameListener`.
+   */
+  process: (frame: AudioFrameEvent) => void;
+  /**
+   * Subscribe to `speechStart` / `speechEnd` events.
+   */
+  addListener: (listener: (event: VoiceActivityEvent) => void) => { remove: () => void };
+  /**
+   * Whether the detector currently considers the input to be speech.
+   */
+  readonly isSpeaking: boolean;
+  /**
+   * Current noise floor estimate in dBFS.
+   */
+  readonly noiseFloorDb: number;
+  /**
+   * Forget all state, e.g. between recording sessions. If speech was in
+   * progress no `speechEnd` is emitted.
+   */
+  reset: () => void;
+};
+
+// Sentinel used before the first window has been measured.
+const UNSET_FLOOR = Number.NEGATIVE_INFINITY;
+const ENERGY_EPSILON = 1e-10;
+
+// Native timestamps are wall-clock times taken when a frame is read, so
+// consecutive frames jitter by a few milliseconds; a larger mismatch is
+// a gap.
+const GAP_TOLERANCE_MS = 50;
+
+/**
+ * Create an energy / zero-crossing voice activity detector driven by
+ * `AudioFrameEvent`s:
+ *
+ * ```ts
+ * const vad = createVoiceActivityDetector({ hangoverMs: 500 });
+ * vad.addListener(event => console.log(event.type, event.timestamp));
+ * const sub = addFrameListener(vad.process);
+ * ```
+ */
+export function createVoiceActivityDetector(
+  options: VoiceActivityDetectorOptions = {},
+): VoiceActivityDetector {
+  const thresholdDb = options.thresholdDb ?? 10;
+  const minEnergyDb = options.minEnergyDb ?? -55;
+  const maxZeroCrossingRate = options.maxZeroCrossingRate ?? 0.35;
+  const windowMs = options.windowMs ?? 10;
+  const minSpeechMs = options.minSpeechMs ?? 60;
+  const hangoverMs = options.hangoverMs ?? 400;
+  const preRollMs = options.preRollMs ?? 300;
+  const noiseFloorRiseMs = options.noiseFloorRiseMs ?? 2000;
+
+  const listeners = new Set<(event: VoiceActivityEvent) => void>();
+
+  let speaking = false;
+  let noiseFloorDb = UNSET_FLOOR;
+
+  // Partially filled analysis window carried over between frames.
+  let window = new Float32Array(0);
+  let windowLength = 0;
+  let windowStartTimestamp = 0;
+  let windowSampleRate = 0;
+  // Where the previous frame ended, to detect gaps (pause/resume, dropped
+  // frames) that a carried-over window must not span.
+  let expectedTimestamp: number | null = null;
+
+  // Candidate transition being confirmed, in epoch milliseconds.
+  let candidateStart: number | null = null;
+  let lastSpeechEnd: number | null = null;
+  let speechStart = 0;
+
+  let recentFrames: { frame: AudioFrameEvent; endTimestamp: number }[] = [];
+
+  const emit = (event: VoiceActivityEvent) => {
+    [...listeners].forEach((listener) => listener(event));
+  };
+
+  const analyzeWindow = (samples: Float32Array, startTimestamp: number, sampleRate: number) => {
+    let energy = 0;
+    let crossings = 0;
+    for (let i = 0; i < samples.length; i++) {
+      energy += samples[i] * samples[i];
+      if (i > 0 && samples[i] >= 0 !== samples[i - 1] >= 0) {
+        crossings++;
+      }
+    }
+    energy /= samples.length;
+    const energyDb = 10 * Math.log10(energy + ENERGY_EPSILON);
+    const zeroCrossingRate = crossings / samples.length;
+    const durationMs = (samples.length / sampleRate) * 1000;
+    const endTimestamp = startTimestamp + durationMs;
+
+    if (noiseFloorDb === UNSET_FLOOR) {
+      noiseFloorDb = energyDb;
+    }
+
+    // The floor this window is judged against, before it adapts to it.
+    const floorDb = noiseFloorDb;
+    const aboveFloor = energyDb - floorDb;
+    const isVoiced =
+      energyDb >= minEnergyDb &&
+      aboveFloor >= thresholdDb &&
+      (zeroCrossingRate <= maxZeroCrossingRate || aboveFloor >= thresholdDb * 2);
+
+    // Follow quieter input immediately, louder input slowly. While speech
+    // is ongoing the floor only adapts at a tenth of the rate so a long
+    // utterance doesn't get absorbed into the floor.
+    if (energyDb < noiseFloorDb) {
+      noiseFloorDb = energyDb;
+    } else {
+      const rate = 1 - Math.exp(-durationMs / noiseFloorRiseMs);
+      noiseFloorDb += (energyDb - noiseFloorDb) * (isVoiced || speaking ? rate / 10 : rate);
+    }
+
+    if (!speaking) {
+      if (!isVoiced) {
+        candidateStart = null;
+        return;
+      }
+      if (candidateStart === null) {
+        const onset = findOnset(samples, floorDb + thresholdDb);
+        candidateStart = startTimestamp + (onset / sampleRate) * 1000;
+      }
+      if (endTimestamp - candidateStart >= minSpeechMs) {
+        speaking = true;
+        speechStart = candidateStart;
+        candidateStart = null;
+        lastSpeechEnd = endTimestamp;
+        emit({
+          type: "speechStart",
+          timestamp: speechStart,
+          preRoll: recentFrames
+            .filter((recent) => recent.endTimestamp > speechStart - preRollMs)
+            .map((recent) => recent.frame),
+        });
+      }
+      return;
+    }
+
+    if (isVoiced) {
+      lastSpeechEnd = endTimestamp;
+      return;
+    }
+    if (lastSpeechEnd !== null && endTimestamp - lastSpeechEnd >= hangoverMs) {
+      speaking = false;
+      emit({
+        type: "speechEnd",
+        timestamp: lastSpeechEnd,
+        durationMs: lastSpeechEnd - speechStart,
+      });
+      lastSpeechEnd = null;
+    }
+  };
+
+  const process = (frame: AudioFrameEvent) => {
+    const decoded = decodeFrame(frame);
+    const { sampleRate } = decoded;
+    // Speech in either channel counts.
+    const float32 = downmixToMono(decoded.float32, decoded.channels);
+    if (sampleRate <= 0 || float32.length === 0) return;
+
+    const windowSamples = Math.max(1, Math.round((sampleRate * windowMs) / 1000));
+    if (sampleRate !== windowSampleRate || window.length !== windowSamples) {
+      window = new Float32Array(windowSamples);
+      windowLength = 0;
+      windowSampleRate = sampleRate;
+    }
+    if (
+      expectedTimestamp !== null &&
+      Math.abs(frame.timestamp - expectedTimestamp) > Math.max(windowMs, GAP_TOLERANCE_MS)
+    ) {
+      windowLength = 0;
+      candidateStart = null;
+    }
+    expectedTimestamp = frame.timestamp + decoded.durationMs;
+
+    recentFrames.push({ frame, endTimestamp: expectedTimestamp });
+    const keepAfter = frame.timestamp - preRollMs - minSpeechMs - windowMs;
+    while (recentFrames.length > 1 && recentFrames[0].endTimestamp < keepAfter) {
+      recentFrames.shift();
+    }
+
+    let offset = 0;
+    while (offset < float32.length) {
+      if (windowLength === 0) {
+        windowStartTimestamp = frame.timestamp + (offset / sampleRate) * 1000;
+      }
+      const count = Math.min(windowSamples - windowLength, float32.length - offset);
+      window.set(float32.subarray(offset, offset + count), windowLength);
+      windowLength += count;
+      offset += count;
+
+      if (windowLength === windowSamples) {
+        analyzeWindow(window, windowStartTimestamp, sampleRate);
+        windowLength = 0;
+      }
+    }
+  };
+
+  return {
+    process,
+    addListener(listener) {
+      listeners.add(listener);
+      return { remove: () => listeners.delete(listener) };
+    },
+    get isSpeaking() {
+      return speaking;
+    },
+    get noiseFloorDb() {
+      return noiseFloorDb;
+    },
+    reset() {
+      speaking = false;
+      noiseFloorDb = UNSET_FLOOR;
+      windowLength = 0;
+      expectedTimestamp = null;
+      candidateStart = null;
+      lastSpeechEnd = null;
+      recentFrames = [];
+    },
+  };
+}
+
+/**
+ * Index of the first sample whose instantaneous power exceeds the
+ * threshold, so onsets are reported with sample rather than window
+ * resolution.
+ */
+function findOnset(samples: Float32Array, thresholdDb: number): number {
+  const thresholdAmplitude = Math.sqrt(10 ** (thresholdDb / 10));
+  for (let i = 0; i < samples.length; i++) {
+    if (Math.abs(samples[i]) >= thresholdAmplitude) {
+      return i;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,342 @@
+import { bytesToInt16, int16ToBytes } from "./pcm";
+
+export type WavFormat = {
+  /**
+   * Sample rate in Hz.
+   */
+  sampleRate: number;
+  /**
+   * Number of interleaved channels.
+   */
+  channels: number;
+  /**
+   * Bits per sample. Only 16-bit PCM is currently supported.
+   */
+  bitsPerSample: number;
+};
+
+export type ParsedWav = WavFormat & {
+  /**
+   * Interleaved PCM16 samples from the `data` chunk.
+   */
+  samples: Int16Array;
+  /**
+   * Number of sample frames (samples per channel).
+   */
+  frameCount: number;
+  durationMs: number;
+  /**
+   * True when the header's sizes did not match the file and were derived
+   * from the actual length, e.g. for a segment that was still being
+   * written when the app was killed.
+   */
+  repaired: boolean;
+};
+
+export type ParseWavOptions = {
+  /**
+   * What to do when the `data` chunk size is 0 (or larger than the file)
+   * although audio follows the header. `repair` uses the bytes actually
+   * present; `reject` throws.
+   *
+   * Defaults to `repair`.
+   */
+  truncatedHeader?: "repair" | "reject";
+};
+
+export type WavSegmentInput = {
+  /**
+   * Bytes of a WAV file, e.g. a buffered segment read from its `uri`.
+   */
+  data: Uint8Array | ArrayBuffer;
+  /**
+   * Timestamp in milliseconds since the Unix epoch of the first sample,
+   * as in `BufferedAudioSegment.startTimestamp`.
+   */
+  startTimestamp: number;
+};
+
+export type ConcatWavOptions = {
+  /**
+   * Gaps and overlaps between consecutive segments shorter than this are
+   * ignored and the segments are joined back to back, so millisecond
+   * timestamp jitter doesn't insert clicks.
+   *
+   * Defaults to 10.
+   */
+  toleranceMs?: number;
+  /**
+   * Passed to `parseWav` for every segment.
+   */
+  truncatedHeader?: ParseWavOptions["truncatedHeader"];
+};
+
+export type ConcatenatedWav = {
+  /**
+   * Bytes of the combined WAV file.
+   */
+  wav: Uint8Array;
+  /**
+   * Timestamp of the first sample, i.e. the earliest segment start.
+   */
+  startTimestamp: number;
+  durationMs: number;
+  /**
+   * Total length of silence inserted for gaps between segments.
+   */
+  silenceMs: number;
+};
+
+const WAV_HEADER_SIZE = 44;
+const FORMAT_PCM = 1;
+const FORMAT_EXTENSIBLE = 0xfffe;
+
+/**
+ * Parse a WAV file into its format and PCM16 samples. Unknown chunks
+ * (`LIST`, `fact`, …) are skipped. Throws for files that are not PCM16 WAV
+ * or have no `data` chunk.
+ */
+export function parseWav(input: Uint8Array | ArrayBuffer, options: ParseWavOptions = {}): ParsedWav {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (bytes.length < 12 || readAscii(bytes, 0) !== "RIFF" || readAscii(bytes, 8) !== "WAVE") {
+    throw new Error("Not a WAV file: missing RIFF/WAVE header.");
+  }
+
+  let format: (WavFormat & { audioFormat: number }) | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const id = readAscii(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      if (size < 16 || body + 16 > bytes.length) {
+        throw new Error("Invalid WAV file: truncated fmt chunk.");
+      }
+      let audioFormat = view.getUint16(body, true);
+      if (audioFormat === FORMAT_EXTENSIBLE && size >= 26) {
+        // First two bytes of the sub-format GUID hold the actual format tag.
+        audioFormat = view.getUint16(body + 24, true);
+      }
+      format = {
+        audioFormat,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (id === "data") {
+      if (!format) {
+        throw new Error("Invalid WAV file: data chunk before fmt chunk.");
+      }
+      if (format.audioFormat !== FORMAT_PCM || format.bitsPerSample !== 16) {
+        throw new Error(
+          `Unsupported WAV encoding: format ${format.audioFormat}, ${format.bitsPerSample} bits.`,
+        );
+      }
+      if (format.channels < 1 || format.sampleRate <= 0) {
+        throw new Error("Invalid WAV file: bad channel count or sample rate.");
+      }
+
+      const available = bytes.length - body;
+      const truncated = size === 0 || size > available;
+      if (truncated && available > 0 && options.truncatedHeader === "reject") {
+        throw new Error(
+          `Invalid WAV file: data chunk declares ${size} bytes but ${available} are present.`,
+        );
+      }
+
+      const blockAlign = format.channels * 2;
+      const dataSize = truncated ? available - (available % blockAlign) : size - (size % blockAlign);
+      const samples = bytesToInt16(bytes.subarray(body, body + dataSize));
+      const frameCount = samples.length / format.channels;
+
+      return {
+        sampleRate: format.sampleRate,
+        channels: format.channels,
+        bitsPerSample: format.bitsPerSample,
+        samples,
+        frameCount,
+        durationMs: (frameCount / format.sampleRate) * 1000,
+        repaired: truncated && dataSize > 0,
+      };
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error("Invalid WAV file: no data chunk.");
+}
+
+/**
+ * Build a PCM16 WAV file from interleaved samples.
+ */
+export function writeWav(
+  samples: Int16Array,
+  format: { sampleRate: number; channels?: number },
+): Uint8Array<ArrayBuffer> {
+  const channels = format.channels ?? 1;
+  const bytes = new Uint8Array(WAV_HEADER_SIZE + samples.byteLength);
+  bytes.set(new Uint8Array(buildWavHeader(samples.byteLength, format.sampleRate, channels)));
+  bytes.set(int16ToBytes(samples), WAV_HEADER_SIZE);
+  return bytes;
+}
+
+/**
+ * Combine WAV segments into a single file in timestamp order. Gaps
+ * between one segment's end and the next one's `startTimestamp` are
+ * filled with silence; overlapping audio is dropped from the later
+ * segment. All segments must share the same sample rate and channel count.
+ */
+export function concatWav(segments: WavSegmentInput[], options: ConcatWavOptions = {}): ConcatenatedWav {
+  if (segments.length === 0) {
+    throw new Error("concatWav needs at least one segment.");
+  }
+
+  const joined = joinTimedPcm(
+    segments.map((segment) => ({
+      ...parseWav(segment.data, { truncatedHeader: options.truncatedHeader }),
+      startTimestamp: segment.startTimestamp,
+    })),
+    { toleranceMs: options.toleranceMs },
+  );
+  if (!joined) {
+    throw new Error("concatWav: segments contain no audio.");
+  }
+
+  return {
+    wav: writeWav(joined.samples, joined),
+    startTimestamp: joined.startTimestamp,
+    durationMs: joined.endTimestamp - joined.startTimestamp,
+    silenceMs: (joined.silenceFrames / joined.sampleRate) * 1000,
+  };
+}
+
+/**
+ * PCM placed on the wall clock, e.g. a buffered segment's samples.
+ */
+export type TimedPcm = {
+  samples: Int16Array;
+  sampleRate: number;
+  channels: number;
+  startTimestamp: number;
+};
+
+export type JoinedPcm = TimedPcm & {
+  endTimestamp: number;
+  silenceFrames: number;
+};
+
+/**
+ * Lay segments out on one timeline, optionally cut to `[from, to)`: gaps
+ * become silence, overlaps are dropped from the later segment and offsets
+ * within `toleranceMs` are treated as contiguous. Returns null when no
+ * segment overlaps the range.
+ */
+export function joinTimedPcm(
+  segments: TimedPcm[],
+  range: { from?: number; to?: number; toleranceMs?: number } = {},
+): JoinedPcm | null {
+  const from = range.from ?? Number.NEGATIVE_INFINITY;
+  const to = range.to ?? Number.POSITIVE_INFINITY;
+  const endOf = (segment: TimedPcm) =>
+    segment.startTimestamp + (segment.samples.length / segment.channels / segment.sampleRate) * 1000;
+
+  const overlapping = segments
+    .filter((segment) => segment.samples.length > 0 && segment.startTimestamp < to && endOf(segment) > from)
+    .sort((a, b) => a.startTimestamp - b.startTimestamp);
+  if (overlapping.length === 0) {
+    return null;
+  }
+
+  const { sampleRate, channels } = overlapping[0];
+  const startTimestamp = Math.max(from, overlapping[0].startTimestamp);
+  const toleranceFrames = ((range.toleranceMs ?? 10) / 1000) * sampleRate;
+  const maxFrames = Number.isFinite(to)
+    ? Math.round(((to - startTimestamp) / 1000) * sampleRate)
+    : Number.POSITIVE_INFINITY;
+
+  const parts: Int16Array[] = [];
+  let frameCount = 0;
+  let silenceFrames = 0;
+
+  for (const segment of overlapping) {
+    if (segment.sampleRate !== sampleRate || segment.channels !== channels) {
+      throw new Error(
+        `Cannot join ${segment.sampleRate} Hz/${segment.channels} ch audio with ${sampleRate} Hz/${channels} ch.`,
+      );
+    }
+
+    let position = Math.round(((segment.startTimestamp - startTimestamp) / 1000) * sampleRate);
+    if (frameCount > 0 && Math.abs(position - frameCount) <= toleranceFrames) {
+      position = frameCount;
+    }
+    if (position > frameCount) {
+      const silence = Math.min(position, maxFrames) - frameCount;
+      parts.push(new Int16Array(silence * channels));
+      frameCount += silence;
+      silenceFrames += silence;
+    }
+
+    const segmentFrames = segment.samples.length / channels;
+    const first = Math.max(0, frameCount - position);
+    const last = Math.min(segmentFrames, maxFrames - position);
+    if (last > first) {
+      parts.push(segment.samples.subarray(first * channels, last * channels));
+      frameCount += last - first;
+    }
+  }
+
+  const samples = new Int16Array(frameCount * channels);
+  let offset = 0;
+  parts.forEach((part) => {
+    samples.set(part, offset);
+    offset += part.length;
+  });
+
+  return {
+    samples,
+    sampleRate,
+    channels,
+    startTimestamp,
+    endTimestamp: startTimestamp + (frameCount / sampleRate) * 1000,
+    silenceFrames,
+  };
+}
+
+/**
+ * 44-byte canonical header for PCM16 audio with `dataSize` bytes of
+ * samples.
+ */
+export function buildWavHeader(dataSize: number, sampleRate: number, channels = 1): ArrayBuffer {
+  const header = new ArrayBuffer(WAV_HEADER_SIZE);
+  const view = new DataView(header);
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      view.setUint8(offset + i, text.charCodeAt(i));
+    }
+  };
+  const blockAlign = channels * 2;
+
+  writeAscii(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeAscii(8, "WAVE");
+  writeAscii(12, "fmt ");
+  view.setUint32(16, 16, true); // Subchunk1Size
+  view.setUint16(20, FORMAT_PCM, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // byteRate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true); // bitsPerSample
+  writeAscii(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  return header;
+}
+
+function readAscii(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
@@ -0,0 +1,69 @@
+import streamAudioModule from "./ExpoStreamAudioModule";
+import { decodeBase64 } from "./pcm";
+import { parseWav } from "./wav";
+import { createYielder } from "./yielder";
+
+// Samples scanned between turns of the event loop in `loadSegmentPeaks`.
+const PEAK_CHUNK_SAMPLES = 65536;
+
+/**
+ * Peak magnitude (0–1) of each of `barCount` equal slices of interleaved
+ * PCM16. Slices past the end of short input are 0.
+ */
+export function waveformPeaks(samples: Int16Array, barCount: number): number[] {
+  const peaks = new Array<number>(barCount).fill(0);
+  addPeaks(peaks, samples, 0, samples.length);
+  return peaks.map((peak) => Math.min(1, peak));
+}
+
+/**
+ * `waveformPeaks` of a finalized buffered segment's WAV file, scanned in
+ * chunks that let the event loop run in between.
+ */
+export async function loadSegmentPeaks(id: string, barCount: number): Promise<number[]> {
+  const { samples } = parseWav(decodeBase64(await streamAudioModule.readBufferedSegment(id)));
+  const peaks = new Array<number>(barCount).fill(0);
+  const pause = createYielder();
+  for (let start = 0; start < samples.length; start += PEAK_CHUNK_SAMPLES) {
+    await pause();
+    addPeaks(peaks, samples, start, Math.min(samples.length, start + PEAK_CHUNK_SAMPLES));
+  }
+  return peaks.map((peak) => Math.min(1, peak));
+}
+
+function addPeaks(peaks: number[], samples: Int16Array, start: number, end: number) {
+  for (let i = start; i < end; i++) {
+    const bar = Math.floor((i / samples.length) * peaks.length);
+    peaks[bar] = Math.max(peaks[bar], Math.abs(samples[i]) / 32767);
+  }
+}
+
+/**
+ * Cuts a live stream into slices of `sliceMs` and reports the peak
+ * magnitude (0–1) of each slice as it completes. Slices carry over
+ * between frames, so frame and batch sizes do not affect the result.
+ */
+export class WaveformSlicer {
+  private peak = 0;
+  // Sample frames in the current slice.
+  private filled = 0;
+
+  constructor(private readonly sliceMs: number) {}
+
+  add(samples: Int16Array, channels: number, sampleRate: number): number[] {
+    const sliceFrames = Math.max(1, Math.round((this.sliceMs / 1000) * sampleRate));
+    const peaks: number[] = [];
+    for (let i = 0; i < samples.length; i += channels) {
+      for (let channel = 0; channel < channels && i + channel < samples.length; channel++) {
+        this.peak = Math.max(this.peak, Math.abs(samples[i + channel]));
+      }
+      this.filled++;
+      if (this.filled >= sliceFrames) {
+        peaks.push(Math.min(1, this.peak / 32767));
+        this.peak = 0;
+        this.filled = 0;
+      }
+    }
+    return peaks;
+  }
+}
@@ -0,0 +1,16 @@
+const DEFAULT_BUDGET_MS = 8;
+
+/**
+ * Returns a function to await between units of long-running work on the
+ * JS thread. It resolves right away until `budgetMs` of work has passed
+ * since the event loop last had a turn, then waits for the next macrotask
+ * so that rendering, input and native events are not held up.
+ */
+export function createYielder(budgetMs = DEFAULT_BUDGET_MS): () => Promise<void> {
+  let sliceStart = Date.now();
+  return async () => {
+    if (Date.now() - sliceStart < budgetMs) return;
+    await new Promise<void>((resolve) => setTimeout(resolve, 0));
+    sliceStart = Date.now();
+  };
+}